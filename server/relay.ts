@@ -0,0 +1,165 @@
+import { WebSocketServer, WebSocket } from "ws";
+import {
+  BATTLE_LENGTHS,
+  ClientMessage,
+  DEFAULT_RELAY_PORT,
+  MAX_NAME_LENGTH,
+  NET_PROTOCOL_VERSION,
+  NetBattle,
+  NetScore,
+  ServerMessage,
+  parseMessage
+} from "../src/netProtocol";
+
+// Session relay: one lobby, everyone in it sees everyone else. Skater state
+// and tricks are passed straight through; the relay owns the clock, the trick
+// battle timer and the battle scoreboard. Run with `npm run relay`
+// (RELAY_PORT overrides the port).
+
+const PORT = Number(process.env.RELAY_PORT) || DEFAULT_RELAY_PORT;
+const MAX_PLAYERS = 8;
+// Tricks are stamped with when they landed (the sender's estimate of relay
+// time); a trick that landed before the buzzer still counts if it arrives
+// this late, so laggy players aren't robbed of their last trick
+const MAX_TRICK_LAG = 500;
+const MAX_TRICK_POINTS = 20000;
+
+type Client = { id: string; name: string; ws: WebSocket; score: number };
+
+const clients = new Map<WebSocket, Client>();
+let nextId = 1;
+let battle: NetBattle | null = null;
+let battleTimer: ReturnType<typeof setTimeout> | null = null;
+
+function send(ws: WebSocket, msg: ServerMessage): void {
+  if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(msg));
+}
+
+function broadcast(msg: ServerMessage, except?: WebSocket): void {
+  const data = JSON.stringify(msg);
+  for (const ws of clients.keys()) {
+    if (ws !== except && ws.readyState === WebSocket.OPEN) ws.send(data);
+  }
+}
+
+function scores(): NetScore[] {
+  return [...clients.values()].map((c) => ({ id: c.id, name: c.name, score: c.score })).sort((a, b) => b.score - a.score);
+}
+
+function cleanName(name: unknown): string {
+  const s = typeof name === "string" ? name.replace(/[^\w .-]/g, "").trim().slice(0, MAX_NAME_LENGTH) : "";
+  return s || "Skater";
+}
+
+function startBattle(seconds: number): void {
+  if (battle || !BATTLE_LENGTHS.includes(seconds)) return;
+  const now = Date.now();
+  // A short count-in so everyone's clock has seen the start before it counts
+  battle = { startsAt: now + 3000, endsAt: now + 3000 + seconds * 1000 };
+  for (const c of clients.values()) c.score = 0;
+  broadcast({ t: "battle", battle });
+  broadcast({ t: "scores", scores: scores() });
+  battleTimer = setTimeout(endBattle, battle.endsAt - now + MAX_TRICK_LAG);
+}
+
+function endBattle(): void {
+  battle = null;
+  battleTimer = null;
+  broadcast({ t: "battleEnd", scores: scores() });
+}
+
+function finiteNumbers(a: unknown, ...lengths: number[]): a is number[] {
+  return Array.isArray(a) && lengths.includes(a.length) && a.every((n) => typeof n === "number" && Number.isFinite(n));
+}
+
+function onMessage(ws: WebSocket, msg: ClientMessage): void {
+  const client = clients.get(ws);
+  if (msg.t === "join") {
+    if (client) return;
+    if (msg.version !== NET_PROTOCOL_VERSION) {
+      send(ws, { t: "reject", reason: "Game and relay versions don't match" });
+      ws.close();
+      return;
+    }
+    if (clients.size >= MAX_PLAYERS) {
+      send(ws, { t: "reject", reason: "Lobby is full" });
+      ws.close();
+      return;
+    }
+    const joined: Client = { id: String(nextId++), name: cleanName(msg.name), ws, score: 0 };
+    clients.set(ws, joined);
+    send(ws, {
+      t: "welcome",
+      id: joined.id,
+      players: [...clients.values()].map((c) => ({ id: c.id, name: c.name })),
+      battle,
+      scores: scores()
+    });
+    broadcast({ t: "joined", player: { id: joined.id, name: joined.name } }, ws);
+    console.log(`${joined.name} joined (${clients.size} in lobby)`);
+    return;
+  }
+  if (msg.t === "ping") {
+    send(ws, { t: "pong", sent: msg.sent, now: Date.now() });
+    return;
+  }
+  // Everything else needs a joined player
+  if (!client) return;
+  switch (msg.t) {
+    case "state":
+      // NaN or Infinity would wreck every other client's interpolation. Poses
+      // are ghost frames: 14 numbers, or 62 mid-bail with the rig parts
+      if (finiteNumbers(msg.s?.pose, 14, 62) && finiteNumbers(msg.s.v, 3)) {
+        broadcast({ t: "state", id: client.id, s: { at: Number(msg.s.at) || Date.now(), v: msg.s.v, pose: msg.s.pose } }, ws);
+      }
+      break;
+    case "trick": {
+      const points = Math.max(0, Math.min(MAX_TRICK_POINTS, Math.round(Number(msg.points) || 0)));
+      const name = String(msg.name).slice(0, 64);
+      broadcast({ t: "trick", id: client.id, name, points }, ws);
+      if (!battle) break;
+      // Lag compensation: judge by when the trick landed, not when it arrived
+      const now = Date.now();
+      const at = Math.min(now, Math.max(now - MAX_TRICK_LAG, Number(msg.at) || now));
+      if (at >= battle.startsAt && at <= battle.endsAt) {
+        client.score += points;
+        broadcast({ t: "scores", scores: scores() });
+      }
+      break;
+    }
+    case "battle":
+      startBattle(msg.seconds);
+      break;
+  }
+}
+
+const wss = new WebSocketServer({ port: PORT });
+
+wss.on("connection", (ws) => {
+  // A bad frame (or a socket error) drops that client only; "close" follows
+  // and tidies up the lobby
+  ws.on("error", (err) => {
+    console.log(`Dropped a connection: ${err.message}`);
+    ws.terminate();
+  });
+  ws.on("message", (data) => {
+    const msg = parseMessage<ClientMessage>(data.toString());
+    if (msg) onMessage(ws, msg);
+  });
+  ws.on("close", () => {
+    const client = clients.get(ws);
+    if (!client) return;
+    clients.delete(ws);
+    broadcast({ t: "left", id: client.id });
+    broadcast({ t: "scores", scores: scores() });
+    console.log(`${client.name} left (${clients.size} in lobby)`);
+    // Nobody left to battle
+    if (clients.size === 0 && battleTimer) {
+      clearTimeout(battleTimer);
+      battle = null;
+      battleTimer = null;
+    }
+  });
+});
+
+console.log(`Relay listening on ws://localhost:${PORT}`);
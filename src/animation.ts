@@ -0,0 +1,133 @@
+import { AnimationGroup } from "@babylonjs/core/Animations/animationGroup";
+
+// Animation state machine for a loaded character. The controller picks a
+// state each step; the animator finds the GLB's animation group for it by
+// name and cross-fades group weights. States without a clip fall back along
+// FALLBACK (grab -> air -> crouch -> idle); a GLB with no recognisable clips
+// gets no animator and the procedural fallback pose is used instead.
+
+export type AnimState = "idle" | "push" | "crouch" | "ollie" | "air" | "grab" | "grind" | "manual" | "land" | "bail";
+
+// Names each state answers to, matched case-insensitively against the group
+// name: an exact match first, then as a substring ("Armature|Skater_Push").
+export const CLIP_NAMES: Record<AnimState, string[]> = {
+  idle: ["idle", "ride", "stand"],
+  push: ["push", "kick"],
+  crouch: ["crouch", "pump", "squat"],
+  ollie: ["ollie", "pop", "jump"],
+  air: ["air", "fall", "inair"],
+  grab: ["grab", "indy", "melon"],
+  grind: ["grind", "5050", "slide"],
+  manual: ["manual", "wheelie"],
+  land: ["land", "impact"],
+  bail: ["bail", "slam", "death", "fallover"]
+};
+
+// Where a state goes when the GLB has no clip for it
+const FALLBACK: Record<AnimState, AnimState | null> = {
+  idle: null,
+  push: "idle",
+  crouch: "idle",
+  ollie: "air",
+  air: "crouch",
+  grab: "air",
+  grind: "crouch",
+  manual: "crouch",
+  land: "crouch",
+  bail: null
+};
+
+// Played once and held; everything else loops
+const ONE_SHOT: ReadonlySet<AnimState> = new Set<AnimState>(["ollie", "land", "bail"]);
+
+const BLEND_TIME = 0.15; // seconds for a full cross-fade
+
+export type Animator = {
+  readonly state: AnimState | null;
+  /** Whether the state has a clip of its own (not a fallback). */
+  has: (state: AnimState) => boolean;
+  /** Switch state; a no-op when it resolves to the clip already playing. */
+  setState: (state: AnimState, speedRatio?: number) => void;
+  /** Advance the cross-fade. */
+  update: (dt: number) => void;
+  dispose: () => void;
+};
+
+function findClip(groups: AnimationGroup[], names: string[]): AnimationGroup | null {
+  const lower = groups.map((g) => g.name.toLowerCase());
+  for (const n of names) {
+    const i = lower.indexOf(n);
+    if (i >= 0) return groups[i];
+  }
+  for (const n of names) {
+    const i = lower.findIndex((g) => g.includes(n));
+    if (i >= 0) return groups[i];
+  }
+  return null;
+}
+
+/** Map a GLB's animation groups onto the states; null when none of them match. */
+export function createAnimator(groups: AnimationGroup[]): Animator | null {
+  const clips = new Map<AnimState, AnimationGroup>();
+  for (const state of Object.keys(CLIP_NAMES) as AnimState[]) {
+    const g = findClip(groups, CLIP_NAMES[state]);
+    if (g) clips.set(state, g);
+  }
+  if (clips.size === 0) return null;
+  // The loader starts the first group playing; the animator owns playback now
+  for (const g of groups) g.stop();
+
+  const weights = new Map<AnimationGroup, number>();
+  let state: AnimState | null = null;
+  let current: AnimationGroup | null = null;
+
+  function resolve(s: AnimState): { state: AnimState; group: AnimationGroup } | null {
+    let at: AnimState | null = s;
+    while (at) {
+      const g = clips.get(at);
+      if (g) return { state: at, group: g };
+      at = FALLBACK[at];
+    }
+    return null;
+  }
+
+  return {
+    get state() {
+      return state;
+    },
+    has: (s) => clips.has(s),
+    setState: (s, speedRatio = 1) => {
+      const r = resolve(s);
+      // Nothing to fall back to: keep whatever is playing
+      if (!r) return;
+      state = s;
+      if (r.group === current) {
+        current.speedRatio = speedRatio;
+        return;
+      }
+      current = r.group;
+      if (!weights.has(current)) weights.set(current, 0);
+      current.start(!ONE_SHOT.has(r.state), speedRatio, current.from, current.to);
+      current.weight = weights.get(current)!;
+    },
+    update: (dt) => {
+      const step = dt / BLEND_TIME;
+      for (const [g, w] of weights) {
+        const target = g === current ? 1 : 0;
+        const next = target > w ? Math.min(target, w + step) : Math.max(target, w - step);
+        weights.set(g, next);
+        g.weight = next;
+        if (next === 0 && g !== current) {
+          g.stop();
+          weights.delete(g);
+        }
+      }
+    },
+    dispose: () => {
+      for (const g of weights.keys()) g.stop();
+      weights.clear();
+      current = null;
+      state = null;
+    }
+  };
+}
@@ -0,0 +1,192 @@
+import { Scene } from "@babylonjs/core/scene";
+import { AbstractMesh } from "@babylonjs/core/Meshes/abstractMesh";
+import { Vector3 } from "@babylonjs/core/Maths/math.vector";
+
+// Horizontal collision for the skater. Upright props are reduced to boxes (or
+// cylinders, via metadata.collider) from their world bounding boxes and the
+// rider to a vertical capsule. A prop only counts when it reaches into the
+// capsule's height: low ground props are stepped up onto, overhangs pass over
+// the head. Props are upright prisms, so against the ones that do count the
+// capsule's move is swept as a circle on the ground plane, and a fast rider
+// can't tunnel through a thin wall. Tilted boxes (banks, ramps), rails and
+// transitions are ridden, not collided with.
+
+export type Collider = {
+  kind: "box" | "cylinder";
+  center: Vector3;
+  // Box: unit axes on the ground plane and half extents along them
+  axisX: Vector3;
+  axisZ: Vector3;
+  halfX: number;
+  halfZ: number;
+  radius: number; // cylinder
+  minY: number;
+  maxY: number;
+  // Ground props can be stepped up onto; solid-only ones (posts) can't
+  walkable: boolean;
+};
+
+/** The rider: a vertical capsule standing at `feet` (world y). */
+export type Capsule = {
+  radius: number;
+  feet: number;
+  height: number;
+  /** Ground props topping out this far above the feet are ridden up onto. */
+  stepUp: number;
+};
+
+export type SweepHit = {
+  t: number;       // 0..1 along the move
+  normal: Vector3; // on the ground plane, pointing out of the collider
+};
+
+export type Bounds = { minX: number; maxX: number; minZ: number; maxZ: number };
+
+/** What collision reads from a prop's metadata (set where the park builds it). */
+type PropMetadata = {
+  isGround?: boolean;
+  isSolid?: boolean;
+  isRail?: boolean;
+  isPlayArea?: boolean;
+  transition?: unknown;
+  collider?: "box" | "cylinder";
+};
+
+function propMetadata(mesh: AbstractMesh): PropMetadata | null {
+  return mesh.metadata ? (mesh.metadata as PropMetadata) : null;
+}
+
+function colliderForMesh(mesh: AbstractMesh): Collider | null {
+  const md = propMetadata(mesh);
+  if (!md || (!md.isGround && !md.isSolid) || md.isRail || md.transition) return null;
+  mesh.computeWorldMatrix(true);
+  const box = mesh.getBoundingInfo().boundingBox;
+  // Only upright props block; anything tilted is a ramp to ride
+  if (box.directions[1].y < 0.98) return null;
+  const flat = (v: Vector3) => new Vector3(v.x, 0, v.z).normalize();
+  // Half sizes along the box's own (possibly yawed) axes: local extents times
+  // the world scale, not the axis-aligned world extents
+  const scale = new Vector3();
+  mesh.getWorldMatrix().decompose(scale);
+  const halfX = box.extendSize.x * Math.abs(scale.x);
+  const halfZ = box.extendSize.z * Math.abs(scale.z);
+  return {
+    kind: md.collider === "cylinder" ? "cylinder" : "box",
+    center: box.centerWorld.clone(),
+    axisX: flat(box.directions[0]),
+    axisZ: flat(box.directions[2]),
+    halfX,
+    halfZ,
+    radius: Math.max(halfX, halfZ),
+    minY: box.minimumWorld.y,
+    maxY: box.maximumWorld.y,
+    walkable: !!md.isGround
+  };
+}
+
+// Props don't move and the park is built once per scene, so its colliders
+// are gathered once
+const cache = new WeakMap<Scene, Collider[]>();
+
+export function collectColliders(scene: Scene): Collider[] {
+  const cached = cache.get(scene);
+  if (cached) return cached;
+  const out: Collider[] = [];
+  for (const m of scene.meshes) {
+    const c = colliderForMesh(m);
+    if (c) out.push(c);
+  }
+  cache.set(scene, out);
+  return out;
+}
+
+/** Whether the collider reaches into the capsule's height (above what it can step up onto). */
+export function blocksCapsule(c: Collider, capsule: Capsule): boolean {
+  const step = c.walkable ? capsule.stepUp : 0;
+  return c.maxY > capsule.feet + step && c.minY < capsule.feet + capsule.height;
+}
+
+/** First contact of a circle of radius r moving from -> to (ground plane), or null. */
+export function sweepCircle(c: Collider, from: Vector3, to: Vector3, r: number): SweepHit | null {
+  if (c.kind === "cylinder") {
+    const R = c.radius + r;
+    const px = from.x - c.center.x;
+    const pz = from.z - c.center.z;
+    const dx = to.x - from.x;
+    const dz = to.z - from.z;
+    const a = dx * dx + dz * dz;
+    const b = 2 * (px * dx + pz * dz);
+    const cc = px * px + pz * pz - R * R;
+    if (cc <= 0 || a < 1e-9) return null; // already inside: pushOut handles it
+    const disc = b * b - 4 * a * cc;
+    if (disc < 0) return null;
+    const t = (-b - Math.sqrt(disc)) / (2 * a);
+    if (t < 0 || t > 1) return null;
+    return { t, normal: new Vector3(px + dx * t, 0, pz + dz * t).normalize() };
+  }
+  // Box: slab test against the box grown by r, in the box's own frame
+  const rel = from.subtract(c.center);
+  const move = to.subtract(from);
+  const p = [Vector3.Dot(rel, c.axisX), Vector3.Dot(rel, c.axisZ)];
+  const d = [Vector3.Dot(move, c.axisX), Vector3.Dot(move, c.axisZ)];
+  const half = [c.halfX + r, c.halfZ + r];
+  if (Math.abs(p[0]) < half[0] && Math.abs(p[1]) < half[1]) return null;
+  let tEnter = 0;
+  let tExit = 1;
+  let axis = -1;
+  let sign = 0;
+  for (let i = 0; i < 2; i++) {
+    if (Math.abs(d[i]) < 1e-9) {
+      if (Math.abs(p[i]) >= half[i]) return null;
+      continue;
+    }
+    let t0 = (-half[i] - p[i]) / d[i];
+    let t1 = (half[i] - p[i]) / d[i];
+    if (t0 > t1) [t0, t1] = [t1, t0];
+    if (t0 > tEnter) {
+      tEnter = t0;
+      axis = i;
+      sign = d[i] > 0 ? -1 : 1;
+    }
+    tExit = Math.min(tExit, t1);
+    if (tEnter > tExit) return null;
+  }
+  if (axis < 0) return null;
+  const normal = (axis === 0 ? c.axisX : c.axisZ).scale(sign);
+  return { t: tEnter, normal };
+}
+
+/** Shortest push (ground plane) that moves a circle at p out of the collider, or null. */
+export function pushOut(c: Collider, p: Vector3, r: number): Vector3 | null {
+  if (c.kind === "cylinder") {
+    const dx = p.x - c.center.x;
+    const dz = p.z - c.center.z;
+    const dist = Math.hypot(dx, dz);
+    const R = c.radius + r;
+    if (dist >= R) return null;
+    if (dist < 1e-6) return new Vector3(R, 0, 0);
+    return new Vector3((dx / dist) * (R - dist), 0, (dz / dist) * (R - dist));
+  }
+  const rel = p.subtract(c.center);
+  const lx = Vector3.Dot(rel, c.axisX);
+  const lz = Vector3.Dot(rel, c.axisZ);
+  const ox = c.halfX + r - Math.abs(lx);
+  const oz = c.halfZ + r - Math.abs(lz);
+  if (ox <= 0 || oz <= 0) return null;
+  return ox < oz ? c.axisX.scale(ox * (lx < 0 ? -1 : 1)) : c.axisZ.scale(oz * (lz < 0 ? -1 : 1));
+}
+
+/** Extent of the meshes tagged as the park's play area, or null when none are. */
+export function playAreaBounds(scene: Scene): Bounds | null {
+  let b: Bounds | null = null;
+  for (const m of scene.meshes) {
+    if (!propMetadata(m)?.isPlayArea) continue;
+    m.computeWorldMatrix(true);
+    const box = m.getBoundingInfo().boundingBox;
+    const { minimumWorld: lo, maximumWorld: hi } = box;
+    b = b
+      ? { minX: Math.min(b.minX, lo.x), maxX: Math.max(b.maxX, hi.x), minZ: Math.min(b.minZ, lo.z), maxZ: Math.max(b.maxZ, hi.z) }
+      : { minX: lo.x, maxX: hi.x, minZ: lo.z, maxZ: hi.z };
+  }
+  return b;
+}
@@ -0,0 +1,103 @@
+// Combo scoring: tricks chain across landings, grinds and manuals. Each linked
+// trick raises the multiplier; the combo timer only runs while rolling on the
+// ground, and the chain is banked (base points x multiplier) when it runs out.
+
+export const COMBO_WINDOW = 1.6; // seconds of plain rolling before a combo banks
+const MAX_MULTIPLIER = 10;
+
+export type ComboView = {
+  tricks: string[];
+  basePoints: number;
+  multiplier: number;
+  /** 1 right after a trick, 0 when the combo is about to bank. */
+  timeFrac: number;
+};
+
+export type ComboResult = {
+  tricks: string[];
+  basePoints: number;
+  multiplier: number;
+  total: number;
+};
+
+export type ComboTracker = {
+  /** Add a landed trick to the running chain (starts a combo if none). */
+  add: (name: string, points: number) => void;
+  /** Advance the timer; `linking` is true while airborne, grinding or manualing. */
+  update: (dt: number, linking: boolean) => void;
+  /** End the chain cleanly and pay it out. */
+  bank: () => void;
+  /** Lose the chain (bail, reset). */
+  drop: () => void;
+  isActive: () => boolean;
+  view: () => ComboView | null;
+};
+
+export type ComboOptions = {
+  onBanked?: (result: ComboResult) => void;
+  onDropped?: (result: ComboResult) => void;
+  onChanged?: (view: ComboView | null) => void;
+};
+
+export function createComboTracker(opts?: ComboOptions): ComboTracker {
+  let tricks: string[] = [];
+  let basePoints = 0;
+  let multiplier = 0;
+  let timeLeft = 0;
+
+  function result(): ComboResult {
+    return { tricks: tricks.slice(), basePoints, multiplier, total: basePoints * multiplier };
+  }
+
+  function view(): ComboView | null {
+    if (tricks.length === 0) return null;
+    return { tricks: tricks.slice(), basePoints, multiplier, timeFrac: Math.max(0, timeLeft / COMBO_WINDOW) };
+  }
+
+  function reset(): void {
+    tricks = [];
+    basePoints = 0;
+    multiplier = 0;
+    timeLeft = 0;
+    opts?.onChanged?.(null);
+  }
+
+  function add(name: string, points: number): void {
+    tricks.push(name);
+    basePoints += points;
+    multiplier = Math.min(MAX_MULTIPLIER, multiplier + 1);
+    timeLeft = COMBO_WINDOW;
+    opts?.onChanged?.(view());
+  }
+
+  function update(dt: number, linking: boolean): void {
+    if (tricks.length === 0) return;
+    if (linking) {
+      // Airborne / grinding / manualing keeps the window topped up
+      timeLeft = COMBO_WINDOW;
+    } else {
+      timeLeft -= dt;
+      if (timeLeft <= 0) {
+        bank();
+        return;
+      }
+    }
+    opts?.onChanged?.(view());
+  }
+
+  function bank(): void {
+    if (tricks.length === 0) return;
+    const r = result();
+    reset();
+    if (r.total > 0) opts?.onBanked?.(r);
+  }
+
+  function drop(): void {
+    if (tricks.length === 0) return;
+    const r = result();
+    reset();
+    opts?.onDropped?.(r);
+  }
+
+  return { add, update, bank, drop, isActive: () => tricks.length > 0, view };
+}
@@ -0,0 +1,141 @@
+import { ACCESSORIES, DECK_GRAPHICS, DECK_SHAPES, Loadout, PALETTE } from "./loadout";
+
+// Customization screen: a side panel over the live scene, which turns the
+// skater on a turntable behind it (see gameScene.ts). Every pick is applied
+// straight away; the loadout is saved when the panel closes.
+
+export type CustomizeMenu = {
+  show: (loadout: Loadout) => void;
+  hide: () => void;
+  isOpen: () => boolean;
+};
+
+type ColorSlot = "wheelColor" | "gripColor" | "shirtColor" | "pantsColor" | "shoeColor";
+
+const COLOR_SLOTS: { key: ColorSlot; label: string }[] = [
+  { key: "wheelColor", label: "Wheels" },
+  { key: "gripColor", label: "Griptape" },
+  { key: "shirtColor", label: "Shirt" },
+  { key: "pantsColor", label: "Pants" },
+  { key: "shoeColor", label: "Shoes" }
+];
+
+export function createCustomizeMenu(opts: { onChange: (loadout: Loadout) => void; onClose: (loadout: Loadout) => void }): CustomizeMenu {
+  let loadout: Loadout | null = null;
+
+  const panel = document.createElement("div");
+  panel.id = "customize-menu";
+  panel.style.position = "fixed";
+  panel.style.top = "0";
+  panel.style.right = "0";
+  panel.style.width = "340px";
+  panel.style.height = "100%";
+  panel.style.boxSizing = "border-box";
+  panel.style.padding = "24px 20px";
+  panel.style.overflowY = "auto";
+  panel.style.background = "rgba(0, 0, 0, 0.8)";
+  panel.style.color = "#fff";
+  panel.style.fontFamily = "system-ui, sans-serif";
+  panel.style.display = "none";
+  panel.style.flexDirection = "column";
+  panel.style.gap = "14px";
+  panel.style.zIndex = "1001";
+  document.body.appendChild(panel);
+
+  function section(title: string): HTMLDivElement {
+    const label = document.createElement("div");
+    label.textContent = title;
+    label.style.fontSize = "13px";
+    label.style.fontWeight = "700";
+    label.style.textTransform = "uppercase";
+    label.style.letterSpacing = "0.05em";
+    label.style.color = "#bbb";
+    panel.appendChild(label);
+    const row = document.createElement("div");
+    row.style.display = "flex";
+    row.style.flexWrap = "wrap";
+    row.style.gap = "6px";
+    panel.appendChild(row);
+    return row;
+  }
+
+  function choice(row: HTMLDivElement, text: string, selected: boolean, onPick: () => void, swatch?: string): void {
+    const b = document.createElement("button");
+    b.textContent = swatch ? "" : text;
+    b.title = text;
+    b.style.cursor = "pointer";
+    b.style.borderRadius = "6px";
+    b.style.border = selected ? "2px solid #fff" : "2px solid rgba(255,255,255,0.2)";
+    if (swatch) {
+      b.style.width = "26px";
+      b.style.height = "26px";
+      b.style.background = swatch;
+    } else {
+      b.style.padding = "5px 10px";
+      b.style.background = selected ? "rgba(255,255,255,0.9)" : "transparent";
+      b.style.color = selected ? "#222" : "#fff";
+      b.style.fontWeight = "600";
+    }
+    b.onclick = onPick;
+    row.appendChild(b);
+  }
+
+  function pick(change: Partial<Loadout>): void {
+    if (!loadout) return;
+    loadout = { ...loadout, ...change };
+    opts.onChange(loadout);
+    render();
+  }
+
+  function render(): void {
+    if (!loadout) return;
+    const l = loadout;
+    panel.innerHTML = "";
+    const title = document.createElement("h2");
+    title.textContent = "Customize";
+    title.style.margin = "0";
+    panel.appendChild(title);
+
+    const graphics = section("Deck graphic");
+    for (const g of DECK_GRAPHICS) {
+      choice(graphics, g.name, l.deckGraphic === g.id, () => pick({ deckGraphic: g.id }), `linear-gradient(90deg, ${g.base} 60%, ${g.stripe} 60%)`);
+    }
+    const shapes = section("Deck shape");
+    for (const s of DECK_SHAPES) choice(shapes, s.name, l.deckShape === s.id, () => pick({ deckShape: s.id }));
+    for (const slot of COLOR_SLOTS) {
+      const row = section(slot.label);
+      for (const c of PALETTE) choice(row, c, l[slot.key] === c, () => pick({ [slot.key]: c }), c);
+    }
+    const accessories = section("Accessory");
+    for (const a of ACCESSORIES) choice(accessories, a.name, l.accessory === a.id, () => pick({ accessory: a.id }));
+
+    const done = document.createElement("button");
+    done.textContent = "Done";
+    done.style.marginTop = "8px";
+    done.style.padding = "12px";
+    done.style.fontSize = "16px";
+    done.style.fontWeight = "700";
+    done.style.border = "none";
+    done.style.borderRadius = "8px";
+    done.style.background = "linear-gradient(135deg, #667eea 0%, #764ba2 100%)";
+    done.style.color = "#fff";
+    done.style.cursor = "pointer";
+    done.onclick = () => menu.hide();
+    panel.appendChild(done);
+  }
+
+  const menu: CustomizeMenu = {
+    show: (current: Loadout) => {
+      loadout = { ...current };
+      render();
+      panel.style.display = "flex";
+    },
+    hide: () => {
+      if (panel.style.display === "none") return;
+      panel.style.display = "none";
+      if (loadout) opts.onClose(loadout);
+    },
+    isOpen: () => panel.style.display !== "none"
+  };
+  return menu;
+}
@@ -0,0 +1,87 @@
+// Dialogue box: who's talking, what they say and the replies to pick from
+// (click, or press 1-9). Which lines come next is up to the quest system.
+
+export type DialoguePanel = {
+  show: (speaker: string, text: string, choices: string[], onPick: (index: number) => void) => void;
+  hide: () => void;
+  isOpen: () => boolean;
+};
+
+export function createDialoguePanel(): DialoguePanel {
+  const el = document.createElement("div");
+  el.id = "dialogue-panel";
+  el.style.position = "fixed";
+  el.style.left = "50%";
+  el.style.bottom = "24px";
+  el.style.transform = "translateX(-50%)";
+  el.style.width = "min(640px, calc(100% - 24px))";
+  el.style.boxSizing = "border-box";
+  el.style.padding = "14px 18px";
+  el.style.borderRadius = "10px";
+  el.style.background = "rgba(20, 20, 30, 0.92)";
+  el.style.boxShadow = "0 8px 30px rgba(0,0,0,0.25)";
+  el.style.color = "#f5f6f8";
+  el.style.fontFamily = "system-ui, sans-serif";
+  el.style.display = "none";
+  el.style.flexDirection = "column";
+  el.style.gap = "8px";
+  el.style.zIndex = "1001";
+  document.body.appendChild(el);
+
+  let pick: ((index: number) => void) | null = null;
+  let count = 0;
+
+  window.addEventListener("keydown", (e) => {
+    if (!pick) return;
+    const n = Number(e.key);
+    if (Number.isInteger(n) && n >= 1 && n <= count) {
+      e.preventDefault();
+      choose(n - 1);
+    }
+  });
+
+  function choose(index: number): void {
+    const cb = pick;
+    pick = null;
+    cb?.(index);
+  }
+
+  return {
+    show: (speaker, text, choices, onPick) => {
+      el.innerHTML = "";
+      pick = onPick;
+      count = choices.length;
+      const name = document.createElement("div");
+      name.textContent = speaker;
+      name.style.fontSize = "16px";
+      name.style.fontWeight = "700";
+      name.style.color = "#ffd166";
+      el.appendChild(name);
+      const line = document.createElement("div");
+      line.textContent = text;
+      line.style.fontSize = "15px";
+      line.style.lineHeight = "1.4";
+      el.appendChild(line);
+      choices.forEach((c, i) => {
+        const b = document.createElement("button");
+        b.textContent = `${i + 1}. ${c}`;
+        b.style.textAlign = "left";
+        b.style.padding = "7px 12px";
+        b.style.borderRadius = "6px";
+        b.style.border = "1px solid rgba(255,255,255,0.25)";
+        b.style.background = "rgba(255,255,255,0.06)";
+        b.style.color = "#fff";
+        b.style.fontSize = "14px";
+        b.style.cursor = "pointer";
+        b.onclick = () => choose(i);
+        el.appendChild(b);
+      });
+      el.style.display = "flex";
+    },
+    hide: () => {
+      pick = null;
+      el.style.display = "none";
+    },
+    isOpen: () => el.style.display !== "none"
+  };
+}
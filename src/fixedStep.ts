@@ -0,0 +1,36 @@
+// Fixed-timestep driver: the simulation always advances in FIXED_DT slices so
+// jump heights, spins and grinds don't depend on the display's frame rate.
+export const FIXED_DT = 1 / 60;
+
+// Cap on catch-up work after a long hitch (tab switch, breakpoint, ...)
+const MAX_STEPS_PER_FRAME = 8;
+
+export type FixedStepper = {
+  /** Feed real elapsed seconds; runs zero or more fixed steps and returns the interpolation alpha (0..1). */
+  advance: (frameSeconds: number) => number;
+  /** Drop any leftover accumulated time (e.g. after unpausing). */
+  reset: () => void;
+};
+
+export function createFixedStepper(step: (dt: number) => void, fixedDt: number = FIXED_DT): FixedStepper {
+  let accumulator = 0;
+
+  function advance(frameSeconds: number): number {
+    accumulator += Math.max(0, frameSeconds);
+    let steps = 0;
+    while (accumulator >= fixedDt && steps < MAX_STEPS_PER_FRAME) {
+      step(fixedDt);
+      accumulator -= fixedDt;
+      steps++;
+    }
+    // Too far behind: throw the backlog away instead of spiralling
+    if (steps >= MAX_STEPS_PER_FRAME) accumulator = Math.min(accumulator, fixedDt);
+    return accumulator / fixedDt;
+  }
+
+  function reset(): void {
+    accumulator = 0;
+  }
+
+  return { advance, reset };
+}
@@ -10,10 +10,32 @@ import "@babylonjs/core/Lights/Shadows/shadowGeneratorSceneComponent";
 import { FreeCamera } from "@babylonjs/core/Cameras/freeCamera";
 import { Mesh } from "@babylonjs/core/Meshes/mesh";
 import { buildPark } from "./park";
-import { SkaterController } from "./skater";
+import { SkaterController, Stance } from "./skater";
 import { createSkateCamera } from "./camera";
-import { initUI, showTrickPopup, setLocationLabel, setScore, setHighScore, setTimer, showStartMenu, hideStartMenu, showPauseMenu, hidePauseMenu, setOnStart, setOnResume, setOnPause } from "./ui";
-import { StorySpot, STORY_SPOTS } from "./stories";
+import { initUI, showTrickPopup, setLocationLabel, setScore, setCombo, setBalanceMeter, setHighScore, setTimer, showStartMenu, hideStartMenu, hidePauseMenu, setOnStart, setOnResume, setOnPause, setOnRebind, setOnStanceToggle, setOnJournal, setStanceLabel, setProfileChoices, setOnProfileSelect, setOnCustomize, setOnRetry, setOnFreeSkate, setOnMenu, setOnWatchReplay, setOnReplays, setOnOnline, setOnLeaderboards, showResults, hideResults, RunResults, setGoals, setModeChoices, setOnModeSelect, setOnRunLengthSelect, setScoreVisible, setHudVisible, setStoryCount, setQuestObjective, setTalkPrompt, setGhostInfo, setOnGhostExport, setOnGhostImport, toggleControls, togglePauseMenu } from "./ui";
+import { createInputManager } from "./input";
+import { createComboTracker } from "./combo";
+import { createStorySystem } from "./storySystem";
+import { showStoryPanel } from "./storyPanel";
+import { createJournal } from "./journal";
+import { createQuestSystem } from "./questSystem";
+import { createDialoguePanel } from "./dialoguePanel";
+import { PROFILES, applyProfile, getProfile, loadProfileId, profileStats, saveProfileId } from "./profiles";
+import { TuningPanel, createTuningPanel } from "./tuningPanel";
+import { loadLoadout, saveLoadout } from "./loadout";
+import { createCustomizeMenu } from "./customizeMenu";
+import { createGoalTracker } from "./goals";
+import { GhostPlayer, GhostRun, createGhostPlayer, createGhostRecorder, exportGhost, loadGhost, parseGhost, saveGhost } from "./ghost";
+import { Replay, createReplayViewer } from "./replay";
+import { FIXED_DT } from "./fixedStep";
+import { createSplitScreen } from "./splitScreen";
+import { createNetSession } from "./net";
+import { createNetPanel } from "./netPanel";
+import { addEntry, boardId, boardRank, loadInitials, parkBoards, saveInitials } from "./leaderboard";
+import { createInitialsEntry, createLeaderboardMenu } from "./leaderboardMenu";
+import { GAME_MODES, GameModeId, RUN_LENGTHS, RunConfig, bestScoreKey, getMode, loadRunConfig, saveRunConfig } from "./modes";
+
+const PARK_ID = "gullcrest";
 
 export function createEngine(canvas: HTMLCanvasElement): Engine {
   // Antialiasing helps the bright, cartoony look
@@ -21,10 +43,11 @@ export function createEngine(canvas: HTMLCanvasElement): Engine {
   return engine;
 }
 
-export function createGameScene(engine: Engine): {
+export function createGameScene(engine: Engine, opts?: { runConfig?: RunConfig }): {
   scene: Scene;
   skater: SkaterController;
   update: (dt: number) => void;
+  render: (frameDt: number, alpha: number) => void;
   isPaused: () => boolean;
   isStarted: () => boolean;
 } {
@@ -59,87 +82,483 @@ export function createGameScene(engine: Engine): {
   initUI();
   setLocationLabel("Gullcrest Block");
   let score = 0;
-  let best = Number(localStorage.getItem("skate-best") || "0") || 0;
+  // Mode and run length come from the start menu (last choice is remembered)
+  let config: RunConfig = opts?.runConfig ?? loadRunConfig();
+  let mode = getMode(config.mode);
+  const readBest = () => Number(localStorage.getItem(bestScoreKey(config)) || "0") || 0;
+  let best = readBest();
   setScore(score);
   setHighScore(best);
-  let timeLeft = 120; // 2 minutes
-  setTimer(timeLeft);
+  let timeLeft = config.runLength;
+  setTimer(mode.timed ? timeLeft : null);
+
+  // Input: keyboard + gamepad + touch, with rebindable keys
+  const input = createInputManager();
+  input.onAction("toggleControls", toggleControls);
+  // Escape backs out of a conversation, the journal or the replay viewer
+  // rather than pausing behind them (and does nothing while initials are
+  // being entered)
+  input.onAction("pause", () => {
+    if (quests.isTalking()) quests.stopTalking();
+    else if (journal.isOpen()) journal.hide();
+    else if (replayViewer.isOpen()) replayViewer.close();
+    else if (!initialsEntry.isOpen()) togglePauseMenu();
+  });
+  // The journal key opens it over the pause menu, pausing first mid-run
+  input.onAction("journal", () => {
+    if (journal.isOpen()) journal.hide();
+    else if (isStarted && !runOver && !replayViewer.isOpen() && !quests.isTalking()) {
+      if (!isPaused) togglePauseMenu();
+      journal.show();
+    }
+  });
+  // Talking is for solo skating: the run holds still while a conversation is open
+  input.onAction("talk", () => {
+    if (isStarted && !isPaused && !runOver && !split.isActive() && quests.talk()) {
+      input.clear();
+      setTalkPrompt(null);
+    }
+  });
+  setOnRebind((action, done) => input.beginRebind(action, done));
+
+  // Combos: tricks chain until the combo timer runs out, then the whole chain banks
+  const combo = createComboTracker({
+    onChanged: setCombo,
+    onBanked: (r) => {
+      score += r.total;
+      setScore(score);
+      goals.onScore(score);
+      if (!longestCombo || r.tricks.length > longestCombo.tricks || (r.tricks.length === longestCombo.tricks && r.total > longestCombo.total)) {
+        longestCombo = { tricks: r.tricks.length, total: r.total };
+      }
+      bestComboPoints = Math.max(bestComboPoints, r.total);
+      // Only scored modes count toward the best
+      if (mode.scored && score > best) {
+        best = score;
+        localStorage.setItem(bestScoreKey(config), String(best));
+        setHighScore(best);
+      }
+      const label = r.multiplier > 1 ? `${r.tricks.join(" + ")} (${r.basePoints} x ${r.multiplier})` : r.tricks.join(" + ");
+      showTrickPopup(`${label} +${r.total}`);
+    }
+  });
 
-  // Skater
+  // Park goals: progress comes from skater and run events, completion is saved
+  const goals = createGoalTracker(scene, PARK_ID, {
+    onCompleted: (g) => showTrickPopup(`Goal complete: ${g.label}`)
+  });
+
+  // Skater (natural stance is a saved preference, toggled from the pause menu)
+  const stance: Stance = localStorage.getItem("skate-stance") === "goofy" ? "goofy" : "regular";
   const skater = new SkaterController(scene, {
+    input,
+    stance,
+    loadout: loadLoadout(),
     onTrickLanded: (name: string, points: number) => {
-      if (points > 0) {
-        score += points;
-        setScore(score);
-        if (score > best) {
-          best = score;
-          localStorage.setItem("skate-best", String(best));
-          setHighScore(best);
-        }
-        showTrickPopup(`${name} +${points}`);
+      replayRecorder.trick(runTime, name, points);
+      net.sendTrick(name, points);
+      // Split-screen keeps its own per-player scores
+      if (split.isActive()) {
+        split.onTrick(0, name, points);
+        return;
       }
-    }
-  } as any);
+      if (points > 0) combo.add(name, points);
+      if (!bestTrick || points > bestTrick.points) bestTrick = { name, points };
+      goals.onTrick(name, points);
+      recorder.trick(runTime, name, points);
+    },
+    onGrindEnd: (_name, distance) => goals.onGrindEnd(distance),
+    onBail: () => {
+      if (split.isActive()) {
+        split.onBail(0);
+        return;
+      }
+      // Slamming loses whatever the running combo was worth
+      const lost = combo.view();
+      combo.drop();
+      showTrickPopup(lost ? `Bail! -${lost.basePoints * lost.multiplier}` : "Bail!");
+    },
+    onBonk: () => showTrickPopup("Bonk!")
+  });
+  const spawn = { position: skater.getPosition().clone(), yaw: skater.getYaw() };
   const camController = createSkateCamera(scene, skater, camera);
+  // Two-player modes split the screen; player 1 moves to the left keyboard half
+  const split = createSplitScreen({ scene, skater, camera: camController, soloInput: input });
+  input.onAction("recover", () => {
+    if (!split.isActive()) skater.recoverUpright();
+  });
+  setStanceLabel(stance);
+  setOnStanceToggle(() => {
+    const next: Stance = skater.getStance() === "goofy" ? "regular" : "goofy";
+    skater.setStance(next);
+    localStorage.setItem("skate-stance", next);
+    setStanceLabel(next);
+  });
+
+  // Physics profile, picked on the start menu (and live-tuned in dev builds)
+  let profile = getProfile(loadProfileId());
+  applyProfile(skater, profile);
+  const tuning: TuningPanel | null = import.meta.env.DEV ? createTuningPanel(skater, profile) : null;
+  const showProfiles = () =>
+    setProfileChoices(PROFILES.map((p) => ({ id: p.id, name: p.name, description: p.description, stats: profileStats(p) })), profile.id);
+  showProfiles();
+  setOnProfileSelect((id) => {
+    profile = getProfile(id);
+    saveProfileId(profile.id);
+    applyProfile(skater, profile);
+    tuning?.setBase(profile);
+    showProfiles();
+  });
+
+  // Customization: picks apply live while the camera circles the skater
+  let turntableAngle = 0;
+  const savedCamera = { position: camera.position.clone(), rotation: camera.rotation.clone() };
+  const customizeMenu = createCustomizeMenu({
+    onChange: (loadout) => skater.setLoadout(loadout),
+    onClose: (loadout) => {
+      saveLoadout(loadout);
+      camera.position.copyFrom(savedCamera.position);
+      camera.rotation.copyFrom(savedCamera.rotation);
+      showStartMenu();
+    }
+  });
+  setOnCustomize(() => {
+    hideStartMenu();
+    savedCamera.position.copyFrom(camera.position);
+    savedCamera.rotation.copyFrom(camera.rotation);
+    turntableAngle = skater.getYaw();
+    customizeMenu.show(skater.getLoadout());
+  });
+  scene.onBeforeRenderObservable.add(() => {
+    if (!customizeMenu.isOpen()) return;
+    turntableAngle += (engine.getDeltaTime() / 1000) * 0.6;
+    const target = skater.getPosition().add(new Vector3(0, -0.2, 0));
+    // Offset sideways so the skater sits left of the panel
+    camera.position.set(target.x + Math.sin(turntableAngle) * 3.2, target.y + 0.8, target.z - Math.cos(turntableAngle) * 3.2);
+    camera.setTarget(target.add(new Vector3(Math.cos(turntableAngle), 0, Math.sin(turntableAngle)).scale(0.6)));
+  });
+
+  // Story spots: markers in the world, discoveries saved across sessions
+  const stories = createStorySystem(scene);
+  setStoryCount(stories.discovered(), stories.total());
+  const journal = createJournal();
+  setOnJournal(journal.show);
+
+  // Story chains: characters around the park, dialogue and park events
+  const quests = createQuestSystem(scene, {
+    dialogue: createDialoguePanel(),
+    onNotice: showTrickPopup,
+    onTalkEnd: () => input.clear()
+  });
+  setQuestObjective(quests.objective());
 
-  // Story spots proximity check
-  const spots: StorySpot[] = STORY_SPOTS;
-  const collectRadius = 2.0;
-  const collectRadiusSq = collectRadius * collectRadius;
-  const collected = new Set<string>();
+  // Dusk for park events: blend the lights and sky from their daytime values
+  const daySky = scene.clearColor.clone();
+  const duskSky = new Color4(0.42, 0.3, 0.45, 1.0);
+  const dayHemi = hemi.intensity;
+  const daySun = { intensity: sun.intensity, diffuse: sun.diffuse.clone() };
+  const duskSunColor = new Color3(1.0, 0.5, 0.32);
+  function applyDusk(t: number): void {
+    Color4.LerpToRef(daySky, duskSky, t, scene.clearColor);
+    hemi.intensity = dayHemi * (1 - 0.45 * t);
+    sun.intensity = daySun.intensity * (1 - 0.55 * t);
+    Color3.LerpToRef(daySun.diffuse, duskSunColor, t, sun.diffuse);
+  }
+  applyDusk(quests.dusk());
 
   // Game state
   let isPaused = false;
   let isStarted = false;
 
-  // Setup start menu
+  // Run lifecycle: a run starts from the spawn with a clean slate, configured
+  // by its mode; when the clock runs out (or, in Story Mode, the last story is
+  // found) the results screen takes over
+  let runOver = false;
+  let bestAtStart = best;
+  let bestTrick: { name: string; points: number } | null = null;
+  let longestCombo: { tricks: number; total: number } | null = null;
+  let bestComboPoints = 0;
+
+  // Ghosts: every timed run is recorded; the best per run length is raced
+  let runTime = 0;
+  const recorder = createGhostRecorder();
+  let ghostRun: GhostRun | null = null;
+  let ghost: GhostPlayer | null = null;
+  const racesGhost = () => mode.timed && mode.players === 1;
+
+  // Replays: every run is recorded at the full step rate; the last one can be
+  // watched from the results screen, and saved replays loaded from the menu
+  const replayRecorder = createGhostRecorder(1 / FIXED_DT);
+  let lastReplay: Replay | null = null;
+  let lastResults: RunResults | null = null;
+  const replayViewer = createReplayViewer({
+    scene,
+    skater,
+    onClose: () => {
+      skater.teleport(spawn.position, spawn.yaw);
+      if (lastResults && runOver) showResults(lastResults);
+      else showStartMenu();
+    }
+  });
+
+  function startRun(next: RunConfig): void {
+    config = next;
+    mode = getMode(config.mode);
+    runOver = false;
+    isStarted = true;
+    isPaused = false;
+    combo.drop();
+    score = 0;
+    setScore(score);
+    timeLeft = config.runLength;
+    setTimer(mode.timed ? timeLeft : null);
+    setScoreVisible(mode.scored);
+    best = readBest();
+    setHighScore(best);
+    bestAtStart = best;
+    bestTrick = null;
+    longestCombo = null;
+    bestComboPoints = 0;
+    stories.beginRun();
+    goals.beginRun();
+    runTime = 0;
+    recorder.reset();
+    replayRecorder.reset();
+    ghost?.dispose();
+    ghostRun = racesGhost() ? loadGhost(PARK_ID, config.runLength) : null;
+    ghost = ghostRun ? createGhostPlayer(scene, ghostRun) : null;
+    skater.teleport(spawn.position, spawn.yaw);
+    if (mode.players === 2) split.start(mode, spawn);
+    else split.stop();
+    setHudVisible(mode.players === 1);
+    input.clear();
+  }
+
+  function endRun(title?: string): void {
+    // Whatever combo is still running pays out before the tally
+    combo.bank();
+    runOver = true;
+    input.clear();
+    setTalkPrompt(null);
+    ghost?.setVisible(false);
+    if (racesGhost() && (!ghostRun || score > ghostRun.score)) {
+      saveGhost(recorder.finish({ park: PARK_ID, runLength: config.runLength, score }));
+    }
+    lastReplay = { version: 1, kind: "replay", mode: config.mode, run: replayRecorder.finish({ park: PARK_ID, runLength: config.runLength, score }) };
+    lastResults = {
+      title,
+      score,
+      bestTrick,
+      longestCombo,
+      storiesFound: stories.foundThisRun(),
+      storiesTotal: stories.total(),
+      newBest: mode.scored && score > bestAtStart
+    };
+    if (split.isActive()) {
+      lastResults = { ...lastResults, ...split.results() };
+      split.stop();
+      setHudVisible(true);
+    }
+    // A score that makes the leaderboard asks for initials before the tally
+    const board = boardId(PARK_ID, config);
+    const rank = mode.scored ? boardRank(board, score) : null;
+    if (rank) {
+      pendingEntry = { board, entry: { score, date: new Date().toISOString(), bestCombo: bestComboPoints, duration: Math.round(runTime) } };
+      initialsEntry.show(rank, score, loadInitials());
+      return;
+    }
+    showResults(lastResults);
+  }
+
+  // Leaderboards: top 10 per park and mode, viewed from the start menu
+  let pendingEntry: { board: string; entry: { score: number; date: string; bestCombo: number; duration: number } } | null = null;
+  const initialsEntry = createInitialsEntry({
+    onSubmit: (initials) => {
+      saveInitials(initials);
+      if (pendingEntry && lastResults) {
+        lastResults = { ...lastResults, rank: addEntry(pendingEntry.board, { initials, ...pendingEntry.entry }) };
+        pendingEntry = null;
+        showResults(lastResults);
+      }
+    }
+  });
+  const leaderboardMenu = createLeaderboardMenu({ boards: parkBoards(PARK_ID), onClose: showStartMenu });
+  setOnLeaderboards(() => {
+    hideStartMenu();
+    leaderboardMenu.show(mode.scored ? boardId(PARK_ID, config) : undefined);
+  });
+
+  // Online: join a relay lobby and free skate with whoever is there
+  const net = createNetSession(scene, {
+    onChange: () => netPanel.refresh(),
+    onNotice: showTrickPopup
+  });
+  const netPanel = createNetPanel({
+    net,
+    onJoin: () => {
+      if (!isStarted) startRun({ ...config, mode: "free" });
+    },
+    onClose: () => {
+      if (!isStarted) showStartMenu();
+    }
+  });
+  setOnOnline(() => {
+    hideStartMenu();
+    netPanel.show();
+  });
+
+  // Setup start menu: mode picker (with run lengths for timed modes)
+  const showModes = () => {
+    setModeChoices(GAME_MODES, config.mode, mode.timed ? { options: RUN_LENGTHS, selected: config.runLength } : null);
+    const saved = racesGhost() ? loadGhost(PARK_ID, config.runLength) : null;
+    if (saved) setGhostInfo(`Ghost to race: ${saved.score} (${new Date(saved.date).toLocaleDateString()})`, true);
+    else setGhostInfo(racesGhost() ? "No ghost yet: finish a run to set one" : "Ghosts race in timed runs", false);
+  };
+  const pickConfig = (next: RunConfig) => {
+    config = next;
+    mode = getMode(config.mode);
+    saveRunConfig(config);
+    best = readBest();
+    setHighScore(best);
+    showModes();
+  };
+  showModes();
+  setOnModeSelect((id) => pickConfig({ ...config, mode: id as GameModeId }));
+  setOnRunLengthSelect((seconds) => pickConfig({ ...config, runLength: seconds }));
+  setOnGhostExport(() => {
+    const saved = loadGhost(PARK_ID, config.runLength);
+    if (saved) exportGhost(saved);
+  });
+  setOnGhostImport((json) => {
+    const run = parseGhost(json);
+    if (!run) {
+      setGhostInfo("That isn't a ghost file", false);
+      return;
+    }
+    if (run.park !== PARK_ID || !RUN_LENGTHS.includes(run.runLength)) {
+      setGhostInfo("That ghost is from another park", false);
+      return;
+    }
+    // Traded ghosts replace the stored one; switch to its run length to race it
+    saveGhost(run);
+    pickConfig({ mode: "classic", runLength: run.runLength });
+  });
   showStartMenu();
   setOnStart(() => {
-    isStarted = true;
     hideStartMenu();
+    startRun(config);
+  });
+  setOnRetry(() => startRun(config));
+  setOnFreeSkate(() => startRun({ ...config, mode: "free" }));
+  setOnWatchReplay(() => replayViewer.open(lastReplay));
+  setOnReplays(() => {
+    hideStartMenu();
+    replayViewer.open(null);
+  });
+  setOnMenu(() => {
+    isStarted = false;
+    quests.stopTalking();
+    setTalkPrompt(null);
+    net.disconnect();
+    netPanel.hide();
+    runOver = false;
+    ghost?.dispose();
+    ghost = null;
+    skater.teleport(spawn.position, spawn.yaw);
+    // Back to the mode that was picked on the menu (Free Skate from results is a one-off)
+    config = loadRunConfig();
+    mode = getMode(config.mode);
+    showModes();
+    showStartMenu();
   });
 
   // Setup pause menu
   setOnPause(() => {
     isPaused = true;
+    setGoals(goals.statuses());
+    input.clear();
   });
   setOnResume(() => {
     isPaused = false;
     hidePauseMenu();
   });
 
+  // One fixed simulation step (driven by the accumulator in main.ts)
   function update(dt: number): void {
-    // Don't update if not started or paused
-    if (!isStarted || isPaused) {
+    // Don't update if not started, paused, talking or the run is over
+    if (!isStarted || isPaused || runOver || quests.isTalking()) {
       return;
     }
 
     skater.update(dt);
-    camController.update(dt);
+    net.update(dt, skater);
+    if (split.isActive()) {
+      runTime += dt;
+      replayRecorder.sample(runTime, skater.getPose());
+      if (mode.timed) timeLeft -= dt;
+      if (split.update(dt, mode.timed ? timeLeft : null) || (mode.timed && timeLeft <= 0)) endRun();
+      return;
+    }
+    combo.update(dt, skater.isLinking());
+    goals.update(dt, skater);
+    runTime += dt;
+    const pose = skater.getPose();
+    if (mode.timed) recorder.sample(runTime, pose);
+    replayRecorder.sample(runTime, pose);
+    ghost?.update(runTime);
     // Timer
-    timeLeft -= dt;
-    setTimer(timeLeft);
-
-    // Story pickups
-    const pos = skater.getPosition();
-    for (const s of spots) {
-      if (collected.has(s.id)) continue;
-      const dx = pos.x - s.position.x;
-      const dy = pos.y - s.position.y;
-      const dz = pos.z - s.position.z;
-      const distSq = dx * dx + dy * dy + dz * dz;
-      if (distSq <= collectRadiusSq) {
-        collected.add(s.id);
-        // Minimal story popup via UI overlay
-        showTrickPopup(`${s.title}`);
+    if (mode.timed) {
+      timeLeft -= dt;
+      setTimer(timeLeft);
+      if (timeLeft <= 0) {
+        endRun();
+        return;
+      }
+    }
+
+    // Story pickups: the full story the first time, just the title on later visits
+    const pickup = stories.update(dt, skater.getPosition());
+    if (pickup) {
+      goals.onStory(pickup.spot.id);
+      if (pickup.isNew) {
+        showStoryPanel(pickup.spot.title, pickup.spot.text, 6000);
+        setStoryCount(stories.discovered(), stories.total());
+        quests.refresh();
+      } else {
+        showTrickPopup(pickup.spot.title);
       }
     }
+
+    // Story chains: reach-a-spot steps and who's close enough to talk to
+    const npc = quests.update(dt, skater.getPosition());
+    setTalkPrompt(npc ? `Talk to ${npc.name} (T)` : null);
+    setQuestObjective(quests.objective());
+
+    if (mode.storyFocus && stories.foundThisRun() === stories.total()) endRun("All Stories Found");
+  }
+
+  // Per rendered frame: blend the skater between fixed steps, then follow it
+  function render(frameDt: number, alpha: number): void {
+    // The replay viewer poses the skater and owns the camera while it's open
+    if (replayViewer.isOpen()) return;
+    skater.interpolate(alpha);
+    camController.update(frameDt);
+    split.render(frameDt, alpha);
+    quests.render(frameDt, skater.getPosition());
+    applyDusk(quests.dusk());
+    net.render();
+    netPanel.tick();
+    const manual = skater.getManual();
+    const grind = skater.getGrind();
+    if (grind) setBalanceMeter(grind.name, grind.balance);
+    else setBalanceMeter(manual ? (manual.kind === "nose" ? "Nose Manual" : "Manual") : null, manual?.balance);
   }
 
   return { 
     scene, 
     skater, 
     update,
+    render,
     isPaused: () => isPaused,
     isStarted: () => isStarted
   };
@@ -0,0 +1,249 @@
+import { Scene } from "@babylonjs/core/scene";
+import { Mesh } from "@babylonjs/core/Meshes/mesh";
+import { MeshBuilder } from "@babylonjs/core/Meshes/meshBuilder";
+import { StandardMaterial } from "@babylonjs/core/Materials/standardMaterial";
+import { DynamicTexture } from "@babylonjs/core/Materials/Textures/dynamicTexture";
+import { Color3 } from "@babylonjs/core/Maths/math.color";
+import { Vector3 } from "@babylonjs/core/Maths/math.vector";
+import { SkaterController, SkaterPose } from "./skater";
+import { GRINDS, GrindKind } from "./grinds";
+
+// Ghost runs: the skater's pose is sampled through a run (keyed by run time,
+// so playback lines up with the clock) along with the tricks landed. The best
+// timed run per park and run length is kept and raced as a see-through copy
+// of the fallback rig. Runs export/import as JSON files.
+
+export type GhostTrick = { t: number; name: string; points: number };
+
+export type GhostRun = {
+  version: 1;
+  park: string;
+  runLength: number;
+  score: number;
+  date: string;   // ISO
+  rate: number;   // samples per second
+  // Packed poses: x, y, z, rotX, rotY, rotZ, boardRotX, boardRotY, boardRotZ, boardY, crouch,
+  // then state (see STATES), grind kind (index into GRINDS) and balance, then while
+  // bailed each rig part's offset and rotation (6 numbers a part). Frames from before
+  // the state was recorded stop after crouch.
+  frames: number[][];
+  tricks: GhostTrick[];
+};
+
+const SAMPLE_RATE = 20;
+const GHOST_ALPHA = 0.35;
+const TRICK_LABEL_TIME = 1.5;
+
+const POSE_LENGTH = 11;
+const STATE_LENGTH = 14;
+const RAGDOLL_PARTS = 8;
+const STATES = ["riding", "grinding", "manual", "nose"] as const;
+const GRIND_KINDS = Object.keys(GRINDS) as GrindKind[];
+
+const round = (v: number) => Math.round(v * 1000) / 1000;
+
+/** A pose as the numbers stored per frame (also the net wire format). */
+export function packPose(p: SkaterPose): number[] {
+  const state = p.grind ? 1 : p.manual ? STATES.indexOf(p.manual.kind) : 0;
+  const packed = [
+    p.position.x, p.position.y, p.position.z, p.rotation.x, p.rotation.y, p.rotation.z, p.boardRotation.x, p.boardRotation.y, p.boardRotation.z, p.boardY, p.crouch,
+    state, p.grind ? GRIND_KINDS.indexOf(p.grind.kind) : 0, p.grind?.balance ?? p.manual?.balance ?? 0
+  ];
+  for (const [offset, rotation] of p.ragdoll ?? []) packed.push(offset.x, offset.y, offset.z, rotation.x, rotation.y, rotation.z);
+  return packed.map(round);
+}
+
+function validFrame(f: unknown): boolean {
+  if (!Array.isArray(f) || !f.every((v) => Number.isFinite(v))) return false;
+  if (f.length === POSE_LENGTH) return true;
+  const state = f[STATE_LENGTH - 3];
+  return Number.isInteger(state) && state >= 0 && state < STATES.length && f[STATE_LENGTH - 2] in GRIND_KINDS &&
+    (f.length === STATE_LENGTH || f.length === STATE_LENGTH + RAGDOLL_PARTS * 6);
+}
+
+// Angles blend the short way round so spins don't unwind between samples
+function lerpAngle(a: number, b: number, f: number): number {
+  return a + Math.atan2(Math.sin(b - a), Math.cos(b - a)) * f;
+}
+
+/** Blend two packed poses (f = 0..1 from a to b). */
+export function unpackPose(a: number[], b: number[], f: number): SkaterPose {
+  const lerp = (i: number) => a[i] + (b[i] - a[i]) * f;
+  const ang = (i: number) => lerpAngle(a[i], b[i], f);
+  // States don't blend: take the nearer sample's, and blend the rest only when both agree
+  const near = f < 0.5 ? a : b;
+  const state = near.length > POSE_LENGTH ? STATES[near[STATE_LENGTH - 3]] : "riding";
+  const sameState = a.length === b.length && a[STATE_LENGTH - 3] === b[STATE_LENGTH - 3];
+  const value = (i: number) => (sameState ? lerp(i) : near[i]);
+  const angle = (i: number) => (sameState ? ang(i) : near[i]);
+  const balance = value(STATE_LENGTH - 1);
+  let ragdoll: Vector3[][] | null = null;
+  if (near.length > STATE_LENGTH) {
+    ragdoll = [];
+    for (let i = STATE_LENGTH; i < near.length; i += 6) {
+      ragdoll.push([new Vector3(value(i), value(i + 1), value(i + 2)), new Vector3(angle(i + 3), angle(i + 4), angle(i + 5))]);
+    }
+  }
+  return {
+    position: new Vector3(lerp(0), lerp(1), lerp(2)),
+    rotation: new Vector3(ang(3), ang(4), ang(5)),
+    boardRotation: new Vector3(ang(6), ang(7), ang(8)),
+    boardY: lerp(9),
+    crouch: lerp(10),
+    grind: state === "grinding" ? { kind: GRIND_KINDS[near[STATE_LENGTH - 2]], balance } : null,
+    manual: state === "manual" || state === "nose" ? { kind: state, balance } : null,
+    ragdoll
+  };
+}
+
+export type GhostRecorder = {
+  reset: () => void;
+  /** Call once per fixed step with the run time and the skater's pose. */
+  sample: (t: number, pose: SkaterPose) => void;
+  trick: (t: number, name: string, points: number) => void;
+  finish: (meta: { park: string; runLength: number; score: number }) => GhostRun;
+};
+
+/** Pose at run time t, blended between samples; null outside the recording. */
+export function poseAt(run: GhostRun, t: number): SkaterPose | null {
+  const i = Math.floor(t * run.rate);
+  if (run.frames.length < 2 || i < 0 || i >= run.frames.length - 1) return null;
+  return unpackPose(run.frames[i], run.frames[i + 1], t * run.rate - i);
+}
+
+/** Length of the recording in seconds. */
+export function runDuration(run: GhostRun): number {
+  return Math.max(0, (run.frames.length - 1) / run.rate);
+}
+
+/** Records at `rate` samples per second (ghosts use a light 20; replays record every step). */
+export function createGhostRecorder(rate: number = SAMPLE_RATE): GhostRecorder {
+  let frames: number[][] = [];
+  let tricks: GhostTrick[] = [];
+  let prev: { t: number; packed: number[] } | null = null;
+  return {
+    reset: () => {
+      frames = [];
+      tricks = [];
+      prev = null;
+    },
+    sample: (t, pose) => {
+      // Fixed steps don't land on sample times: blend the two steps either
+      // side of each sample so frame k is exactly the pose at k / rate
+      const packed = packPose(pose);
+      while (frames.length / rate <= t) {
+        const at = frames.length / rate;
+        if (!prev || t - prev.t < 1e-9) frames.push(packed);
+        else frames.push(packPose(unpackPose(prev.packed, packed, Math.max(0, (at - prev.t) / (t - prev.t)))));
+      }
+      prev = { t, packed };
+    },
+    trick: (t, name, points) => {
+      tricks.push({ t: round(t), name, points });
+    },
+    finish: (meta) => ({ version: 1, ...meta, date: new Date().toISOString(), rate, frames, tricks })
+  };
+}
+
+export type GhostPlayer = {
+  /** Pose the ghost at run time t (hidden past the end of the recording). */
+  update: (t: number) => void;
+  setVisible: (visible: boolean) => void;
+  dispose: () => void;
+};
+
+export function createGhostPlayer(scene: Scene, run: GhostRun): GhostPlayer {
+  // The fallback rig, posed from the recording and never simulated
+  const rig = new SkaterController(scene, { headless: true });
+  rig.makeGhost(GHOST_ALPHA);
+  const root = rig.getRoot();
+  root.setEnabled(false);
+
+  // Trick names float over the ghost for a moment
+  const label = MeshBuilder.CreatePlane("ghostLabel", { width: 2.4, height: 0.4 }, scene);
+  label.billboardMode = Mesh.BILLBOARDMODE_ALL;
+  label.isPickable = false;
+  label.parent = root;
+  label.position.y = 1.2;
+  const tex = new DynamicTexture("ghostLabelTex", { width: 512, height: 96 }, scene, false);
+  tex.hasAlpha = true;
+  const mat = new StandardMaterial("ghostLabelMat", scene);
+  mat.diffuseTexture = tex;
+  mat.emissiveColor = new Color3(0.7, 0.85, 1);
+  mat.disableLighting = true;
+  mat.useAlphaFromDiffuseTexture = true;
+  mat.backFaceCulling = false;
+  label.material = mat;
+  label.setEnabled(false);
+  let shownTrick = -1;
+  let visible = true;
+
+  return {
+    update: (t) => {
+      const pose = visible ? poseAt(run, t) : null;
+      root.setEnabled(pose !== null);
+      if (!pose) return;
+      rig.setPose(pose);
+      // Latest trick landed at or before t, while it's still fresh
+      let latest = -1;
+      for (let k = 0; k < run.tricks.length && run.tricks[k].t <= t; k++) latest = k;
+      const fresh = latest >= 0 && t - run.tricks[latest].t < TRICK_LABEL_TIME;
+      label.setEnabled(fresh);
+      if (fresh && latest !== shownTrick) {
+        shownTrick = latest;
+        tex.clear();
+        tex.drawText(run.tricks[latest].name, null, 68, "bold 52px sans-serif", "#cfe3ff", "transparent", true);
+      }
+    },
+    setVisible: (v) => {
+      visible = v;
+      if (!v) root.setEnabled(false);
+    },
+    dispose: () => {
+      label.dispose(false, true);
+      root.dispose(false, true);
+    }
+  };
+}
+
+function storageKey(park: string, runLength: number): string {
+  return `skate-ghost-${park}-${runLength}`;
+}
+
+/** Parse a ghost file; null if it isn't one. */
+export function parseGhost(json: string): GhostRun | null {
+  try {
+    const data = JSON.parse(json) as GhostRun;
+    if (data?.version !== 1 || typeof data.park !== "string" || typeof data.runLength !== "number") return null;
+    if (!Array.isArray(data.frames) || !Array.isArray(data.tricks) || typeof data.rate !== "number") return null;
+    if (!data.frames.every(validFrame)) return null;
+    return data;
+  } catch {
+    return null;
+  }
+}
+
+export function loadGhost(park: string, runLength: number): GhostRun | null {
+  const raw = localStorage.getItem(storageKey(park, runLength));
+  return raw ? parseGhost(raw) : null;
+}
+
+export function saveGhost(run: GhostRun): void {
+  try {
+    localStorage.setItem(storageKey(run.park, run.runLength), JSON.stringify(run));
+  } catch {
+    // storage full: keep the previous ghost
+  }
+}
+
+/** Download the run as a .json file. */
+export function exportGhost(run: GhostRun): void {
+  const blob = new Blob([JSON.stringify(run)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `ghost-${run.park}-${run.runLength}s-${run.score}.json`;
+  a.click();
+  // Revoking straight after click() can cancel the download in some browsers
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
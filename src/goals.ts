@@ -0,0 +1,215 @@
+import { Scene } from "@babylonjs/core/scene";
+import { Mesh } from "@babylonjs/core/Meshes/mesh";
+import { MeshBuilder } from "@babylonjs/core/Meshes/meshBuilder";
+import { StandardMaterial } from "@babylonjs/core/Materials/standardMaterial";
+import { DynamicTexture } from "@babylonjs/core/Materials/Textures/dynamicTexture";
+import { Color3 } from "@babylonjs/core/Maths/math.color";
+import { Vector3 } from "@babylonjs/core/Maths/math.vector";
+import { SkaterController } from "./skater";
+import { STORY_SPOTS } from "./stories";
+import { isGoalCompleted, markGoalCompleted } from "./saveSystem";
+
+// Park goals: a per-park list of objectives worked on during a run. Progress
+// is per run (fed from skater and run events); completing a goal is saved
+// and stays completed.
+
+export type GoalDef =
+  | { id: string; label: string; kind: "score"; target: number }
+  | { id: string; label: string; kind: "letters"; letters: { char: string; position: Vector3 }[] }
+  | { id: string; label: string; kind: "grind"; distance: number }
+  // Land `trick` (name match ignores Switch/Fakie prefixes) after air over the named mesh
+  | { id: string; label: string; kind: "gap"; trick: string; over: string }
+  | { id: string; label: string; kind: "stories"; spots: string[] };
+
+export type GoalStatus = {
+  id: string;
+  label: string;
+  progress: string;
+  done: boolean;
+};
+
+export const PARK_GOALS: Record<string, GoalDef[]> = {
+  gullcrest: [
+    { id: "score-5k", label: "Score 5,000 points", kind: "score", target: 5000 },
+    { id: "score-20k", label: "Score 20,000 points", kind: "score", target: 20000 },
+    {
+      id: "skate",
+      label: "Collect S-K-A-T-E",
+      kind: "letters",
+      letters: [
+        { char: "S", position: new Vector3(15, 2.0, 30) },
+        { char: "K", position: new Vector3(0, 3.8, -6.5) },     // off the top of the pyramid
+        { char: "A", position: new Vector3(-10, 2.2, -26.4) },  // over the mini ramp coping
+        { char: "T", position: new Vector3(0, 2.2, -35) },      // above the middle rail
+        { char: "E", position: new Vector3(5, 3.8, -59) }       // air out of the north vert wall
+      ]
+    },
+    { id: "grind-50", label: "Grind 50 m in one run", kind: "grind", distance: 50 },
+    { id: "pyramid-kickflip", label: "Kickflip over the pyramid", kind: "gap", trick: "Kickflip", over: "pyramidRamp" },
+    { id: "stories", label: "Find every story", kind: "stories", spots: STORY_SPOTS.map((s) => s.id) }
+  ]
+};
+
+const LETTER_RADIUS = 1.2;
+
+export type GoalTracker = {
+  /** Reset per-run progress (letters reappear). */
+  beginRun: () => void;
+  onTrick: (name: string, points: number) => void;
+  onGrindEnd: (distance: number) => void;
+  onScore: (score: number) => void;
+  onStory: (id: string) => void;
+  /** Per step: letter pickups and gap tracking. */
+  update: (dt: number, skater: SkaterController) => void;
+  statuses: () => GoalStatus[];
+  dispose: () => void;
+};
+
+function stripStance(name: string): string {
+  return name.replace(/^(Switch|Fakie) /, "");
+}
+
+function createLetterMesh(char: string, position: Vector3, scene: Scene): Mesh {
+  const plane = MeshBuilder.CreatePlane(`letter${char}`, { size: 1.0 }, scene);
+  plane.position.copyFrom(position);
+  plane.billboardMode = Mesh.BILLBOARDMODE_Y;
+  const tex = new DynamicTexture(`letter${char}Tex`, { width: 128, height: 128 }, scene, false);
+  tex.hasAlpha = true;
+  tex.drawText(char, null, 104, "bold 110px sans-serif", "#ffd166", "transparent", true);
+  const mat = new StandardMaterial(`letter${char}Mat`, scene);
+  mat.diffuseTexture = tex;
+  mat.emissiveColor = new Color3(1, 0.8, 0.4);
+  mat.backFaceCulling = false;
+  mat.disableLighting = true;
+  mat.useAlphaFromDiffuseTexture = true;
+  plane.material = mat;
+  plane.isPickable = false;
+  return plane;
+}
+
+export function createGoalTracker(scene: Scene, parkId: string, opts?: { onCompleted?: (goal: GoalDef) => void }): GoalTracker {
+  const goals = PARK_GOALS[parkId] ?? [];
+  let score = 0;
+  let grindDistance = 0;
+  const letters = new Map<string, Set<string>>(); // goal id -> chars collected
+  const stories = new Set<string>();
+  const gapsLanded = new Set<string>();
+  const overGap = new Set<string>(); // gap goals whose mesh the current air has passed over
+  const footprints = new Map<string, { minX: number; maxX: number; minZ: number; maxZ: number } | null>();
+  const letterMeshes: { goal: string; char: string; mesh: Mesh }[] = [];
+  let time = 0;
+
+  for (const g of goals) {
+    if (g.kind !== "letters") continue;
+    for (const l of g.letters) letterMeshes.push({ goal: g.id, char: l.char, mesh: createLetterMesh(l.char, l.position, scene) });
+  }
+
+  function isDone(g: GoalDef): boolean {
+    return isGoalCompleted(parkId, g.id);
+  }
+
+  function complete(g: GoalDef): void {
+    if (isDone(g)) return;
+    markGoalCompleted(parkId, g.id);
+    opts?.onCompleted?.(g);
+  }
+
+  function footprint(meshName: string) {
+    if (!footprints.has(meshName)) {
+      const mesh = scene.getMeshByName(meshName);
+      if (mesh) {
+        mesh.computeWorldMatrix(true);
+        const { minimumWorld: lo, maximumWorld: hi } = mesh.getBoundingInfo().boundingBox;
+        footprints.set(meshName, { minX: lo.x, maxX: hi.x, minZ: lo.z, maxZ: hi.z });
+      } else {
+        footprints.set(meshName, null);
+      }
+    }
+    return footprints.get(meshName)!;
+  }
+
+  return {
+    beginRun: () => {
+      score = 0;
+      grindDistance = 0;
+      letters.clear();
+      stories.clear();
+      gapsLanded.clear();
+      overGap.clear();
+      for (const l of letterMeshes) l.mesh.setEnabled(true);
+    },
+    onTrick: (name) => {
+      for (const g of goals) {
+        if (g.kind !== "gap" || !overGap.has(g.id) || stripStance(name) !== g.trick) continue;
+        gapsLanded.add(g.id);
+        complete(g);
+      }
+    },
+    onGrindEnd: (distance) => {
+      grindDistance += distance;
+      for (const g of goals) if (g.kind === "grind" && grindDistance >= g.distance) complete(g);
+    },
+    onScore: (s) => {
+      score = s;
+      for (const g of goals) if (g.kind === "score" && score >= g.target) complete(g);
+    },
+    onStory: (id) => {
+      stories.add(id);
+      for (const g of goals) if (g.kind === "stories" && g.spots.every((s) => stories.has(s))) complete(g);
+    },
+    update: (dt, skater) => {
+      time += dt;
+      const pos = skater.getPosition();
+      for (const l of letterMeshes) {
+        if (!l.mesh.isEnabled()) continue;
+        // Bob in place so they read as pickups
+        l.mesh.position.y += Math.sin(time * 2.5) * 0.15 * dt;
+        if (Vector3.Distance(pos, l.mesh.position) > LETTER_RADIUS) continue;
+        l.mesh.setEnabled(false);
+        const got = letters.get(l.goal) ?? new Set<string>();
+        got.add(l.char);
+        letters.set(l.goal, got);
+        const g = goals.find((x) => x.id === l.goal);
+        if (g?.kind === "letters" && g.letters.every((x) => got.has(x.char))) complete(g);
+      }
+      // Gaps: remember which meshes this air has passed over until the next landing
+      if (skater.isGrounded()) {
+        overGap.clear();
+        return;
+      }
+      for (const g of goals) {
+        if (g.kind !== "gap") continue;
+        const f = footprint(g.over);
+        if (f && pos.x >= f.minX && pos.x <= f.maxX && pos.z >= f.minZ && pos.z <= f.maxZ) overGap.add(g.id);
+      }
+    },
+    statuses: () =>
+      goals.map((g) => {
+        let progress = "";
+        switch (g.kind) {
+          case "score":
+            progress = `${Math.min(score, g.target)}/${g.target}`;
+            break;
+          case "letters": {
+            const got = letters.get(g.id);
+            progress = g.letters.map((l) => (got?.has(l.char) ? l.char : "_")).join(" ");
+            break;
+          }
+          case "grind":
+            progress = `${Math.min(grindDistance, g.distance).toFixed(0)}/${g.distance} m`;
+            break;
+          case "gap":
+            progress = gapsLanded.has(g.id) ? "Landed" : "—";
+            break;
+          case "stories":
+            progress = `${g.spots.filter((s) => stories.has(s)).length}/${g.spots.length}`;
+            break;
+        }
+        return { id: g.id, label: g.label, progress, done: isDone(g) };
+      }),
+    dispose: () => {
+      for (const l of letterMeshes) l.mesh.dispose(false, true);
+      letterMeshes.length = 0;
+    }
+  };
+}
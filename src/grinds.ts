@@ -0,0 +1,68 @@
+import { InputState } from "./skater";
+
+// Grind types. Which one you lock into depends on how square you hit the rail
+// and which trick key is held at capture; each has its own board pose, balance
+// feel and scoring (points grow with both time and distance on the rail).
+
+export type GrindKind = "fiftyFifty" | "fiveO" | "noseGrind" | "boardslide" | "lipslide" | "crooked";
+
+export type GrindDefinition = {
+  kind: GrindKind;
+  name: string;
+  pointsPerSecond: number;
+  pointsPerMeter: number;
+  // How fast the balance drifts (1 = 50-50 baseline)
+  touchiness: number;
+  // Board pose relative to the rider while locked on (radians / meters)
+  board: { yaw: number; pitch: number; roll: number; lift: number };
+  // Extra torso twist for sideways slides
+  torsoYaw: number;
+};
+
+export const GRINDS: Record<GrindKind, GrindDefinition> = {
+  fiftyFifty: {
+    kind: "fiftyFifty", name: "50-50", pointsPerSecond: 60, pointsPerMeter: 10, touchiness: 0.8,
+    board: { yaw: 0, pitch: 0, roll: 0, lift: 0 }, torsoYaw: 0
+  },
+  fiveO: {
+    kind: "fiveO", name: "5-0", pointsPerSecond: 80, pointsPerMeter: 12, touchiness: 1.1,
+    board: { yaw: 0, pitch: 0.3, roll: 0, lift: 0.05 }, torsoYaw: 0
+  },
+  noseGrind: {
+    kind: "noseGrind", name: "Nosegrind", pointsPerSecond: 90, pointsPerMeter: 12, touchiness: 1.2,
+    board: { yaw: 0, pitch: -0.3, roll: 0, lift: 0.05 }, torsoYaw: 0
+  },
+  crooked: {
+    kind: "crooked", name: "Crooked", pointsPerSecond: 100, pointsPerMeter: 14, touchiness: 1.3,
+    board: { yaw: 0.35, pitch: -0.25, roll: 0.15, lift: 0.05 }, torsoYaw: 0.3
+  },
+  boardslide: {
+    kind: "boardslide", name: "Boardslide", pointsPerSecond: 70, pointsPerMeter: 10, touchiness: 1.0,
+    board: { yaw: Math.PI / 2, pitch: 0, roll: 0, lift: -0.04 }, torsoYaw: 1.1
+  },
+  lipslide: {
+    kind: "lipslide", name: "Lipslide", pointsPerSecond: 90, pointsPerMeter: 12, touchiness: 1.2,
+    board: { yaw: -Math.PI / 2, pitch: 0, roll: 0, lift: -0.04 }, torsoYaw: -1.1
+  }
+};
+
+// Approach angles (between travel direction and rail) above this become slides
+const SLIDE_ANGLE = Math.PI / 7;
+
+/** Pick the grind from approach angle (0 = parallel, PI/2 = square) and held keys.
+ *  Only the manual keys pick a variant: they do nothing in the air, so holding
+ *  one into a rail can't also start a spin, grab or flip. */
+export function chooseGrind(approachAngle: number, input: InputState): GrindKind {
+  if (approachAngle >= SLIDE_ANGLE) {
+    // Square-on: boardslide by default, lipslide on the tail key (tail over the rail)
+    return input.manual ? "lipslide" : "boardslide";
+  }
+  if (input.manual) return "fiveO";
+  // Nose key: nosegrind, or a crooked with the nose angled off to one side
+  if (input.noseManual) return input.left || input.right ? "crooked" : "noseGrind";
+  return "fiftyFifty";
+}
+
+export function grindPoints(def: GrindDefinition, seconds: number, meters: number): number {
+  return Math.round(def.pointsPerSecond * seconds + def.pointsPerMeter * meters);
+}
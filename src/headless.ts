@@ -0,0 +1,121 @@
+import { NullEngine } from "@babylonjs/core/Engines/nullEngine";
+import { Scene } from "@babylonjs/core/scene";
+import { Vector3 } from "@babylonjs/core/Maths/math.vector";
+import { buildPark } from "./park";
+import { SkaterController, InputState, BailReason, createEmptyInput } from "./skater";
+import { FIXED_DT } from "./fixedStep";
+import { createComboTracker, ComboResult } from "./combo";
+
+// Headless harness: builds the park under Babylon's NullEngine and drives a
+// SkaterController from scripted input frames at the fixed step rate. Runs are
+// fully deterministic, so a recorded line can assert exact landing spots and scores.
+
+/** Input held for `steps` fixed steps (default 1). Missing keys are released. */
+export type ScriptedFrame = Partial<InputState> & { steps?: number };
+
+export type LandedTrick = { name: string; points: number; step: number };
+export type BailEvent = { reason: BailReason; step: number };
+
+export type HeadlessRunResult = {
+  position: Vector3;
+  velocity: Vector3;
+  grounded: boolean;
+  /** Total of banked combos (an unfinished chain is in `pendingCombo`). */
+  score: number;
+  tricks: LandedTrick[];
+  combos: ComboResult[];
+  pendingCombo: ComboResult | null;
+  bails: BailEvent[];
+  steps: number;
+};
+
+export type HeadlessOptions = {
+  spawn?: Vector3;
+  yaw?: number;
+  dt?: number;
+};
+
+export type HeadlessSession = {
+  engine: NullEngine;
+  scene: Scene;
+  skater: SkaterController;
+  tricks: LandedTrick[];
+  combos: ComboResult[];
+  /** Run one fixed step with the given input. */
+  step: (input?: Partial<InputState>) => void;
+  /** Run a script of frames and report where the skater ended up. */
+  run: (frames: ScriptedFrame[]) => HeadlessRunResult;
+  dispose: () => void;
+};
+
+export function createHeadlessSession(opts?: HeadlessOptions): HeadlessSession {
+  const engine = new NullEngine();
+  const scene = new Scene(engine);
+  buildPark(scene);
+
+  const dt = opts?.dt ?? FIXED_DT;
+  const tricks: LandedTrick[] = [];
+  const combos: ComboResult[] = [];
+  const bails: BailEvent[] = [];
+  let steps = 0;
+  const combo = createComboTracker({ onBanked: (r) => combos.push(r) });
+  const skater = new SkaterController(scene, {
+    headless: true,
+    onTrickLanded: (name: string, points: number) => {
+      tricks.push({ name, points, step: steps });
+      if (points > 0) combo.add(name, points);
+    },
+    onBail: (reason: BailReason) => {
+      bails.push({ reason, step: steps });
+      combo.drop();
+    }
+  });
+  skater.teleport(opts?.spawn ?? new Vector3(0, 1.0, 0), opts?.yaw ?? 0);
+
+  function step(input?: Partial<InputState>): void {
+    skater.setInput({ ...createEmptyInput(), ...input });
+    skater.update(dt);
+    combo.update(dt, skater.isLinking());
+    steps++;
+  }
+
+  function run(frames: ScriptedFrame[]): HeadlessRunResult {
+    for (const frame of frames) {
+      const { steps: count = 1, ...input } = frame;
+      for (let i = 0; i < count; i++) step(input);
+    }
+    return {
+      position: skater.getPosition().clone(),
+      velocity: skater.getVelocity().clone(),
+      grounded: skater.isGrounded(),
+      score: combos.reduce((sum, c) => sum + c.total, 0),
+      tricks: tricks.slice(),
+      combos: combos.slice(),
+      pendingCombo: pendingCombo(combo.view()),
+      bails: bails.slice(),
+      steps
+    };
+  }
+
+  function dispose(): void {
+    scene.dispose();
+    engine.dispose();
+  }
+
+  return { engine, scene, skater, tricks, combos, step, run, dispose };
+}
+
+function pendingCombo(view: { tricks: string[]; basePoints: number; multiplier: number } | null): ComboResult | null {
+  if (!view) return null;
+  return { tricks: view.tricks, basePoints: view.basePoints, multiplier: view.multiplier, total: view.basePoints * view.multiplier };
+}
+
+/** Convenience: run a scripted line in a fresh park and dispose of it. */
+export function runScriptedLine(frames: ScriptedFrame[], opts?: HeadlessOptions): HeadlessRunResult {
+  const session = createHeadlessSession(opts);
+  try {
+    return session.run(frames);
+  } finally {
+    session.dispose();
+  }
+}
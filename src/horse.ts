@@ -0,0 +1,112 @@
+// H.O.R.S.E.: trick-for-trick between two players. The setter has a turn to
+// land a trick; the other player then gets one go at the same trick (first
+// trick landed counts, a bail or running out of time is a miss). A miss earns
+// a letter; the setter keeps setting until they fail to land one, then the
+// roles swap. Spell the word and you lose.
+
+export const HORSE_WORD = "HORSE";
+const SET_TIME = 20;   // seconds to land a trick to set
+const MATCH_TIME = 25; // seconds to match it
+
+export type HorsePhase = "set" | "match" | "over";
+
+export type HorseView = {
+  phase: HorsePhase;
+  /** Player whose turn it is (setting or matching). */
+  active: 0 | 1;
+  trick: string | null;
+  timeLeft: number;
+  letters: [number, number];
+  winner: 0 | 1 | null;
+};
+
+export type HorseEvent =
+  | { kind: "set"; player: 0 | 1; trick: string }
+  | { kind: "matched"; player: 0 | 1; trick: string }
+  | { kind: "letter"; player: 0 | 1; letters: string }
+  | { kind: "pass"; player: 0 | 1 }
+  | { kind: "won"; player: 0 | 1 };
+
+export type HorseGame = {
+  reset: () => void;
+  onTrick: (player: 0 | 1, name: string) => void;
+  onBail: (player: 0 | 1) => void;
+  update: (dt: number) => void;
+  view: () => HorseView;
+};
+
+/** Letters so far, e.g. 2 -> "HO". */
+export function horseLetters(count: number): string {
+  return HORSE_WORD.slice(0, count);
+}
+
+export function createHorseGame(opts?: { onEvent?: (e: HorseEvent) => void }): HorseGame {
+  let phase: HorsePhase = "set";
+  let setter: 0 | 1 = 0;
+  let active: 0 | 1 = 0;
+  let trick: string | null = null;
+  let timeLeft = SET_TIME;
+  let letters: [number, number] = [0, 0];
+  let winner: 0 | 1 | null = null;
+
+  const other = (p: 0 | 1): 0 | 1 => (p === 0 ? 1 : 0);
+  const emit = (e: HorseEvent) => opts?.onEvent?.(e);
+
+  function beginSet(player: 0 | 1): void {
+    phase = "set";
+    setter = player;
+    active = player;
+    trick = null;
+    timeLeft = SET_TIME;
+  }
+
+  function miss(): void {
+    if (phase === "set") {
+      // Setter didn't land anything: their turn passes
+      emit({ kind: "pass", player: setter });
+      beginSet(other(setter));
+      return;
+    }
+    letters[active]++;
+    emit({ kind: "letter", player: active, letters: horseLetters(letters[active]) });
+    if (letters[active] >= HORSE_WORD.length) {
+      phase = "over";
+      winner = setter;
+      emit({ kind: "won", player: setter });
+      return;
+    }
+    beginSet(setter);
+  }
+
+  return {
+    reset: () => {
+      letters = [0, 0];
+      winner = null;
+      beginSet(0);
+    },
+    onTrick: (player, name) => {
+      if (phase === "over" || player !== active) return;
+      if (phase === "set") {
+        trick = name;
+        phase = "match";
+        active = other(setter);
+        timeLeft = MATCH_TIME;
+        emit({ kind: "set", player, trick: name });
+      } else if (name === trick) {
+        emit({ kind: "matched", player, trick: name });
+        beginSet(setter);
+      } else {
+        miss();
+      }
+    },
+    onBail: (player) => {
+      if (phase !== "over" && player === active) miss();
+    },
+    update: (dt) => {
+      if (phase === "over") return;
+      timeLeft -= dt;
+      if (timeLeft <= 0) miss();
+    },
+    view: () => ({ phase, active, trick, timeLeft: Math.max(0, timeLeft), letters: [letters[0], letters[1]], winner })
+  };
+}
@@ -0,0 +1,493 @@
+import { InputState, createEmptyInput } from "./skater";
+
+// Input subsystem: keyboard, Gamepad API and on-screen touch controls all feed
+// one InputState. Key and pad bindings are rebindable and kept in localStorage.
+
+export type HeldAction = keyof InputState;
+export type PressAction = "recover" | "toggleControls" | "pause" | "journal" | "talk";
+export type InputAction = HeldAction | PressAction;
+
+export type Bindings = {
+  keys: Record<InputAction, string[]>;  // KeyboardEvent.code values
+  pad: Record<InputAction, number[]>;   // standard-mapping button indices
+};
+
+export type InputSource = {
+  read: () => InputState;
+};
+
+export type InputManager = InputSource & {
+  onAction: (action: PressAction, cb: () => void) => void;
+  /** Capture the next key or pad button press and bind it to `action` (replacing its keys or buttons). */
+  beginRebind: (action: InputAction, onDone?: () => void) => void;
+  /** Release everything that is held (focus loss, menus opening, ...). */
+  clear: () => void;
+  dispose: () => void;
+};
+
+const BINDINGS_KEY = "skate-bindings-v1";
+const STICK_DEADZONE = 0.35;
+
+export const ACTION_LABELS: Record<InputAction, string> = {
+  forward: "Accelerate",
+  backward: "Brake",
+  left: "Turn left",
+  right: "Turn right",
+  jump: "Jump/Pop",
+  push: "Push",
+  trickSpin: "Spin",
+  trickGrab: "Grab",
+  trickFlip: "Kickflip",
+  trickShove: "Shove-it",
+  manual: "Manual",
+  noseManual: "Nose manual",
+  recover: "Recover upright",
+  toggleControls: "Toggle controls",
+  pause: "Pause",
+  journal: "Journal",
+  talk: "Talk"
+};
+
+const HELD_ACTIONS: HeldAction[] = ["forward", "backward", "left", "right", "jump", "push", "trickSpin", "trickGrab", "trickFlip", "trickShove", "manual", "noseManual"];
+const PRESS_ACTIONS: PressAction[] = ["recover", "toggleControls", "pause", "journal", "talk"];
+
+export function defaultBindings(): Bindings {
+  return {
+    keys: {
+      // Movement: Arrows & IJKL
+      forward: ["ArrowUp", "KeyI"],
+      backward: ["ArrowDown", "KeyK"],
+      left: ["ArrowLeft", "KeyJ"],
+      right: ["ArrowRight", "KeyL"],
+      jump: ["Space"],
+      push: ["ShiftLeft", "ShiftRight"],
+      // Tricks: WASD + legacy QE/F
+      trickSpin: ["KeyW", "KeyE"],
+      trickGrab: ["KeyA", "KeyQ"],
+      trickFlip: ["KeyD", "KeyF"],
+      trickShove: ["KeyS"],
+      manual: ["KeyZ"],
+      noseManual: ["KeyX"],
+      recover: ["KeyR"],
+      toggleControls: ["Tab"],
+      pause: ["Escape"],
+      journal: ["KeyB"],
+      talk: ["KeyT"]
+    },
+    pad: {
+      forward: [7, 12],   // RT, d-pad up
+      backward: [6, 13],  // LT, d-pad down
+      left: [14],
+      right: [15],
+      jump: [0],          // A
+      push: [4],          // LB
+      trickSpin: [3],     // Y
+      trickGrab: [1],     // B
+      trickFlip: [2],     // X
+      trickShove: [5],    // RB
+      manual: [],         // right stick back (see pollGamepads)
+      noseManual: [],     // right stick forward
+      recover: [10],      // left stick click
+      toggleControls: [8],// Back/View
+      pause: [9],         // Start/Menu
+      journal: [],
+      talk: [11]          // right stick click
+    }
+  };
+}
+
+export function loadBindings(): Bindings {
+  const defaults = defaultBindings();
+  try {
+    const raw = localStorage.getItem(BINDINGS_KEY);
+    if (!raw) return defaults;
+    const data = JSON.parse(raw) as Partial<Bindings>;
+    // Merge per action so bindings saved by older builds pick up new actions
+    for (const a of Object.keys(defaults.keys) as InputAction[]) {
+      const keys = data.keys?.[a];
+      if (Array.isArray(keys)) defaults.keys[a] = keys.filter((k) => typeof k === "string");
+      const pad = data.pad?.[a];
+      if (Array.isArray(pad)) defaults.pad[a] = pad.filter((b) => typeof b === "number");
+    }
+    return defaults;
+  } catch {
+    return defaults;
+  }
+}
+
+export function saveBindings(bindings: Bindings): void {
+  try {
+    localStorage.setItem(BINDINGS_KEY, JSON.stringify(bindings));
+  } catch {
+    // ignore
+  }
+}
+
+export function resetBindings(): Bindings {
+  const b = defaultBindings();
+  saveBindings(b);
+  return b;
+}
+
+/** Human-friendly label for a KeyboardEvent.code ("KeyW" -> "W"). */
+export function formatKeyCode(code: string): string {
+  if (code.startsWith("Key")) return code.slice(3);
+  if (code.startsWith("Digit")) return code.slice(5);
+  if (code.startsWith("Arrow")) return code.slice(5);
+  if (code === "ShiftLeft" || code === "ShiftRight") return "Shift";
+  if (code === "ControlLeft" || code === "ControlRight") return "Ctrl";
+  if (code === "AltLeft" || code === "AltRight") return "Alt";
+  if (code === "Escape") return "Esc";
+  return code;
+}
+
+// Standard-mapping button names, by index
+const PAD_BUTTON_NAMES = ["A", "B", "X", "Y", "LB", "RB", "LT", "RT", "Back", "Start", "L3", "R3", "D-pad up", "D-pad down", "D-pad left", "D-pad right", "Home"];
+
+/** Label for a standard-mapping gamepad button index (0 -> "A"). */
+export function formatPadButton(index: number): string {
+  return PAD_BUTTON_NAMES[index] ?? `Button ${index}`;
+}
+
+/** One line per action, e.g. { action: "trickSpin", label: "Spin", keys: "W / E", pad: "Y" }. `pad` is empty for actions with no button. */
+export function describeBindings(bindings: Bindings = loadBindings()): { action: InputAction; label: string; keys: string; pad: string }[] {
+  return (Object.keys(ACTION_LABELS) as InputAction[]).map((action) => {
+    const names: string[] = [];
+    for (const code of bindings.keys[action]) {
+      const n = formatKeyCode(code);
+      if (!names.includes(n)) names.push(n);
+    }
+    const pad = bindings.pad[action].map(formatPadButton).join(" / ");
+    return { action, label: ACTION_LABELS[action], keys: names.join(" / ") || "unbound", pad };
+  });
+}
+
+function connectedPads(): Gamepad[] {
+  const pads = typeof navigator.getGamepads === "function" ? navigator.getGamepads() : [];
+  return pads.filter((gp): gp is Gamepad => !!gp && gp.connected);
+}
+
+// Sticks into `state`, pressed buttons into `buttons` (merged with what's already there)
+function readPad(gp: Gamepad, state: InputState, buttons: boolean[]): void {
+  gp.buttons.forEach((b, i) => {
+    if (b.pressed) buttons[i] = true;
+  });
+  // Left stick steers and throttles
+  const ax = gp.axes[0] ?? 0;
+  const ay = gp.axes[1] ?? 0;
+  if (ax < -STICK_DEADZONE) state.left = true;
+  if (ax > STICK_DEADZONE) state.right = true;
+  if (ay < -STICK_DEADZONE) state.forward = true;
+  if (ay > STICK_DEADZONE) state.backward = true;
+  // Right stick tilts the board: back for a manual, forward for a nose manual
+  const ry = gp.axes[3] ?? 0;
+  if (ry > STICK_DEADZONE) state.manual = true;
+  if (ry < -STICK_DEADZONE) state.noseManual = true;
+}
+
+export function createInputManager(): InputManager {
+  let bindings = loadBindings();
+  const heldKeys = new Set<string>();
+  const touch: InputState = createEmptyInput();
+  let pad: InputState = createEmptyInput();
+  let prevPadButtons: boolean[] = [];
+  const listeners: Record<PressAction, (() => void)[]> = { recover: [], toggleControls: [], pause: [], journal: [], talk: [] };
+  let rebinding: { action: InputAction; onDone?: () => void } | null = null;
+
+  function emit(action: PressAction): void {
+    for (const cb of listeners[action]) cb();
+  }
+
+  function pressActionForKey(code: string): PressAction | null {
+    for (const a of PRESS_ACTIONS) {
+      if (bindings.keys[a].includes(code)) return a;
+    }
+    return null;
+  }
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (rebinding) {
+      e.preventDefault();
+      const { action, onDone } = rebinding;
+      rebinding = null;
+      // Escape backs out of a rebind unless pause itself is being rebound
+      if (e.code === "Escape" && action !== "pause") {
+        onDone?.();
+        return;
+      }
+      // A key drives one action only
+      for (const a of Object.keys(bindings.keys) as InputAction[]) {
+        bindings.keys[a] = bindings.keys[a].filter((c) => c !== e.code);
+      }
+      bindings.keys[action] = [e.code];
+      saveBindings(bindings);
+      onDone?.();
+      return;
+    }
+    heldKeys.add(e.code);
+    const press = pressActionForKey(e.code);
+    if (press) {
+      if (press !== "recover") e.preventDefault();
+      if (!e.repeat) emit(press);
+    }
+  };
+  const onKeyUp = (e: KeyboardEvent) => {
+    heldKeys.delete(e.code);
+  };
+  // Focus loss: drop everything held so the skater doesn't keep accelerating after alt-tab
+  const onBlur = () => clear();
+  const onVisibility = () => {
+    if (document.visibilityState === "hidden") clear();
+  };
+  window.addEventListener("keydown", onKeyDown);
+  window.addEventListener("keyup", onKeyUp);
+  window.addEventListener("blur", onBlur);
+  document.addEventListener("visibilitychange", onVisibility);
+
+  // Gamepads are polled every animation frame so press actions (pause) still
+  // fire while the simulation is stopped. Polling stops while no pad is
+  // connected and starts again when one is.
+  let rafId = 0;
+  function pollGamepads(): void {
+    const pads = connectedPads();
+    if (!pads.length) {
+      pad = createEmptyInput();
+      prevPadButtons = [];
+      rafId = 0;
+      return;
+    }
+    const next = createEmptyInput();
+    const buttons: boolean[] = [];
+    for (const gp of pads) readPad(gp, next, buttons);
+    const pressed = buttons.findIndex((b, i) => b && !prevPadButtons[i]);
+    if (rebinding && pressed >= 0) {
+      const { action, onDone } = rebinding;
+      rebinding = null;
+      // A button drives one action only
+      for (const a of Object.keys(bindings.pad) as InputAction[]) {
+        bindings.pad[a] = bindings.pad[a].filter((i) => i !== pressed);
+      }
+      bindings.pad[action] = [pressed];
+      saveBindings(bindings);
+      onDone?.();
+    } else if (!rebinding) {
+      for (const a of HELD_ACTIONS) {
+        if (bindings.pad[a].some((i) => buttons[i])) next[a] = true;
+      }
+      for (const a of PRESS_ACTIONS) {
+        if (bindings.pad[a].some((i) => buttons[i] && !prevPadButtons[i])) emit(a);
+      }
+    }
+    prevPadButtons = buttons;
+    pad = next;
+    rafId = window.requestAnimationFrame(pollGamepads);
+  }
+  function startPolling(): void {
+    if (!rafId) rafId = window.requestAnimationFrame(pollGamepads);
+  }
+  window.addEventListener("gamepadconnected", startPolling);
+  startPolling();
+
+  const touchControls = createTouchControls(touch);
+
+  function read(): InputState {
+    const state = createEmptyInput();
+    for (const a of HELD_ACTIONS) {
+      state[a] = touch[a] || pad[a] || bindings.keys[a].some((c) => heldKeys.has(c));
+    }
+    return state;
+  }
+
+  function onAction(action: PressAction, cb: () => void): void {
+    listeners[action].push(cb);
+  }
+
+  function beginRebind(action: InputAction, onDone?: () => void): void {
+    bindings = loadBindings();
+    rebinding = { action, onDone };
+  }
+
+  function clear(): void {
+    heldKeys.clear();
+    for (const a of HELD_ACTIONS) touch[a] = false;
+    touchControls?.release();
+  }
+
+  function dispose(): void {
+    window.removeEventListener("keydown", onKeyDown);
+    window.removeEventListener("keyup", onKeyUp);
+    window.removeEventListener("blur", onBlur);
+    document.removeEventListener("visibilitychange", onVisibility);
+    window.removeEventListener("gamepadconnected", startPolling);
+    window.cancelAnimationFrame(rafId);
+    touchControls?.dispose();
+  }
+
+  return { read, onAction, beginRebind, clear, dispose };
+}
+
+// ------- On-screen touch controls (only on touch-capable devices) -------
+function createTouchControls(state: InputState): { release: () => void; dispose: () => void } | null {
+  if (!("ontouchstart" in window) && !(navigator.maxTouchPoints > 0)) return null;
+
+  const wrap = document.createElement("div");
+  wrap.id = "touch-controls";
+  wrap.style.position = "fixed";
+  wrap.style.left = "0";
+  wrap.style.right = "0";
+  wrap.style.bottom = "0";
+  wrap.style.height = "200px";
+  wrap.style.pointerEvents = "none";
+  wrap.style.zIndex = "500";
+  document.body.appendChild(wrap);
+
+  const buttons: HTMLButtonElement[] = [];
+  function button(label: string, action: HeldAction, left: string | null, right: string | null, bottom: string): void {
+    const b = document.createElement("button");
+    b.textContent = label;
+    b.style.position = "absolute";
+    if (left !== null) b.style.left = left;
+    if (right !== null) b.style.right = right;
+    b.style.bottom = bottom;
+    b.style.width = "56px";
+    b.style.height = "56px";
+    b.style.borderRadius = "999px";
+    b.style.border = "2px solid rgba(0,0,0,0.4)";
+    b.style.background = "rgba(255,255,255,0.55)";
+    b.style.color = "#111";
+    b.style.fontWeight = "700";
+    b.style.fontSize = "11px";
+    b.style.pointerEvents = "auto";
+    b.style.touchAction = "none";
+    b.style.userSelect = "none";
+    const down = (e: PointerEvent) => {
+      e.preventDefault();
+      state[action] = true;
+      b.style.background = "rgba(255,255,255,0.9)";
+    };
+    const up = () => {
+      state[action] = false;
+      b.style.background = "rgba(255,255,255,0.55)";
+    };
+    b.addEventListener("pointerdown", down);
+    b.addEventListener("pointerup", up);
+    b.addEventListener("pointercancel", up);
+    b.addEventListener("pointerleave", up);
+    wrap.appendChild(b);
+    buttons.push(b);
+  }
+
+  // Left thumb: d-pad
+  button("▲", "forward", "76px", null, "136px");
+  button("▼", "backward", "76px", null, "16px");
+  button("◀", "left", "16px", null, "76px");
+  button("▶", "right", "136px", null, "76px");
+  // Right thumb: pop + tricks
+  button("Jump", "jump", null, "76px", "16px");
+  button("Push", "push", null, "136px", "16px");
+  button("Flip", "trickFlip", null, "16px", "76px");
+  button("Grab", "trickGrab", null, "136px", "76px");
+  button("Spin", "trickSpin", null, "76px", "136px");
+  button("Shove", "trickShove", null, "16px", "136px");
+  button("Manual", "manual", null, "136px", "136px");
+  button("Nose", "noseManual", null, "16px", "16px");
+
+  return {
+    release: () => {
+      for (const b of buttons) b.style.background = "rgba(255,255,255,0.55)";
+    },
+    dispose: () => wrap.remove()
+  };
+}
+
+// ------- Split-screen: one input source per player -------
+
+// Each player gets half the keyboard, and the gamepad in their slot (first
+// connected pad for player 1, second for player 2). Pad buttons use the saved
+// bindings; the keyboard halves are fixed.
+export const PLAYER_KEYS: Record<HeldAction | "recover", string[]>[] = [
+  {
+    forward: ["KeyW"],
+    backward: ["KeyS"],
+    left: ["KeyA"],
+    right: ["KeyD"],
+    jump: ["Space"],
+    push: ["ShiftLeft"],
+    trickSpin: ["KeyQ"],
+    trickGrab: ["KeyE"],
+    trickFlip: ["KeyF"],
+    trickShove: ["KeyG"],
+    manual: ["KeyZ"],
+    noseManual: ["KeyX"],
+    recover: ["KeyC"]
+  },
+  {
+    forward: ["ArrowUp"],
+    backward: ["ArrowDown"],
+    left: ["ArrowLeft"],
+    right: ["ArrowRight"],
+    jump: ["Enter", "Numpad0"],
+    push: ["ShiftRight"],
+    trickSpin: ["KeyI"],
+    trickGrab: ["KeyJ"],
+    trickFlip: ["KeyL"],
+    trickShove: ["KeyK"],
+    manual: ["KeyM"],
+    noseManual: ["Comma"],
+    recover: ["Period"]
+  }
+];
+
+export type PlayerInput = InputSource & {
+  onRecover: (cb: () => void) => void;
+  clear: () => void;
+  dispose: () => void;
+};
+
+export function createPlayerInput(player: 0 | 1): PlayerInput {
+  const keys = PLAYER_KEYS[player];
+  const bindings = loadBindings();
+  const heldKeys = new Set<string>();
+  const recoverListeners: (() => void)[] = [];
+  let prevRecover = false;
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    heldKeys.add(e.code);
+    if (keys.recover.includes(e.code) && !e.repeat) for (const cb of recoverListeners) cb();
+  };
+  const onKeyUp = (e: KeyboardEvent) => {
+    heldKeys.delete(e.code);
+  };
+  const onBlur = () => heldKeys.clear();
+  window.addEventListener("keydown", onKeyDown);
+  window.addEventListener("keyup", onKeyUp);
+  window.addEventListener("blur", onBlur);
+
+  // The pad is read with the fixed step (input only matters while skating)
+  function read(): InputState {
+    const state = createEmptyInput();
+    const buttons: boolean[] = [];
+    const gp = connectedPads()[player];
+    if (gp) readPad(gp, state, buttons);
+    for (const a of HELD_ACTIONS) {
+      if (keys[a].some((c) => heldKeys.has(c)) || bindings.pad[a].some((i) => buttons[i])) state[a] = true;
+    }
+    const recover = bindings.pad.recover.some((i) => buttons[i]);
+    if (recover && !prevRecover) for (const cb of recoverListeners) cb();
+    prevRecover = recover;
+    return state;
+  }
+
+  return {
+    read,
+    onRecover: (cb) => {
+      recoverListeners.push(cb);
+    },
+    clear: () => heldKeys.clear(),
+    dispose: () => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("keyup", onKeyUp);
+      window.removeEventListener("blur", onBlur);
+    }
+  };
+}
@@ -0,0 +1,161 @@
+import { StorySpot, STORY_SPOTS } from "./stories";
+import { getStoryFind, isStoryCollected } from "./saveSystem";
+import { describeBindings } from "./input";
+
+// Story journal: every story spot in the park as a page in a collection book.
+// Found stories show their text, where they are, when they were found and the
+// snapshot taken at the time; the rest stay locked with a vague hint. Built
+// from the save data each time it opens.
+
+export type Journal = {
+  show: () => void;
+  hide: () => void;
+  isOpen: () => boolean;
+};
+
+const CARD_WIDTH = 240;
+const THUMB_HEIGHT = 135;
+
+// Whatever the journal and pause actions are bound to right now (keys, then pad buttons)
+function closeHint(): string {
+  const bound = describeBindings();
+  const rows = (["journal", "pause"] as const).flatMap((action) => bound.filter((r) => r.action === action));
+  const names = [...rows.map((r) => r.keys).filter((k) => k !== "unbound"), ...rows.map((r) => r.pad).filter((p) => p)];
+  if (names.length === 0) return "";
+  const last = names.pop();
+  return `Press ${names.length ? `${names.join(", ")} or ${last}` : last} to close`;
+}
+
+function card(): HTMLDivElement {
+  const c = document.createElement("div");
+  c.style.width = `${CARD_WIDTH}px`;
+  c.style.borderRadius = "10px";
+  c.style.overflow = "hidden";
+  c.style.background = "rgba(255,255,255,0.08)";
+  c.style.border = "1px solid rgba(255,255,255,0.15)";
+  c.style.display = "flex";
+  c.style.flexDirection = "column";
+  return c;
+}
+
+function picture(thumbnail: string | undefined, locked: boolean): HTMLDivElement {
+  const p = document.createElement("div");
+  p.style.height = `${THUMB_HEIGHT}px`;
+  p.style.display = "flex";
+  p.style.alignItems = "center";
+  p.style.justifyContent = "center";
+  p.style.fontSize = "56px";
+  p.style.fontWeight = "800";
+  if (thumbnail) {
+    p.style.background = `center / cover no-repeat url("${thumbnail}")`;
+  } else if (locked) {
+    // Silhouette: a dark frame with a question mark
+    p.style.background = "radial-gradient(circle at 50% 60%, #2a2a33 0%, #111116 70%)";
+    p.style.color = "rgba(255,255,255,0.18)";
+    p.textContent = "?";
+  } else {
+    // Found before snapshots were kept
+    p.style.background = "linear-gradient(135deg, #3a3350 0%, #2a2a3a 100%)";
+    p.style.color = "rgba(255,209,102,0.6)";
+    p.textContent = "★";
+  }
+  return p;
+}
+
+function line(text: string, color: string, size = "13px"): HTMLDivElement {
+  const d = document.createElement("div");
+  d.textContent = text;
+  d.style.color = color;
+  d.style.fontSize = size;
+  return d;
+}
+
+export function createJournal(spots: StorySpot[] = STORY_SPOTS): Journal {
+  const el = document.createElement("div");
+  el.id = "journal";
+  el.style.position = "fixed";
+  el.style.left = "0";
+  el.style.top = "0";
+  el.style.width = "100%";
+  el.style.height = "100%";
+  el.style.background = "rgba(0, 0, 0, 0.92)";
+  el.style.display = "none";
+  el.style.flexDirection = "column";
+  el.style.alignItems = "center";
+  el.style.justifyContent = "center";
+  el.style.gap = "18px";
+  el.style.zIndex = "1001";
+  el.style.color = "#fff";
+  el.style.fontFamily = "system-ui, sans-serif";
+  el.style.overflowY = "auto";
+  document.body.appendChild(el);
+
+  function render(): void {
+    el.innerHTML = "";
+    const found = spots.filter((s) => isStoryCollected(s.id)).length;
+    const title = document.createElement("h1");
+    title.textContent = "Journal";
+    title.style.margin = "0";
+    title.style.fontSize = "38px";
+    el.appendChild(title);
+    el.appendChild(line(`${found}/${spots.length} stories found`, "#ffd166", "16px"));
+
+    const grid = document.createElement("div");
+    grid.style.display = "flex";
+    grid.style.flexWrap = "wrap";
+    grid.style.justifyContent = "center";
+    grid.style.gap = "14px";
+    grid.style.maxWidth = `${CARD_WIDTH * 4 + 14 * 3}px`;
+    for (const spot of spots) {
+      const c = card();
+      const body = document.createElement("div");
+      body.style.padding = "10px 12px 12px";
+      body.style.display = "flex";
+      body.style.flexDirection = "column";
+      body.style.gap = "5px";
+      if (isStoryCollected(spot.id)) {
+        const find = getStoryFind(spot.id);
+        c.appendChild(picture(find?.thumbnail, false));
+        body.appendChild(line(spot.title, "#fff", "16px")).style.fontWeight = "700";
+        body.appendChild(line(spot.text, "#ddd"));
+        body.appendChild(line(spot.place, "#9fb4ff", "12px"));
+        body.appendChild(line(find ? `Found ${new Date(find.date).toLocaleString()}` : "Found", "#888", "12px"));
+      } else {
+        c.style.opacity = "0.75";
+        c.appendChild(picture(undefined, true));
+        body.appendChild(line("Locked", "#777", "16px")).style.fontWeight = "700";
+        body.appendChild(line(spot.hint, "#aaa")).style.fontStyle = "italic";
+      }
+      c.appendChild(body);
+      grid.appendChild(c);
+    }
+    el.appendChild(grid);
+
+    const back = document.createElement("button");
+    back.textContent = "Back";
+    back.style.padding = "12px 28px";
+    back.style.fontSize = "16px";
+    back.style.fontWeight = "700";
+    back.style.borderRadius = "8px";
+    back.style.border = "none";
+    back.style.background = "linear-gradient(135deg, #667eea 0%, #764ba2 100%)";
+    back.style.color = "#fff";
+    back.style.cursor = "pointer";
+    back.onclick = () => journal.hide();
+    el.appendChild(back);
+    const hint = closeHint();
+    if (hint) el.appendChild(line(hint, "#888"));
+  }
+
+  const journal: Journal = {
+    show: () => {
+      render();
+      el.style.display = "flex";
+    },
+    hide: () => {
+      el.style.display = "none";
+    },
+    isOpen: () => el.style.display !== "none"
+  };
+  return journal;
+}
@@ -0,0 +1,162 @@
+import { GAME_MODES, RUN_LENGTHS, RunConfig, getMode } from "./modes";
+
+// Local leaderboards: a top 10 per park and mode (timed modes keep one board
+// per run length, since a 5-minute score isn't a 1-minute score). Boards are
+// kept in the browser and export/import as JSON; importing merges entries
+// into the boards already here, so boards from several machines combine.
+
+export const BOARD_SIZE = 10;
+export const INITIALS_LENGTH = 3;
+
+export type LeaderboardEntry = {
+  initials: string;
+  score: number;
+  date: string;      // ISO
+  bestCombo: number; // points from the best single combo
+  duration: number;  // seconds skated
+};
+
+export type Leaderboards = Record<string, LeaderboardEntry[]>;
+
+export type BoardInfo = { id: string; label: string };
+
+type LeaderboardFile = { version: 1; kind: "leaderboards"; boards: Leaderboards };
+
+const STORAGE_KEY = "skate-leaderboards-v1";
+const INITIALS_KEY = "skate-initials";
+
+export function boardId(park: string, config: RunConfig): string {
+  return getMode(config.mode).timed ? `${park}/${config.mode}-${config.runLength}` : `${park}/${config.mode}`;
+}
+
+/** Every board a park can have, in menu order (scored modes only). */
+export function parkBoards(park: string): BoardInfo[] {
+  const boards: BoardInfo[] = [];
+  for (const mode of GAME_MODES) {
+    if (!mode.scored) continue;
+    if (!mode.timed) {
+      boards.push({ id: boardId(park, { mode: mode.id, runLength: 0 }), label: mode.name });
+      continue;
+    }
+    for (const len of RUN_LENGTHS) {
+      boards.push({ id: boardId(park, { mode: mode.id, runLength: len }), label: `${mode.name} ${len / 60} min` });
+    }
+  }
+  return boards;
+}
+
+function isEntry(e: unknown): e is LeaderboardEntry {
+  const x = e as LeaderboardEntry;
+  return !!x && typeof x.initials === "string" && typeof x.score === "number" && typeof x.date === "string" &&
+    typeof x.bestCombo === "number" && typeof x.duration === "number";
+}
+
+function rankOrder(a: LeaderboardEntry, b: LeaderboardEntry): number {
+  // Ties go to whoever got there first
+  return b.score - a.score || a.date.localeCompare(b.date);
+}
+
+function cleanBoards(data: unknown): Leaderboards {
+  const boards: Leaderboards = {};
+  if (!data || typeof data !== "object") return boards;
+  for (const [id, entries] of Object.entries(data as Record<string, unknown>)) {
+    if (Array.isArray(entries)) boards[id] = entries.filter(isEntry).sort(rankOrder).slice(0, BOARD_SIZE);
+  }
+  return boards;
+}
+
+export function loadLeaderboards(): Leaderboards {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? cleanBoards(JSON.parse(raw)) : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveLeaderboards(boards: Leaderboards): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(boards));
+  } catch {
+    // storage full: the boards stay as they were
+  }
+}
+
+export function getBoard(id: string): LeaderboardEntry[] {
+  return loadLeaderboards()[id] ?? [];
+}
+
+/** Where a score would place (1-based), or null if it doesn't make the board. */
+export function boardRank(id: string, score: number): number | null {
+  if (score <= 0) return null;
+  const board = getBoard(id);
+  const rank = board.filter((e) => e.score >= score).length + 1;
+  return rank <= BOARD_SIZE ? rank : null;
+}
+
+/** Add an entry; returns its rank, or null if it fell off the board. */
+export function addEntry(id: string, entry: LeaderboardEntry): number | null {
+  const boards = loadLeaderboards();
+  const board = [...(boards[id] ?? []), entry].sort(rankOrder).slice(0, BOARD_SIZE);
+  boards[id] = board;
+  saveLeaderboards(boards);
+  const rank = board.indexOf(entry);
+  return rank >= 0 ? rank + 1 : null;
+}
+
+export function cleanInitials(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z0-9]/g, "").slice(0, INITIALS_LENGTH);
+}
+
+export function loadInitials(): string {
+  return cleanInitials(localStorage.getItem(INITIALS_KEY) ?? "");
+}
+
+export function saveInitials(initials: string): void {
+  localStorage.setItem(INITIALS_KEY, initials);
+}
+
+/** Download every board as a .json file. */
+export function exportLeaderboards(): void {
+  const file: LeaderboardFile = { version: 1, kind: "leaderboards", boards: loadLeaderboards() };
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `leaderboards-${new Date().toISOString().slice(0, 10)}.json`;
+  a.click();
+  // Revoking straight after click() can cancel the download in some browsers
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** Merge an exported file into the local boards; returns how many new entries made a board, or null if it isn't a leaderboard file. */
+export function importLeaderboards(json: string): number | null {
+  let file: LeaderboardFile;
+  try {
+    file = JSON.parse(json) as LeaderboardFile;
+  } catch {
+    return null;
+  }
+  if (file?.version !== 1 || file.kind !== "leaderboards") return null;
+  const incoming = cleanBoards(file.boards);
+  const boards = loadLeaderboards();
+  let added = 0;
+  for (const [id, entries] of Object.entries(incoming)) {
+    const board = boards[id] ?? [];
+    // The same run imported twice (or exported back and forth) only counts once
+    const seen = new Set(board.map((e) => `${e.initials}|${e.score}|${e.date}`));
+    const fresh = new Set<LeaderboardEntry>();
+    for (const e of entries) {
+      const entry = { ...e, initials: cleanInitials(e.initials) || "???" };
+      const key = `${entry.initials}|${entry.score}|${entry.date}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      fresh.add(entry);
+      board.push(entry);
+    }
+    boards[id] = board.sort(rankOrder).slice(0, BOARD_SIZE);
+    added += boards[id].filter((e) => fresh.has(e)).length;
+  }
+  saveLeaderboards(boards);
+  return added;
+}
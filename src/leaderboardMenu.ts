@@ -0,0 +1,224 @@
+import { BoardInfo, INITIALS_LENGTH, LeaderboardEntry, cleanInitials, exportLeaderboards, getBoard, importLeaderboards } from "./leaderboard";
+
+// Leaderboard screens: the board viewer (from the start menu, with JSON
+// export/import) and the initials entry shown when a run makes a board.
+
+export type LeaderboardMenu = {
+  show: (boardId?: string) => void;
+  hide: () => void;
+  isOpen: () => boolean;
+};
+
+export type InitialsEntry = {
+  show: (rank: number, score: number, initials: string) => void;
+  isOpen: () => boolean;
+};
+
+function overlay(id: string): HTMLDivElement {
+  const el = document.createElement("div");
+  el.id = id;
+  el.style.position = "fixed";
+  el.style.left = "0";
+  el.style.top = "0";
+  el.style.width = "100%";
+  el.style.height = "100%";
+  el.style.background = "rgba(0, 0, 0, 0.85)";
+  el.style.display = "none";
+  el.style.flexDirection = "column";
+  el.style.alignItems = "center";
+  el.style.justifyContent = "center";
+  el.style.gap = "16px";
+  el.style.zIndex = "1000";
+  el.style.color = "#fff";
+  el.style.fontFamily = "system-ui, sans-serif";
+  document.body.appendChild(el);
+  return el;
+}
+
+function button(text: string, onClick: () => void, primary = false): HTMLButtonElement {
+  const b = document.createElement("button");
+  b.textContent = text;
+  b.style.padding = primary ? "12px 28px" : "8px 16px";
+  b.style.fontSize = primary ? "16px" : "14px";
+  b.style.fontWeight = "700";
+  b.style.borderRadius = "8px";
+  b.style.border = primary ? "none" : "1px solid rgba(255,255,255,0.4)";
+  b.style.background = primary ? "linear-gradient(135deg, #667eea 0%, #764ba2 100%)" : "transparent";
+  b.style.color = "#fff";
+  b.style.cursor = "pointer";
+  b.onclick = onClick;
+  return b;
+}
+
+function formatDuration(seconds: number): string {
+  const s = Math.round(seconds);
+  return `${Math.floor(s / 60)}:${s % 60 < 10 ? "0" : ""}${s % 60}`;
+}
+
+export function createLeaderboardMenu(opts: { boards: BoardInfo[]; onClose: () => void }): LeaderboardMenu {
+  const el = overlay("leaderboard-menu");
+  let selected = opts.boards[0]?.id ?? "";
+  let status = "";
+
+  const file = document.createElement("input");
+  file.type = "file";
+  file.accept = ".json,application/json";
+  file.style.display = "none";
+  file.onchange = () => {
+    const f = file.files?.[0];
+    file.value = "";
+    if (!f) return;
+    f.text().then((text) => {
+      const added = importLeaderboards(text);
+      status = added === null ? "That isn't a leaderboard file" : `Merged ${added} new ${added === 1 ? "entry" : "entries"}`;
+      render();
+    });
+  };
+
+  function render(): void {
+    el.innerHTML = "";
+    const title = document.createElement("h1");
+    title.textContent = "Leaderboards";
+    title.style.margin = "0";
+    title.style.fontSize = "38px";
+    el.appendChild(title);
+
+    const tabs = document.createElement("div");
+    tabs.style.display = "flex";
+    tabs.style.flexWrap = "wrap";
+    tabs.style.justifyContent = "center";
+    tabs.style.gap = "6px";
+    for (const b of opts.boards) {
+      const t = button(b.label, () => {
+        selected = b.id;
+        render();
+      });
+      if (b.id === selected) {
+        t.style.background = "rgba(255,255,255,0.9)";
+        t.style.color = "#222";
+      }
+      tabs.appendChild(t);
+    }
+    el.appendChild(tabs);
+
+    const entries: LeaderboardEntry[] = getBoard(selected);
+    const table = document.createElement("div");
+    table.style.display = "grid";
+    table.style.gridTemplateColumns = "auto auto auto auto auto auto";
+    table.style.gap = "6px 22px";
+    table.style.fontSize = "16px";
+    table.style.minHeight = "120px";
+    const cell = (text: string, header = false) => {
+      const c = document.createElement("div");
+      c.textContent = text;
+      if (header) c.style.color = "#aaa";
+      table.appendChild(c);
+    };
+    for (const h of ["#", "Initials", "Score", "Best combo", "Time", "Date"]) cell(h, true);
+    entries.forEach((e, i) => {
+      cell(String(i + 1));
+      cell(e.initials);
+      cell(String(e.score));
+      cell(String(e.bestCombo));
+      cell(formatDuration(e.duration));
+      cell(new Date(e.date).toLocaleDateString());
+    });
+    el.appendChild(table);
+    if (!entries.length) {
+      const empty = document.createElement("div");
+      empty.textContent = "No runs on this board yet";
+      empty.style.color = "#888";
+      el.appendChild(empty);
+    }
+
+    const row = document.createElement("div");
+    row.style.display = "flex";
+    row.style.gap = "10px";
+    row.appendChild(button("Export", () => exportLeaderboards()));
+    row.appendChild(button("Import & merge", () => file.click()));
+    row.appendChild(button("Back", () => menu.hide(), true));
+    el.appendChild(row);
+    el.appendChild(file);
+    if (status) {
+      const s = document.createElement("div");
+      s.textContent = status;
+      s.style.color = "#ccc";
+      s.style.fontSize = "13px";
+      el.appendChild(s);
+    }
+  }
+
+  const menu: LeaderboardMenu = {
+    show: (boardId) => {
+      if (boardId && opts.boards.some((b) => b.id === boardId)) selected = boardId;
+      status = "";
+      render();
+      el.style.display = "flex";
+    },
+    hide: () => {
+      if (el.style.display === "none") return;
+      el.style.display = "none";
+      opts.onClose();
+    },
+    isOpen: () => el.style.display !== "none"
+  };
+  return menu;
+}
+
+export function createInitialsEntry(opts: { onSubmit: (initials: string) => void }): InitialsEntry {
+  const el = overlay("initials-entry");
+  const title = document.createElement("h1");
+  title.style.margin = "0";
+  title.style.fontSize = "38px";
+  el.appendChild(title);
+  const sub = document.createElement("div");
+  sub.style.fontSize = "18px";
+  sub.style.color = "#ccc";
+  el.appendChild(sub);
+
+  const input = document.createElement("input");
+  input.maxLength = INITIALS_LENGTH;
+  input.placeholder = "AAA";
+  input.style.width = "150px";
+  input.style.textAlign = "center";
+  input.style.fontSize = "44px";
+  input.style.fontWeight = "800";
+  input.style.letterSpacing = "0.2em";
+  input.style.padding = "6px";
+  input.style.borderRadius = "8px";
+  input.style.border = "2px solid rgba(255,255,255,0.5)";
+  input.style.background = "rgba(255,255,255,0.1)";
+  input.style.color = "#fff";
+  input.oninput = () => {
+    input.value = cleanInitials(input.value);
+  };
+  // Typing initials mustn't reach the game's key handlers
+  input.addEventListener("keydown", (e) => {
+    e.stopPropagation();
+    if (e.key === "Enter") submit();
+  });
+  el.appendChild(input);
+  el.appendChild(button("Enter", () => submit(), true));
+
+  function submit(): void {
+    const initials = cleanInitials(input.value);
+    if (initials.length === 0) {
+      input.focus();
+      return;
+    }
+    el.style.display = "none";
+    opts.onSubmit(initials);
+  }
+
+  return {
+    show: (rank, score, initials) => {
+      title.textContent = rank === 1 ? "Top Score!" : "New High Score";
+      sub.textContent = `${score} makes #${rank} on the board. Enter your initials`;
+      input.value = initials;
+      el.style.display = "flex";
+      input.focus();
+      input.select();
+    },
+    isOpen: () => el.style.display !== "none"
+  };
+}
@@ -0,0 +1,217 @@
+import { Scene } from "@babylonjs/core/scene";
+import { Mesh } from "@babylonjs/core/Meshes/mesh";
+import { MeshBuilder } from "@babylonjs/core/Meshes/meshBuilder";
+import { StandardMaterial } from "@babylonjs/core/Materials/standardMaterial";
+import { PBRMaterial } from "@babylonjs/core/Materials/PBR/pbrMaterial";
+import { Material } from "@babylonjs/core/Materials/material";
+import { Color3 } from "@babylonjs/core/Maths/math.color";
+
+// Board and rider customization. A loadout is plain data (ids and hex
+// colours) so it can be saved as JSON; the skater builds its board and
+// accessory meshes from it and recolours the rig or the GLB's materials.
+
+export type DeckShape = "popsicle" | "cruiser" | "longboard";
+export type Accessory = "none" | "cap" | "beanie" | "helmet" | "backpack";
+
+export type Loadout = {
+  deckGraphic: string; // id in DECK_GRAPHICS
+  deckShape: DeckShape;
+  wheelColor: string;  // "#rrggbb"
+  gripColor: string;
+  shirtColor: string;
+  pantsColor: string;
+  shoeColor: string;
+  accessory: Accessory;
+};
+
+// The graphic is painted on the underside: a base colour with a stripe band
+export type DeckGraphic = { id: string; name: string; base: string; stripe: string };
+
+export const DECK_GRAPHICS: DeckGraphic[] = [
+  { id: "plain", name: "Blank", base: "#2e3338", stripe: "#2e3338" },
+  { id: "sunset", name: "Sunset", base: "#ff7a45", stripe: "#ffd166" },
+  { id: "ocean", name: "Ocean", base: "#1d6fa3", stripe: "#9be7ff" },
+  { id: "toxic", name: "Toxic", base: "#2b2d2f", stripe: "#7cff4f" },
+  { id: "cherry", name: "Cherry", base: "#b0192f", stripe: "#f6f1e9" },
+  { id: "royal", name: "Royal", base: "#4b2a8a", stripe: "#f2c14e" }
+];
+
+export const DECK_SHAPES: { id: DeckShape; name: string; width: number; length: number; kick: number }[] = [
+  { id: "popsicle", name: "Popsicle", width: 0.28, length: 1.0, kick: 0.12 },
+  { id: "cruiser", name: "Cruiser", width: 0.3, length: 0.9, kick: 0.05 },
+  { id: "longboard", name: "Longboard", width: 0.3, length: 1.25, kick: 0 }
+];
+
+export const ACCESSORIES: { id: Accessory; name: string }[] = [
+  { id: "none", name: "None" },
+  { id: "cap", name: "Cap" },
+  { id: "beanie", name: "Beanie" },
+  { id: "helmet", name: "Helmet" },
+  { id: "backpack", name: "Backpack" }
+];
+
+// Swatches offered for each colour slot
+export const PALETTE = ["#f2f2f7", "#2b2b2b", "#e63946", "#f4a261", "#ffd166", "#2a9d8f", "#4cc9f0", "#3a86ff", "#8338ec", "#ff70a6"];
+
+export const DEFAULT_LOADOUT: Loadout = {
+  deckGraphic: "plain",
+  deckShape: "popsicle",
+  wheelColor: "#f2f2f7",
+  gripColor: "#2b2b2b",
+  shirtColor: "#f2f2f7",
+  pantsColor: "#f2f2f7",
+  shoeColor: "#2b2b2b",
+  accessory: "none"
+};
+
+const STORAGE_KEY = "skate-loadout";
+
+export function loadLoadout(): Loadout {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    // Merge over the defaults so loadouts saved before a new slot still load
+    if (raw) return { ...DEFAULT_LOADOUT, ...(JSON.parse(raw) as Partial<Loadout>) };
+  } catch {
+    // fall through to the default
+  }
+  return { ...DEFAULT_LOADOUT };
+}
+
+export function saveLoadout(loadout: Loadout): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(loadout));
+}
+
+export function deckGraphic(loadout: Loadout): DeckGraphic {
+  return DECK_GRAPHICS.find((g) => g.id === loadout.deckGraphic) ?? DECK_GRAPHICS[0];
+}
+
+export function deckShape(loadout: Loadout) {
+  return DECK_SHAPES.find((s) => s.id === loadout.deckShape) ?? DECK_SHAPES[0];
+}
+
+function material(name: string, hex: string, scene: Scene): StandardMaterial {
+  const mat = new StandardMaterial(name, scene);
+  mat.diffuseColor = Color3.FromHexString(hex);
+  mat.specularColor = new Color3(0.15, 0.15, 0.15);
+  return mat;
+}
+
+/**
+ * Deck with griptape, graphic, trucks and wheels. The deck is the returned
+ * mesh; everything else is parented to it so it flips and tumbles as one.
+ */
+export function buildBoard(loadout: Loadout, scene: Scene): Mesh {
+  const shape = deckShape(loadout);
+  const graphic = deckGraphic(loadout);
+  const deck = MeshBuilder.CreateBox("board", { width: shape.width, depth: shape.length, height: 0.04 }, scene);
+  deck.material = material("boardMat", graphic.base, scene);
+
+  const grip = MeshBuilder.CreateBox("boardGrip", { width: shape.width - 0.01, depth: shape.length - 0.02, height: 0.005 }, scene);
+  grip.material = material("boardGripMat", loadout.gripColor, scene);
+  grip.position.y = 0.022;
+  grip.parent = deck;
+
+  const stripe = MeshBuilder.CreateBox("boardStripe", { width: shape.width - 0.02, depth: shape.length * 0.3, height: 0.004 }, scene);
+  stripe.material = material("boardStripeMat", graphic.stripe, scene);
+  stripe.position.y = -0.021;
+  stripe.parent = deck;
+
+  // Kicked nose and tail
+  if (shape.kick > 0) {
+    for (const end of [-1, 1]) {
+      const tip = MeshBuilder.CreateBox("boardKick", { width: shape.width, depth: shape.kick, height: 0.04 }, scene);
+      tip.material = deck.material;
+      tip.position.set(0, 0.025, end * (shape.length * 0.5 + shape.kick * 0.45));
+      tip.rotation.x = end * -0.35;
+      tip.parent = deck;
+    }
+  }
+
+  const wheelMat = material("boardWheelMat", loadout.wheelColor, scene);
+  const truckMat = material("boardTruckMat", "#9aa0a6", scene);
+  const truckZ = shape.length * 0.32;
+  for (const z of [-truckZ, truckZ]) {
+    const truck = MeshBuilder.CreateBox("boardTruck", { width: shape.width * 0.8, depth: 0.05, height: 0.04 }, scene);
+    truck.material = truckMat;
+    truck.position.set(0, -0.045, z);
+    truck.parent = deck;
+    for (const x of [-1, 1]) {
+      const wheel = MeshBuilder.CreateCylinder("boardWheel", { diameter: 0.07, height: 0.045, tessellation: 12 }, scene);
+      wheel.material = wheelMat;
+      wheel.rotation.z = Math.PI / 2;
+      wheel.position.set(x * shape.width * 0.45, -0.065, z);
+      wheel.parent = deck;
+    }
+  }
+  return deck;
+}
+
+/** Accessory mesh for the rider, positioned relative to the head (or torso for a backpack); null for none. */
+export function buildAccessory(loadout: Loadout, scene: Scene): { mesh: Mesh; onHead: boolean } | null {
+  // Accessories pick up the deck graphic's stripe colour
+  const color = deckGraphic(loadout).stripe;
+  switch (loadout.accessory) {
+    case "cap": {
+      const cap = MeshBuilder.CreateSphere("accCap", { diameter: 0.27, slice: 0.5, segments: 10 }, scene);
+      const brim = MeshBuilder.CreateBox("accCapBrim", { width: 0.2, depth: 0.14, height: 0.015 }, scene);
+      brim.position.set(0, 0, -0.14);
+      brim.parent = cap;
+      cap.position.y = 0.03;
+      cap.material = brim.material = material("accMat", color, scene);
+      return { mesh: cap, onHead: true };
+    }
+    case "beanie": {
+      const beanie = MeshBuilder.CreateSphere("accBeanie", { diameter: 0.28, slice: 0.55, segments: 10 }, scene);
+      beanie.scaling.y = 1.25;
+      beanie.position.y = 0.03;
+      beanie.material = material("accMat", color, scene);
+      return { mesh: beanie, onHead: true };
+    }
+    case "helmet": {
+      const helmet = MeshBuilder.CreateSphere("accHelmet", { diameter: 0.31, slice: 0.55, segments: 12 }, scene);
+      helmet.position.y = 0.01;
+      helmet.material = material("accMat", color, scene);
+      return { mesh: helmet, onHead: true };
+    }
+    case "backpack": {
+      const pack = MeshBuilder.CreateBox("accBackpack", { width: 0.28, height: 0.34, depth: 0.14 }, scene);
+      pack.position.set(0, 0.02, 0.22);
+      pack.material = material("accMat", color, scene);
+      return { mesh: pack, onHead: false };
+    }
+    default:
+      return null;
+  }
+}
+
+// GLB material names each slot answers to (case-insensitive substrings)
+const MATERIAL_SLOTS: { names: string[]; color: (l: Loadout) => string }[] = [
+  { names: ["grip"], color: (l) => l.gripColor },
+  { names: ["wheel"], color: (l) => l.wheelColor },
+  { names: ["deck", "board"], color: (l) => deckGraphic(l).base },
+  { names: ["shirt", "top", "torso", "jacket", "hoodie"], color: (l) => l.shirtColor },
+  { names: ["pants", "trousers", "jeans", "shorts", "legs"], color: (l) => l.pantsColor },
+  { names: ["shoe", "sneaker", "foot"], color: (l) => l.shoeColor }
+];
+
+/** Recolour a loaded character's materials whose names match a loadout slot. */
+export function applyLoadoutToMaterials(materials: Material[], loadout: Loadout): void {
+  for (const mat of materials) {
+    const name = mat.name.toLowerCase();
+    const slot = MATERIAL_SLOTS.find((s) => s.names.some((n) => name.includes(n)));
+    if (!slot) continue;
+    const color = Color3.FromHexString(slot.color(loadout));
+    // PBR (what glTF imports as) tints albedo; standard materials tint diffuse
+    if (mat instanceof PBRMaterial) mat.albedoColor = color;
+    else if (mat instanceof StandardMaterial) mat.diffuseColor = color;
+  }
+}
+
+/** Rider colours for the fallback rig: shirt on the torso and arms, pants on hips and legs. */
+export function riderColors(loadout: Loadout): { shirt: Color3; pants: Color3; shoes: Color3 } {
+  return {
+    shirt: Color3.FromHexString(loadout.shirtColor),
+    pants: Color3.FromHexString(loadout.pantsColor),
+    shoes: Color3.FromHexString(loadout.shoeColor)
+  };
+}
@@ -1,4 +1,5 @@
 import { createEngine, createGameScene } from "./gameScene";
+import { createFixedStepper } from "./fixedStep";
 
 function getCanvas(): HTMLCanvasElement {
   const canvas = document.getElementById("game-canvas") as HTMLCanvasElement | null;
@@ -11,7 +12,8 @@ function getCanvas(): HTMLCanvasElement {
 async function bootstrap(): Promise<void> {
   const canvas = getCanvas();
   const engine = createEngine(canvas);
-  const { scene, update, isPaused, isStarted } = createGameScene(engine);
+  const { scene, update, render, isPaused, isStarted } = createGameScene(engine);
+  const stepper = createFixedStepper(update);
 
   // Render loop
   let lastTime = performance.now();
@@ -20,9 +22,13 @@ async function bootstrap(): Promise<void> {
     const deltaSeconds = (now - lastTime) / 1000;
     lastTime = now;
 
-    // Only update game logic if started and not paused
+    // Only update game logic if started and not paused; the simulation runs
+    // in fixed steps and rendering blends between the last two of them
     if (isStarted() && !isPaused()) {
-      update(deltaSeconds);
+      const alpha = stepper.advance(deltaSeconds);
+      render(deltaSeconds, alpha);
+    } else {
+      stepper.reset();
     }
     // Always render the scene (so we can see the game world even when paused)
     scene.render();
@@ -0,0 +1,63 @@
+// Game modes picked on the start menu. A run is configured entirely by its
+// mode (and, for timed runs, the chosen length); gameScene reads these flags
+// rather than hard-coded constants.
+
+export type GameModeId = "classic" | "free" | "story" | "versus" | "horse";
+
+export type GameMode = {
+  id: GameModeId;
+  name: string;
+  description: string;
+  timed: boolean;      // clock runs down and ends the run
+  scored: boolean;     // score shown and counted toward the best
+  storyFocus: boolean; // run ends once every story is found
+  players: 1 | 2;      // two-player modes run split-screen (see splitScreen.ts)
+};
+
+export const GAME_MODES: GameMode[] = [
+  { id: "classic", name: "Classic", description: "Score as much as you can before the clock runs out.", timed: true, scored: true, storyFocus: false, players: 1 },
+  { id: "free", name: "Free Skate", description: "No timer, no score. Just practice.", timed: false, scored: false, storyFocus: false, players: 1 },
+  { id: "story", name: "Story Mode", description: "Explore the block and find every story. No clock.", timed: false, scored: false, storyFocus: true, players: 1 },
+  // Split-screen: scores are per player, so nothing counts toward the solo best
+  { id: "versus", name: "Head to Head", description: "Two players, split screen: top score when the clock runs out wins.", timed: true, scored: false, storyFocus: false, players: 2 },
+  { id: "horse", name: "H.O.R.S.E.", description: "Two players, split screen: set a trick, match it or take a letter.", timed: false, scored: false, storyFocus: false, players: 2 }
+];
+
+export const RUN_LENGTHS = [60, 120, 180, 300]; // seconds, for timed modes
+
+export type RunConfig = {
+  mode: GameModeId;
+  runLength: number;
+};
+
+export const DEFAULT_RUN_CONFIG: RunConfig = { mode: "classic", runLength: 120 };
+
+const STORAGE_KEY = "skate-mode";
+
+export function getMode(id: GameModeId): GameMode {
+  return GAME_MODES.find((m) => m.id === id) ?? GAME_MODES[0];
+}
+
+export function loadRunConfig(): RunConfig {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const data = JSON.parse(raw) as Partial<RunConfig>;
+      const mode = GAME_MODES.some((m) => m.id === data.mode) ? (data.mode as GameModeId) : DEFAULT_RUN_CONFIG.mode;
+      const runLength = RUN_LENGTHS.includes(data.runLength as number) ? (data.runLength as number) : DEFAULT_RUN_CONFIG.runLength;
+      return { mode, runLength };
+    }
+  } catch {
+    // fall through to the default
+  }
+  return { ...DEFAULT_RUN_CONFIG };
+}
+
+export function saveRunConfig(config: RunConfig): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+}
+
+/** Where the best score for a config is kept: one per run length (the original 2-minute key stays as it was). */
+export function bestScoreKey(config: RunConfig): string {
+  return config.runLength === DEFAULT_RUN_CONFIG.runLength ? "skate-best" : `skate-best-${config.runLength}`;
+}
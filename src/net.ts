@@ -0,0 +1,298 @@
+import { Scene } from "@babylonjs/core/scene";
+import { Mesh } from "@babylonjs/core/Meshes/mesh";
+import { MeshBuilder } from "@babylonjs/core/Meshes/meshBuilder";
+import { StandardMaterial } from "@babylonjs/core/Materials/standardMaterial";
+import { DynamicTexture } from "@babylonjs/core/Materials/Textures/dynamicTexture";
+import { Color3 } from "@babylonjs/core/Maths/math.color";
+import { SkaterController, SkaterPose } from "./skater";
+import { packPose, unpackPose } from "./ghost";
+import { ClientMessage, NET_PROTOCOL_VERSION, NetBattle, NetPlayer, NetScore, NetState, ServerMessage, parseMessage } from "./netProtocol";
+
+// Online sessions through the relay (server/relay.ts). Our skater's state goes
+// out at a fixed rate; remote skaters are shown on the fallback rig, rendered
+// a little in the past and interpolated between snapshots (extrapolated along
+// their velocity for a moment if snapshots run late). Snapshot and trick
+// times are on the relay's clock, estimated from ping/pong.
+
+const SEND_RATE = 20;          // snapshots per second
+const INTERP_DELAY = 100;      // ms behind the relay clock that remote skaters are drawn
+const MAX_EXTRAPOLATION = 250; // ms past the last snapshot before a remote skater holds still
+const BUFFER_TIME = 1000;      // ms of snapshots kept per remote skater
+const PING_INTERVAL = 2000;
+const PING_SAMPLES = 8;
+const TRICK_TAG_TIME = 1.5;
+
+export type NetStatus = "offline" | "connecting" | "online";
+
+export type NetSession = {
+  connect: (url: string, name: string) => void;
+  disconnect: () => void;
+  status: () => NetStatus;
+  /** Why the last connection ended, if it wasn't us leaving. */
+  error: () => string | null;
+  selfId: () => string | null;
+  players: () => NetPlayer[];
+  scores: () => NetScore[];
+  /** Count-in or time left in the trick battle; null with no battle running. */
+  battleClock: () => { phase: "countdown" | "running"; seconds: number } | null;
+  /** Per fixed step: send our state at the snapshot rate. */
+  update: (dt: number, skater: SkaterController) => void;
+  /** Per rendered frame: place remote skaters. */
+  render: () => void;
+  sendTrick: (name: string, points: number) => void;
+  startBattle: (seconds: number) => void;
+};
+
+type Remote = {
+  info: NetPlayer;
+  rig: SkaterController;
+  tag: Mesh;
+  tex: DynamicTexture;
+  buffer: NetState[];
+  trick: { name: string; until: number } | null;
+};
+
+export function createNetSession(
+  scene: Scene,
+  opts: {
+    /** Lobby, scores or battle changed. */
+    onChange: () => void;
+    /** Something worth a popup (joins, leaves, battle start/end). */
+    onNotice: (text: string) => void;
+  }
+): NetSession {
+  let ws: WebSocket | null = null;
+  let status: NetStatus = "offline";
+  let error: string | null = null;
+  let selfId: string | null = null;
+  let players: NetPlayer[] = [];
+  let scores: NetScore[] = [];
+  let battle: NetBattle | null = null;
+  const remotes = new Map<string, Remote>();
+  let sendAccum = 0;
+  let pingTimer = 0;
+  // Relay clock = Date.now() + offset, from the lowest-latency recent ping
+  let offset = 0;
+  const pings: { rtt: number; offset: number }[] = [];
+
+  const relayNow = () => Date.now() + offset;
+
+  function send(msg: ClientMessage): void {
+    if (ws && ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(msg));
+  }
+
+  function drawTag(r: Remote): void {
+    r.tex.clear();
+    r.tex.drawText(r.info.name, null, 52, "bold 44px sans-serif", "#ffffff", "transparent", true);
+    if (r.trick) r.tex.drawText(r.trick.name, null, 110, "bold 40px sans-serif", "#ffd166", "transparent", true);
+  }
+
+  function addRemote(info: NetPlayer): void {
+    if (info.id === selfId || remotes.has(info.id)) return;
+    const rig = new SkaterController(scene, { headless: true });
+    const root = rig.getRoot();
+    root.setEnabled(false);
+    const tag = MeshBuilder.CreatePlane(`netTag${info.id}`, { width: 2.4, height: 0.6 }, scene);
+    tag.billboardMode = Mesh.BILLBOARDMODE_ALL;
+    tag.isPickable = false;
+    tag.parent = root;
+    tag.position.y = 1.4;
+    const tex = new DynamicTexture(`netTagTex${info.id}`, { width: 512, height: 128 }, scene, false);
+    tex.hasAlpha = true;
+    const mat = new StandardMaterial(`netTagMat${info.id}`, scene);
+    mat.diffuseTexture = tex;
+    mat.emissiveColor = new Color3(1, 1, 1);
+    mat.disableLighting = true;
+    mat.useAlphaFromDiffuseTexture = true;
+    mat.backFaceCulling = false;
+    tag.material = mat;
+    const remote: Remote = { info, rig, tag, tex, buffer: [], trick: null };
+    drawTag(remote);
+    remotes.set(info.id, remote);
+  }
+
+  function removeRemote(id: string): void {
+    const r = remotes.get(id);
+    if (!r) return;
+    r.tag.dispose(false, true);
+    r.rig.getRoot().dispose(false, true);
+    remotes.delete(id);
+  }
+
+  function nameOf(id: string): string {
+    return players.find((p) => p.id === id)?.name ?? "Skater";
+  }
+
+  function onMessage(msg: ServerMessage): void {
+    switch (msg.t) {
+      case "welcome":
+        status = "online";
+        selfId = msg.id;
+        players = msg.players;
+        scores = msg.scores;
+        battle = msg.battle;
+        for (const p of players) addRemote(p);
+        ping();
+        break;
+      case "reject":
+        error = msg.reason;
+        break;
+      case "joined":
+        players = [...players.filter((p) => p.id !== msg.player.id), msg.player];
+        addRemote(msg.player);
+        opts.onNotice(`${msg.player.name} joined`);
+        break;
+      case "left":
+        opts.onNotice(`${nameOf(msg.id)} left`);
+        players = players.filter((p) => p.id !== msg.id);
+        removeRemote(msg.id);
+        break;
+      case "state": {
+        const r = remotes.get(msg.id);
+        if (!r) return;
+        r.buffer.push(msg.s);
+        // Snapshots can arrive out of order; keep them sorted by relay time
+        r.buffer.sort((a, b) => a.at - b.at);
+        const cutoff = relayNow() - BUFFER_TIME;
+        while (r.buffer.length > 2 && r.buffer[0].at < cutoff) r.buffer.shift();
+        return;
+      }
+      case "trick": {
+        const r = remotes.get(msg.id);
+        if (!r) return;
+        r.trick = { name: msg.points > 0 ? `${msg.name} +${msg.points}` : msg.name, until: performance.now() + TRICK_TAG_TIME * 1000 };
+        drawTag(r);
+        return;
+      }
+      case "battle":
+        battle = msg.battle;
+        opts.onNotice("Trick battle! Get ready...");
+        break;
+      case "scores":
+        scores = msg.scores;
+        break;
+      case "battleEnd":
+        battle = null;
+        scores = msg.scores;
+        opts.onNotice(scores.length ? `Battle over: ${scores[0].name} wins with ${scores[0].score}` : "Battle over");
+        break;
+      case "pong": {
+        const rtt = Date.now() - msg.sent;
+        pings.push({ rtt, offset: msg.now - (msg.sent + rtt / 2) });
+        if (pings.length > PING_SAMPLES) pings.shift();
+        offset = pings.reduce((best, p) => (p.rtt < best.rtt ? p : best)).offset;
+        return;
+      }
+    }
+    opts.onChange();
+  }
+
+  function ping(): void {
+    send({ t: "ping", sent: Date.now() });
+  }
+
+  function reset(): void {
+    ws = null;
+    status = "offline";
+    selfId = null;
+    players = [];
+    scores = [];
+    battle = null;
+    pings.length = 0;
+    offset = 0;
+    window.clearInterval(pingTimer);
+    for (const id of [...remotes.keys()]) removeRemote(id);
+  }
+
+  return {
+    connect: (url, name) => {
+      if (ws) return;
+      error = null;
+      status = "connecting";
+      let socket: WebSocket;
+      try {
+        socket = new WebSocket(url);
+      } catch {
+        error = "That isn't a relay address";
+        status = "offline";
+        opts.onChange();
+        return;
+      }
+      ws = socket;
+      socket.onopen = () => {
+        send({ t: "join", version: NET_PROTOCOL_VERSION, name });
+        pingTimer = window.setInterval(ping, PING_INTERVAL);
+      };
+      socket.onmessage = (e) => {
+        const msg = parseMessage<ServerMessage>(String(e.data));
+        if (msg && ws === socket) onMessage(msg);
+      };
+      socket.onclose = () => {
+        if (ws !== socket) return;
+        if (status === "connecting" && !error) error = "Couldn't reach the relay";
+        else if (status === "online" && !error) error = "Lost the connection to the relay";
+        reset();
+        opts.onChange();
+      };
+      opts.onChange();
+    },
+    disconnect: () => {
+      const socket = ws;
+      reset();
+      socket?.close();
+      opts.onChange();
+    },
+    status: () => status,
+    error: () => error,
+    selfId: () => selfId,
+    players: () => players,
+    scores: () => scores,
+    battleClock: () => {
+      if (!battle) return null;
+      const now = relayNow();
+      if (now < battle.startsAt) return { phase: "countdown", seconds: (battle.startsAt - now) / 1000 };
+      return { phase: "running", seconds: Math.max(0, (battle.endsAt - now) / 1000) };
+    },
+    update: (dt, skater) => {
+      if (status !== "online") return;
+      sendAccum += dt;
+      if (sendAccum < 1 / SEND_RATE) return;
+      sendAccum %= 1 / SEND_RATE;
+      const v = skater.getVelocity();
+      send({ t: "state", s: { at: relayNow(), v: [v.x, v.y, v.z], pose: packPose(skater.getPose()) } });
+    },
+    render: () => {
+      const renderAt = relayNow() - INTERP_DELAY;
+      const clock = performance.now();
+      for (const r of remotes.values()) {
+        if (r.trick && clock > r.trick.until) {
+          r.trick = null;
+          drawTag(r);
+        }
+        const buf = r.buffer;
+        r.rig.getRoot().setEnabled(buf.length > 0);
+        if (!buf.length) continue;
+        let pose: SkaterPose;
+        const last = buf[buf.length - 1];
+        if (buf.length === 1 || renderAt >= last.at) {
+          // Late: carry on along the last known velocity for a moment
+          pose = unpackPose(last.pose, last.pose, 0);
+          const ahead = Math.min(Math.max(0, renderAt - last.at), MAX_EXTRAPOLATION) / 1000;
+          pose.position.set(pose.position.x + last.v[0] * ahead, pose.position.y + last.v[1] * ahead, pose.position.z + last.v[2] * ahead);
+        } else {
+          let i = buf.length - 2;
+          while (i > 0 && buf[i].at > renderAt) i--;
+          const a = buf[i];
+          const b = buf[i + 1];
+          const f = b.at > a.at ? Math.min(1, Math.max(0, (renderAt - a.at) / (b.at - a.at))) : 1;
+          pose = unpackPose(a.pose, b.pose, f);
+        }
+        r.rig.setPose(pose);
+      }
+    },
+    sendTrick: (name, points) => {
+      if (status === "online") send({ t: "trick", at: relayNow(), name, points });
+    },
+    startBattle: (seconds) => send({ t: "battle", seconds })
+  };
+}
@@ -0,0 +1,197 @@
+import { NetSession } from "./net";
+import { BATTLE_LENGTHS, DEFAULT_RELAY_PORT, MAX_NAME_LENGTH } from "./netProtocol";
+
+// Online panel: relay address and name to join, then the lobby (who's in,
+// trick battle controls, battle clock and scoreboard). It stays up in the
+// corner while connected so the scoreboard is visible mid-session.
+
+export type NetPanel = {
+  show: () => void;
+  hide: () => void;
+  isOpen: () => boolean;
+  /** Redraw from the session (lobby changed). */
+  refresh: () => void;
+  /** Per rendered frame: the battle clock. */
+  tick: () => void;
+};
+
+const NAME_KEY = "skate-net-name";
+const URL_KEY = "skate-net-url";
+
+function defaultRelayUrl(): string {
+  return `ws://${location.hostname || "localhost"}:${DEFAULT_RELAY_PORT}`;
+}
+
+export function createNetPanel(opts: { net: NetSession; onJoin: () => void; onClose: () => void }): NetPanel {
+  const { net } = opts;
+
+  const panel = document.createElement("div");
+  panel.id = "net-panel";
+  panel.style.position = "fixed";
+  panel.style.left = "16px";
+  panel.style.top = "112px";
+  panel.style.width = "260px";
+  panel.style.boxSizing = "border-box";
+  panel.style.padding = "14px 16px";
+  panel.style.borderRadius = "10px";
+  panel.style.background = "rgba(0, 0, 0, 0.78)";
+  panel.style.color = "#fff";
+  panel.style.fontFamily = "system-ui, sans-serif";
+  panel.style.fontSize = "13px";
+  panel.style.display = "none";
+  panel.style.flexDirection = "column";
+  panel.style.gap = "8px";
+  panel.style.zIndex = "1001";
+  document.body.appendChild(panel);
+
+  const clockEl = document.createElement("div");
+  clockEl.style.fontWeight = "700";
+  clockEl.style.fontSize = "16px";
+  let clockText = "";
+
+  function button(text: string, onClick: () => void, primary = false): HTMLButtonElement {
+    const b = document.createElement("button");
+    b.textContent = text;
+    b.style.padding = "6px 12px";
+    b.style.borderRadius = "6px";
+    b.style.border = primary ? "none" : "1px solid rgba(255,255,255,0.4)";
+    b.style.background = primary ? "linear-gradient(135deg, #667eea 0%, #764ba2 100%)" : "transparent";
+    b.style.color = "#fff";
+    b.style.fontWeight = "600";
+    b.style.cursor = "pointer";
+    b.onclick = onClick;
+    return b;
+  }
+
+  function field(label: string, value: string, maxLength?: number): HTMLInputElement {
+    const l = document.createElement("label");
+    l.textContent = label;
+    l.style.color = "#bbb";
+    const input = document.createElement("input");
+    input.value = value;
+    if (maxLength) input.maxLength = maxLength;
+    input.style.display = "block";
+    input.style.width = "100%";
+    input.style.boxSizing = "border-box";
+    input.style.marginTop = "3px";
+    input.style.padding = "5px 8px";
+    input.style.borderRadius = "6px";
+    input.style.border = "1px solid rgba(255,255,255,0.3)";
+    input.style.background = "rgba(255,255,255,0.1)";
+    input.style.color = "#fff";
+    // Typing here mustn't steer the skater
+    input.addEventListener("keydown", (e) => e.stopPropagation());
+    l.appendChild(input);
+    panel.appendChild(l);
+    return input;
+  }
+
+  function row(...buttons: HTMLButtonElement[]): void {
+    const r = document.createElement("div");
+    r.style.display = "flex";
+    r.style.flexWrap = "wrap";
+    r.style.gap = "6px";
+    for (const b of buttons) r.appendChild(b);
+    panel.appendChild(r);
+  }
+
+  function renderJoin(): void {
+    const title = document.createElement("div");
+    title.textContent = net.status() === "connecting" ? "Connecting..." : "Skate Online";
+    title.style.fontWeight = "700";
+    title.style.fontSize = "16px";
+    panel.appendChild(title);
+    const url = field("Relay", localStorage.getItem(URL_KEY) || defaultRelayUrl());
+    const name = field("Name", localStorage.getItem(NAME_KEY) || "", MAX_NAME_LENGTH);
+    const err = net.error();
+    if (err) {
+      const e = document.createElement("div");
+      e.textContent = err;
+      e.style.color = "#ff8a8a";
+      panel.appendChild(e);
+    }
+    row(
+      button("Join", () => {
+        localStorage.setItem(URL_KEY, url.value.trim());
+        localStorage.setItem(NAME_KEY, name.value.trim());
+        net.connect(url.value.trim(), name.value.trim());
+        opts.onJoin();
+      }, true),
+      button("Close", () => menu.hide())
+    );
+  }
+
+  function renderLobby(): void {
+    const title = document.createElement("div");
+    title.textContent = `Lobby (${net.players().length})`;
+    title.style.fontWeight = "700";
+    title.style.fontSize = "16px";
+    panel.appendChild(title);
+    panel.appendChild(clockEl);
+    // Scoreboard: everyone in the lobby, battle points first
+    const board = document.createElement("div");
+    board.style.display = "grid";
+    board.style.gridTemplateColumns = "1fr auto";
+    board.style.gap = "3px 12px";
+    const scores = net.scores();
+    const listed = scores.length ? scores : net.players().map((p) => ({ ...p, score: 0 }));
+    for (const s of listed) {
+      const n = document.createElement("div");
+      n.textContent = s.id === net.selfId() ? `${s.name} (you)` : s.name;
+      if (s.id === net.selfId()) n.style.color = "#ffd166";
+      const v = document.createElement("div");
+      v.textContent = String(s.score);
+      v.style.fontWeight = "700";
+      board.appendChild(n);
+      board.appendChild(v);
+    }
+    panel.appendChild(board);
+    if (!net.battleClock()) {
+      const label = document.createElement("div");
+      label.textContent = "Start a trick battle";
+      label.style.color = "#bbb";
+      panel.appendChild(label);
+      row(...BATTLE_LENGTHS.map((s) => button(`${s / 60} min`, () => net.startBattle(s))));
+    }
+    row(button("Leave", () => net.disconnect()));
+  }
+
+  function refresh(): void {
+    panel.innerHTML = "";
+    clockText = "";
+    if (net.status() === "online") renderLobby();
+    else renderJoin();
+    tick();
+  }
+
+  function tick(): void {
+    if (panel.style.display === "none") return;
+    const clock = net.battleClock();
+    let text = "";
+    if (clock?.phase === "countdown") text = `Battle starts in ${Math.ceil(clock.seconds)}`;
+    else if (clock) {
+      const s = Math.ceil(clock.seconds);
+      text = `Battle ${Math.floor(s / 60)}:${s % 60 < 10 ? "0" : ""}${s % 60}`;
+    }
+    if (text !== clockText) {
+      clockText = text;
+      clockEl.textContent = text;
+    }
+  }
+
+  const menu: NetPanel = {
+    show: () => {
+      panel.style.display = "flex";
+      refresh();
+    },
+    hide: () => {
+      if (panel.style.display === "none") return;
+      panel.style.display = "none";
+      opts.onClose();
+    },
+    isOpen: () => panel.style.display !== "none",
+    refresh,
+    tick
+  };
+  return menu;
+}
@@ -0,0 +1,52 @@
+// Wire format shared by the relay server (server/relay.ts) and the client net
+// layer (net.ts). Every message is one JSON object with a `t` tag. Times on
+// the wire are the relay's clock in milliseconds; clients estimate their
+// offset to it from ping/pong.
+
+export const NET_PROTOCOL_VERSION = 1;
+export const DEFAULT_RELAY_PORT = 8787;
+export const MAX_NAME_LENGTH = 12;
+export const BATTLE_LENGTHS = [60, 120, 180]; // seconds
+
+/** One skater snapshot: position, velocity, heading and the packed pose (ghost frame layout, see ghost.ts). */
+export type NetState = {
+  at: number;       // relay time the snapshot was taken
+  v: number[];      // velocity x, y, z
+  pose: number[];   // x, y, z, rotX, rotY, rotZ, boardRotX, boardRotY, boardRotZ, boardY, crouch, state...
+};
+
+export type NetPlayer = { id: string; name: string };
+
+export type NetScore = { id: string; name: string; score: number };
+
+/** A trick battle round; scores only count tricks landed between start and end. */
+export type NetBattle = { startsAt: number; endsAt: number };
+
+export type ClientMessage =
+  | { t: "join"; version: number; name: string }
+  | { t: "state"; s: NetState }
+  | { t: "trick"; at: number; name: string; points: number }
+  | { t: "battle"; seconds: number }
+  | { t: "ping"; sent: number };
+
+export type ServerMessage =
+  | { t: "welcome"; id: string; players: NetPlayer[]; battle: NetBattle | null; scores: NetScore[] }
+  | { t: "reject"; reason: string }
+  | { t: "joined"; player: NetPlayer }
+  | { t: "left"; id: string }
+  | { t: "state"; id: string; s: NetState }
+  | { t: "trick"; id: string; name: string; points: number }
+  | { t: "battle"; battle: NetBattle }
+  | { t: "scores"; scores: NetScore[] }
+  | { t: "battleEnd"; scores: NetScore[] }
+  | { t: "pong"; sent: number; now: number };
+
+/** Parse one message; null for anything malformed (the relay never trusts clients). */
+export function parseMessage<T extends { t: string }>(raw: string): T | null {
+  try {
+    const data = JSON.parse(raw) as T;
+    return data && typeof data === "object" && typeof data.t === "string" ? data : null;
+  } catch {
+    return null;
+  }
+}
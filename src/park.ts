@@ -6,6 +6,8 @@ import { PBRMaterial } from "@babylonjs/core/Materials/PBR/pbrMaterial";
 import { Color3 } from "@babylonjs/core/Maths/math.color";
 import { Vector3 } from "@babylonjs/core/Maths/math.vector";
 import { TransformNode } from "@babylonjs/core/Meshes/transformNode";
+import { boxTopEdges, createRailMesh } from "./rails";
+import { TransitionOptions, createTransition, createTransitionMeshes } from "./transitions";
 
 export function buildPark(scene: Scene): { root: TransformNode; shadowCasters: Mesh[] } {
   const root = new TransformNode("parkRoot", scene);
@@ -40,13 +42,13 @@ export function buildPark(scene: Scene): { root: TransformNode; shadowCasters: M
               const b = MeshBuilder.CreateGround(`g_r_${x}_${y}`, { width: cell, height: cell }, scene);
               b.position.set(px, 0, pz);
               b.material = mat("mRoad", new Color3(0.15, 0.15, 0.16));
-              (b as any).metadata = { isGround: true };
+              (b as any).metadata = { isGround: true, isPlayArea: true };
               b.setParent(root);
             } else if (t === "sidewalk") {
               const b = MeshBuilder.CreateBox(`g_s_${x}_${y}`, { width: cell, depth: cell, height: 0.2 }, scene);
               b.position.set(px, 0.1, pz);
               b.material = mat("mSidewalk", new Color3(0.7, 0.72, 0.74));
-              (b as any).metadata = { isGround: true };
+              (b as any).metadata = { isGround: true, isPlayArea: true };
               b.setParent(root);
             } else if (t === "ledge") {
               const b = MeshBuilder.CreateBox(`g_l_${x}_${y}`, { width: cell * 0.9, depth: cell * 0.5, height: 0.5 }, scene);
@@ -112,7 +114,8 @@ export function buildPark(scene: Scene): { root: TransformNode; shadowCasters: M
   pad.material = bikeLane;
   pad.receiveShadows = true;
   pad.setParent(root);
-  (pad as any).metadata = { isGround: true };
+  // The pad (plus any imported grid tiles) is where the skater may roll; see playAreaBounds
+  (pad as any).metadata = { isGround: true, isPlayArea: true };
 
   const border = MeshBuilder.CreateGround("border", { width: PAD_W + 12, height: PAD_H + 12, subdivisions: 2 }, scene);
   border.position.y = -0.01;
@@ -127,14 +130,14 @@ export function buildPark(scene: Scene): { root: TransformNode; shadowCasters: M
   curbLeft.material = curbMat;
   curbLeft.receiveShadows = true;
   curbLeft.setParent(root);
-  (curbLeft as any).metadata = { isGround: true };
+  (curbLeft as any).metadata = { isGround: true, grindEdges: boxTopEdges(0.3, 0.3, PAD_H - 12, ["center"]) };
 
   const curbRight = MeshBuilder.CreateBox("curbRight", { width: 0.3, depth: PAD_H - 12, height: 0.3 }, scene);
   curbRight.position.set((PAD_W * 0.5) - 6, 0.15, 0);
   curbRight.material = curbMat;
   curbRight.receiveShadows = true;
   curbRight.setParent(root);
-  (curbRight as any).metadata = { isGround: true };
+  (curbRight as any).metadata = { isGround: true, grindEdges: boxTopEdges(0.3, 0.3, PAD_H - 12, ["center"]) };
 
   // Ledges on sides
   const ledge1 = MeshBuilder.CreateBox("ledge1", { width: 1.0, depth: 10, height: 0.6 }, scene);
@@ -142,14 +145,14 @@ export function buildPark(scene: Scene): { root: TransformNode; shadowCasters: M
   ledge1.material = curbMat;
   ledge1.receiveShadows = true;
   ledge1.setParent(root);
-  (ledge1 as any).metadata = { isGround: true };
+  (ledge1 as any).metadata = { isGround: true, grindEdges: boxTopEdges(1.0, 0.6, 10, ["left", "right"]) };
 
   const ledge2 = MeshBuilder.CreateBox("ledge2", { width: 1.0, depth: 10, height: 0.5 }, scene);
   ledge2.position.set((PAD_W * 0.5) - 8, 0.25, PAD_H * 0.2);
   ledge2.material = curbMat;
   ledge2.receiveShadows = true;
   ledge2.setParent(root);
-  (ledge2 as any).metadata = { isGround: true };
+  (ledge2 as any).metadata = { isGround: true, grindEdges: boxTopEdges(1.0, 0.5, 10, ["left", "right"]) };
 
   // Rails (grindable props)
   const rail1 = MeshBuilder.CreateCylinder("rail1", { diameter: 0.12, height: 10, tessellation: 12 }, scene);
@@ -195,6 +198,45 @@ export function buildPark(scene: Scene): { root: TransformNode; shadowCasters: M
     radius: 0.06
   };
 
+  // Kinked handrail: flat, down, flat (polyline rail)
+  const kinkPoints = [
+    new Vector3(20, 1.1, -40),
+    new Vector3(20, 1.1, -35),
+    new Vector3(20, 0.5, -29),
+    new Vector3(20, 0.5, -24)
+  ];
+  const kinkRail = createRailMesh("kinkRail", kinkPoints, 0.06, scene);
+  kinkRail.material = railMat;
+  kinkRail.receiveShadows = true;
+  kinkRail.setParent(root);
+  (kinkRail as any).metadata = { isGround: true, isRail: true, points: kinkPoints, radius: 0.06 };
+  shadowCasters.push(kinkRail);
+
+  // Curved rail sweeping around the corner (Catmull-Rom spline)
+  const curvePoints = [
+    new Vector3(-24, 0.5, 22),
+    new Vector3(-23, 0.5, 29),
+    new Vector3(-19, 0.5, 34),
+    new Vector3(-12, 0.5, 36)
+  ];
+  const curveRail = createRailMesh("curveRail", curvePoints, 0.06, scene, true);
+  curveRail.material = railMat;
+  curveRail.receiveShadows = true;
+  curveRail.setParent(root);
+  (curveRail as any).metadata = { isGround: true, isRail: true, points: curvePoints, curve: "catmull", radius: 0.06 };
+  shadowCasters.push(curveRail);
+
+  // Rail posts so the new rails don't float
+  const postPoints = [...kinkPoints, curvePoints[0], curvePoints[3]];
+  postPoints.forEach((pt, i) => {
+    const post = MeshBuilder.CreateCylinder(`railPost_${i}`, { diameter: 0.08, height: pt.y }, scene);
+    post.position.set(pt.x, pt.y * 0.5, pt.z);
+    post.material = railMat;
+    post.setParent(root);
+    // Solid under the rail (grinding rides over the top of them)
+    post.metadata = { isSolid: true, collider: "cylinder" };
+  });
+
   // Long side banks and mini ramp
   const SIDE_LEN = PAD_H - 18;
   function longBank(name: string, x: number, z: number, rotY: number): Mesh {
@@ -212,35 +254,26 @@ export function buildPark(scene: Scene): { root: TransformNode; shadowCasters: M
   longBank("bankLeft", -(PAD_W * 0.5) + 8, 0, 0);
   longBank("bankRight", (PAD_W * 0.5) - 8, 0, 0);
 
-  function quarter(name: string, cx: number, cz: number, rotY: number): Mesh {
-    const q = MeshBuilder.CreateBox(name, { width: 6, depth: 4, height: 2.2 }, scene);
-    q.position.set(cx, 1.1, cz);
-    q.rotation.y = rotY;
-    q.rotation.x = -Math.PI / 6;
-    q.material = sidewalk;
-    q.receiveShadows = true;
-    q.setParent(root);
-    (q as any).metadata = { isGround: true };
-    shadowCasters.push(q);
-    return q;
-  }
-  // Tall vert walls at far ends
-  function vertWall(name: string, cz: number): void {
-    const w = MeshBuilder.CreateBox(name, { width: 20, depth: 6, height: 6.0 }, scene);
-    w.position.set(0, 3.0, cz);
-    w.rotation.x = -Math.PI / 4.5;
-    w.material = sidewalk;
-    w.receiveShadows = true;
-    w.setParent(root);
-    (w as any).metadata = { isGround: true };
-    shadowCasters.push(w);
+  // Curved transitions: each gets a ridden surface, a deck behind the coping and the coping pipe
+  function transition(name: string, opts: TransitionOptions): void {
+    const t = createTransition(opts);
+    const { surface, deck, coping } = createTransitionMeshes(name, t, scene);
+    surface.material = sidewalk;
+    surface.receiveShadows = true;
+    deck.material = curbMat;
+    deck.receiveShadows = true;
+    coping.material = railMat;
+    for (const m of [surface, deck, coping]) m.setParent(root);
+    shadowCasters.push(surface, deck);
   }
-  vertWall("vertNorth", -(PAD_H * 0.5) + 10);
-  vertWall("vertSouth", (PAD_H * 0.5) - 10);
+  // Vert walls at the far ends, facing the middle of the pad
+  transition("vertNorth", { position: new Vector3(0, 0, -(PAD_H * 0.5) + 12), yaw: 0, radius: 1.9, vert: 0.3, width: 20, deck: 3 });
+  transition("vertSouth", { position: new Vector3(0, 0, (PAD_H * 0.5) - 12), yaw: Math.PI, radius: 1.9, vert: 0.3, width: 20, deck: 3 });
 
-  // Mini on one side
-  quarter("miniQ1", -10, -PAD_H * 0.15, 0);
-  quarter("miniQ2", -10, -PAD_H * 0.20, Math.PI);
+  // Mini ramp on one side: two quarters facing each other across a short flat
+  const miniZ = -PAD_H * 0.175;
+  transition("miniQ1", { position: new Vector3(-10, 0, miniZ + 1.2), yaw: Math.PI, radius: 1.4, arc: Math.PI * 4 / 9, width: 6, deck: 1.5 });
+  transition("miniQ2", { position: new Vector3(-10, 0, miniZ - 1.2), yaw: 0, radius: 1.4, arc: Math.PI * 4 / 9, width: 6, deck: 1.5 });
 
   // Center pyramid and funbox
   const pyramidBase = MeshBuilder.CreateBox("pyramidBase", { width: 6, depth: 6, height: 0.5 }, scene);
@@ -269,7 +302,7 @@ export function buildPark(scene: Scene): { root: TransformNode; shadowCasters: M
   funTop.position.set(0, 0.75, 14);
   funTop.material = sidewalk;
   funTop.setParent(root);
-  (funTop as any).metadata = { isGround: true };
+  (funTop as any).metadata = { isGround: true, grindEdges: boxTopEdges(9.2, 0.5, 4.2, ["left", "right", "front", "back"]) };
   shadowCasters.push(funTop);
 
   return { root, shadowCasters };
@@ -0,0 +1,109 @@
+import { SkaterController } from "./skater";
+
+// Skater profiles: named sets of the controller's physics parameters. Pick
+// one from the start menu; the dev tuning panel exports new ones in this
+// same shape, ready to paste into PROFILES.
+
+export type PhysicsParams = {
+  MAX_SPEED_FLAT: number;
+  ACCELERATION: number;
+  TURN_SPEED: number;
+  FRICTION: number;
+  GRAVITY: number;
+  JUMP_FORCE: number;
+};
+
+export const PHYSICS_KEYS: (keyof PhysicsParams)[] = ["MAX_SPEED_FLAT", "ACCELERATION", "TURN_SPEED", "FRICTION", "GRAVITY", "JUMP_FORCE"];
+
+export type SkaterProfile = {
+  id: string;
+  name: string;
+  description: string;
+  physics: PhysicsParams;
+};
+
+export type ProfileStat = { label: string; value: number }; // value 0..10
+
+export const PROFILES: SkaterProfile[] = [
+  {
+    id: "classic", name: "Classic", description: "The all-rounder the park was built around.",
+    physics: { MAX_SPEED_FLAT: 10.0, ACCELERATION: 12.0, TURN_SPEED: 2.4, FRICTION: 5.5, GRAVITY: 22.0, JUMP_FORCE: 7.8 }
+  },
+  {
+    id: "cruiser", name: "Cruiser", description: "Big soft wheels: high top speed and long rolls, lazy turns.",
+    physics: { MAX_SPEED_FLAT: 11.5, ACCELERATION: 10.0, TURN_SPEED: 2.1, FRICTION: 4.0, GRAVITY: 22.0, JUMP_FORCE: 7.5 }
+  },
+  {
+    id: "tech", name: "Tech", description: "Quick feet for ledges and flat ground: snappy pushes and tight turns.",
+    physics: { MAX_SPEED_FLAT: 9.0, ACCELERATION: 14.5, TURN_SPEED: 3.0, FRICTION: 6.0, GRAVITY: 22.0, JUMP_FORCE: 8.0 }
+  },
+  {
+    id: "vert", name: "Vert", description: "Floaty and fast for the big walls; wide turns.",
+    physics: { MAX_SPEED_FLAT: 11.0, ACCELERATION: 12.0, TURN_SPEED: 2.2, FRICTION: 5.0, GRAVITY: 19.5, JUMP_FORCE: 8.4 }
+  }
+];
+
+export const DEFAULT_PROFILE_ID = "classic";
+const STORAGE_KEY = "skate-profile";
+
+/** Add or replace (by id) a profile at runtime. */
+export function registerProfile(profile: SkaterProfile): void {
+  const i = PROFILES.findIndex((p) => p.id === profile.id);
+  if (i >= 0) PROFILES[i] = profile;
+  else PROFILES.push(profile);
+}
+
+export function getProfile(id: string): SkaterProfile {
+  return PROFILES.find((p) => p.id === id) ?? PROFILES.find((p) => p.id === DEFAULT_PROFILE_ID)!;
+}
+
+export function applyProfile(skater: SkaterController, profile: SkaterProfile): void {
+  for (const k of PHYSICS_KEYS) skater[k] = profile.physics[k];
+}
+
+/** Snapshot the skater's current parameters as a profile. */
+export function captureProfile(skater: SkaterController, id: string, name: string, description: string = ""): SkaterProfile {
+  const physics = {} as PhysicsParams;
+  for (const k of PHYSICS_KEYS) physics[k] = Math.round(skater[k] * 100) / 100;
+  return { id, name, description, physics };
+}
+
+/** Parse a profile JSON (as exported by the tuning panel); null if it isn't one. */
+export function parseProfile(json: string): SkaterProfile | null {
+  try {
+    const data = JSON.parse(json) as SkaterProfile;
+    if (typeof data?.id !== "string" || typeof data.name !== "string" || !data.physics) return null;
+    for (const k of PHYSICS_KEYS) {
+      if (typeof data.physics[k] !== "number" || !isFinite(data.physics[k])) return null;
+    }
+    return { id: data.id, name: data.name, description: data.description ?? "", physics: data.physics };
+  } catch {
+    return null;
+  }
+}
+
+// Ranges the stat bars are scaled against
+function rate(v: number, lo: number, hi: number): number {
+  return Math.max(0, Math.min(10, Math.round(((v - lo) / (hi - lo)) * 10)));
+}
+
+/** 0..10 ratings for the profile's stats display. */
+export function profileStats(profile: SkaterProfile): ProfileStat[] {
+  const p = profile.physics;
+  const airHeight = (p.JUMP_FORCE * p.JUMP_FORCE) / (2 * p.GRAVITY);
+  return [
+    { label: "Speed", value: rate(p.MAX_SPEED_FLAT, 7, 13) },
+    { label: "Push", value: rate(p.ACCELERATION, 8, 16) },
+    { label: "Turning", value: rate(p.TURN_SPEED, 1.6, 3.4) },
+    { label: "Roll", value: rate(-p.FRICTION, -7, -3) },
+    { label: "Air", value: rate(airHeight, 1.0, 2.0) }
+  ];
+}
+
+export function loadProfileId(): string {
+  return localStorage.getItem(STORAGE_KEY) ?? DEFAULT_PROFILE_ID;
+}
+
+export function saveProfileId(id: string): void {
+  localStorage.setItem(STORAGE_KEY, id);
+}
@@ -0,0 +1,286 @@
+import { Scene } from "@babylonjs/core/scene";
+import { Mesh } from "@babylonjs/core/Meshes/mesh";
+import { MeshBuilder } from "@babylonjs/core/Meshes/meshBuilder";
+import { TransformNode } from "@babylonjs/core/Meshes/transformNode";
+import { StandardMaterial } from "@babylonjs/core/Materials/standardMaterial";
+import { DynamicTexture } from "@babylonjs/core/Materials/Textures/dynamicTexture";
+import { Color3 } from "@babylonjs/core/Maths/math.color";
+import { Vector3 } from "@babylonjs/core/Maths/math.vector";
+import { Conversation, Npc, NPCS, PARK_EVENTS, ParkEvent, QUEST_CHAINS, QuestChain, QuestStep, conditionMet, currentStep, isChainComplete } from "./quests";
+import { STORY_SPOTS } from "./stories";
+import { markQuestStepDone, setQuestFlag } from "./saveSystem";
+import { DialoguePanel } from "./dialoguePanel";
+
+// The park's characters and story chains in the world: NPC figures with name
+// tags (a "!" when they have something new to say), talking through the
+// dialogue panel, steps finished by reaching story spots, and park events
+// (the block party's crowd, lanterns and dusk light). Conditions read the save
+// data, so the world state is worked out again only when something changes.
+
+const TALK_RADIUS = 2.5;
+const FACE_RADIUS = 6;
+const REACH_RADIUS = 2.0;
+const DUSK_FADE = 0.35; // per second
+const CROWD_SHIRTS = ["#e11d48", "#2563eb", "#f59e0b", "#10b981", "#a855f7", "#f97316", "#0ea5e9", "#84cc16"];
+
+export type QuestSystem = {
+  /** Work out who's around and what's next again (after a story is found, say). */
+  refresh: () => void;
+  /** Per step: reach-a-spot steps. Returns who's close enough to talk to. */
+  update: (dt: number, position: Vector3) => Npc | null;
+  /** Per rendered frame: characters turn to the skater, crowds bob, dusk fades. */
+  render: (frameDt: number, position: Vector3) => void;
+  /** Start talking to whoever is in range; false if nobody is. */
+  talk: () => boolean;
+  stopTalking: () => void;
+  isTalking: () => boolean;
+  /** HUD line for the next step of a chain under way, or null. */
+  objective: () => string | null;
+  /** 0 (day) to 1 (dusk), eased while a dusk event is on. */
+  dusk: () => number;
+};
+
+type Figure = { root: TransformNode; baseY: number };
+
+type NpcView = Figure & {
+  npc: Npc;
+  tex: DynamicTexture;
+  present: boolean;
+  news: boolean;
+};
+
+type EventView = { event: ParkEvent; root: TransformNode; crowd: Figure[]; on: boolean };
+
+function hexColor(hex: string): Color3 {
+  return Color3.FromHexString(hex);
+}
+
+export function createQuestSystem(
+  scene: Scene,
+  opts: {
+    dialogue: DialoguePanel;
+    /** Quest progress worth a popup. */
+    onNotice: (text: string) => void;
+    /** A conversation ended (steps or flags may have changed). */
+    onTalkEnd: () => void;
+  },
+  npcs: Npc[] = NPCS,
+  chains: QuestChain[] = QUEST_CHAINS,
+  events: ParkEvent[] = PARK_EVENTS
+): QuestSystem {
+  const skinMat = new StandardMaterial("npcSkinMat", scene);
+  skinMat.diffuseColor = new Color3(0.85, 0.66, 0.5);
+  skinMat.specularColor = new Color3(0, 0, 0);
+
+  const shirtMats = new Map<string, StandardMaterial>();
+  function shirtMat(hex: string): StandardMaterial {
+    let mat = shirtMats.get(hex);
+    if (!mat) {
+      mat = new StandardMaterial(`npcShirt${hex}`, scene);
+      mat.diffuseColor = hexColor(hex);
+      mat.specularColor = new Color3(0.05, 0.05, 0.05);
+      shirtMats.set(hex, mat);
+    }
+    return mat;
+  }
+
+  // A simple standing figure: body and head, origin at the feet
+  function figure(name: string, position: Vector3, yaw: number, shirt: string): Figure {
+    const root = new TransformNode(name, scene);
+    root.position.copyFrom(position);
+    root.rotation.y = yaw;
+    const body = MeshBuilder.CreateCapsule(`${name}Body`, { height: 1.5, radius: 0.28 }, scene);
+    body.parent = root;
+    body.position.y = 0.75;
+    body.material = shirtMat(shirt);
+    body.isPickable = false;
+    const head = MeshBuilder.CreateSphere(`${name}Head`, { diameter: 0.42, segments: 12 }, scene);
+    head.parent = root;
+    head.position.y = 1.72;
+    head.material = skinMat;
+    head.isPickable = false;
+    return { root, baseY: position.y };
+  }
+
+  const npcViews: NpcView[] = npcs.map((npc) => {
+    const fig = figure(`npc_${npc.id}`, npc.position, npc.yaw, npc.shirt);
+    const tag = MeshBuilder.CreatePlane(`npcTag_${npc.id}`, { width: 2.4, height: 0.6 }, scene);
+    tag.billboardMode = Mesh.BILLBOARDMODE_ALL;
+    tag.isPickable = false;
+    tag.parent = fig.root;
+    tag.position.y = 2.35;
+    const tex = new DynamicTexture(`npcTagTex_${npc.id}`, { width: 512, height: 128 }, scene, false);
+    tex.hasAlpha = true;
+    const mat = new StandardMaterial(`npcTagMat_${npc.id}`, scene);
+    mat.diffuseTexture = tex;
+    mat.emissiveColor = new Color3(1, 1, 1);
+    mat.disableLighting = true;
+    mat.useAlphaFromDiffuseTexture = true;
+    mat.backFaceCulling = false;
+    tag.material = mat;
+    return { ...fig, npc, tex, present: true, news: false };
+  });
+
+  const lanternMat = new StandardMaterial("eventLanternMat", scene);
+  lanternMat.emissiveColor = new Color3(1.0, 0.75, 0.35);
+  lanternMat.disableLighting = true;
+
+  const eventViews: EventView[] = events.map((event) => {
+    const root = new TransformNode(`event_${event.id}`, scene);
+    const crowd: Figure[] = [];
+    for (let i = 0; i < event.crowd; i++) {
+      // A loose ring facing the middle, leaving a gap to skate through
+      const angle = (i / event.crowd) * Math.PI * 1.6 + Math.PI * 0.2;
+      const r = 3.5 + (i % 3) * 0.6;
+      const pos = new Vector3(event.position.x + Math.sin(angle) * r, event.position.y, event.position.z + Math.cos(angle) * r);
+      const f = figure(`event_${event.id}_guest${i}`, pos, angle + Math.PI, CROWD_SHIRTS[i % CROWD_SHIRTS.length]);
+      f.root.parent = root;
+      crowd.push(f);
+    }
+    for (let i = 0; i < 6; i++) {
+      const angle = (i / 6) * Math.PI * 2;
+      const lantern = MeshBuilder.CreateSphere(`event_${event.id}_lantern${i}`, { diameter: 0.3, segments: 8 }, scene);
+      lantern.position.set(event.position.x + Math.sin(angle) * 5, event.position.y + 2.6, event.position.z + Math.cos(angle) * 5);
+      lantern.material = lanternMat;
+      lantern.isPickable = false;
+      lantern.parent = root;
+    }
+    return { event, root, crowd, on: false };
+  });
+
+  let steps: { chain: QuestChain; step: QuestStep }[] = [];
+  let near: NpcView | null = null;
+  let talking: { view: NpcView; conversation: Conversation } | null = null;
+  let duskLevel = 0;
+  let time = 0;
+
+  function conversationFor(npc: Npc): Conversation | null {
+    return npc.conversations.find((c) => conditionMet(c.when)) ?? null;
+  }
+
+  function drawTag(v: NpcView): void {
+    v.tex.clear();
+    v.tex.drawText(v.news ? `! ${v.npc.name}` : v.npc.name, null, 80, "bold 48px sans-serif", v.news ? "#ffd166" : "#ffffff", "transparent", true);
+  }
+
+  function refresh(): void {
+    steps = [];
+    for (const chain of chains) {
+      const step = currentStep(chain);
+      if (step) steps.push({ chain, step });
+    }
+    const open = new Set(steps.map((s) => s.step.id));
+    for (const v of npcViews) {
+      v.present = conditionMet(v.npc.present);
+      v.root.setEnabled(v.present);
+      // News: what they'd say now can move a chain on
+      const convo = conversationFor(v.npc);
+      const news = !!convo?.nodes.some((n) => n.choices.some((c) => c.completes && open.has(c.completes)));
+      if (news !== v.news) {
+        v.news = news;
+        drawTag(v);
+      }
+    }
+    for (const e of eventViews) {
+      e.on = conditionMet(e.event.when);
+      e.root.setEnabled(e.on);
+    }
+  }
+
+  function complete(stepId: string): void {
+    const entry = steps.find((s) => s.step.id === stepId);
+    // Only the step a chain is on can be finished (its prerequisites hold)
+    if (!entry) return;
+    markQuestStepDone(stepId);
+    refresh();
+    const next = steps.find((s) => s.chain === entry.chain);
+    if (isChainComplete(entry.chain)) opts.onNotice(`${entry.chain.title} complete!`);
+    else if (next) opts.onNotice(`${entry.chain.title}: ${next.step.objective}`);
+  }
+
+  function showNode(nodeId: string | undefined): void {
+    if (!talking) return;
+    const node = nodeId ? talking.conversation.nodes.find((n) => n.id === nodeId) : talking.conversation.nodes[0];
+    if (!node) {
+      stopTalking();
+      return;
+    }
+    opts.dialogue.show(talking.view.npc.name, node.text, node.choices.map((c) => c.text), (i) => {
+      const choice = node.choices[i];
+      if (choice.flag) setQuestFlag(choice.flag);
+      if (choice.completes) complete(choice.completes);
+      else if (choice.flag) refresh();
+      if (choice.next) showNode(choice.next);
+      else stopTalking();
+    });
+  }
+
+  function stopTalking(): void {
+    if (!talking) return;
+    talking = null;
+    opts.dialogue.hide();
+    opts.onTalkEnd();
+  }
+
+  refresh();
+  // Start in the right light rather than fading in on load
+  duskLevel = eventViews.some((e) => e.on && e.event.dusk) ? 1 : 0;
+  for (const v of npcViews) drawTag(v);
+
+  return {
+    refresh,
+    update: (_dt, position) => {
+      for (const { step } of steps) {
+        if (!step.story) continue;
+        const spot = STORY_SPOTS.find((s) => s.id === step.story);
+        if (spot && Vector3.DistanceSquared(position, spot.position) <= REACH_RADIUS * REACH_RADIUS) {
+          complete(step.id);
+          break;
+        }
+      }
+      near = null;
+      let best = TALK_RADIUS * TALK_RADIUS;
+      for (const v of npcViews) {
+        if (!v.present) continue;
+        const d = Vector3.DistanceSquared(position, v.root.position);
+        if (d <= best) {
+          best = d;
+          near = v;
+        }
+      }
+      return near?.npc ?? null;
+    },
+    render: (frameDt, position) => {
+      time += frameDt;
+      for (const v of npcViews) {
+        if (!v.present) continue;
+        const dx = position.x - v.root.position.x;
+        const dz = position.z - v.root.position.z;
+        if (dx * dx + dz * dz < FACE_RADIUS * FACE_RADIUS) v.root.rotation.y = Math.atan2(dx, dz);
+      }
+      let dusk = false;
+      for (const e of eventViews) {
+        if (!e.on) continue;
+        if (e.event.dusk) dusk = true;
+        e.crowd.forEach((f, i) => {
+          f.root.position.y = f.baseY + Math.abs(Math.sin(time * 4 + i * 1.3)) * 0.12;
+        });
+      }
+      const target = dusk ? 1 : 0;
+      const step = DUSK_FADE * frameDt;
+      duskLevel = duskLevel < target ? Math.min(target, duskLevel + step) : Math.max(target, duskLevel - step);
+    },
+    talk: () => {
+      if (talking || !near) return false;
+      const conversation = conversationFor(near.npc);
+      if (!conversation) return false;
+      talking = { view: near, conversation };
+      showNode(undefined);
+      return true;
+    },
+    stopTalking,
+    isTalking: () => talking !== null,
+    objective: () => (steps.length ? `${steps[0].chain.title}: ${steps[0].step.objective}` : null),
+    dusk: () => duskLevel
+  };
+}
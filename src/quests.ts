@@ -0,0 +1,279 @@
+import { Vector3 } from "@babylonjs/core/Maths/math.vector";
+import { isStoryCollected, isQuestStepDone, hasQuestFlag } from "./saveSystem";
+
+// Story chains: multi-step quests told through the park's characters. A chain
+// is a list of steps, each unlocked by its prerequisites (stories found, earlier
+// steps, choices made) and finished by reaching a story spot or by picking a
+// dialogue choice. Characters say the first of their conversations whose
+// conditions hold, so what they say moves on with the story. Progress and
+// choices are saved (see saveSystem), so chains carry over between sessions.
+
+/** All listed parts must hold; an empty condition always holds. */
+export type QuestCondition = {
+  stories?: string[];  // story spots found
+  steps?: string[];    // quest steps done ("chain/step")
+  notSteps?: string[]; // quest steps not done yet
+  flags?: string[];    // choices made
+  notFlags?: string[];
+};
+
+export type DialogueChoice = {
+  text: string;
+  /** Node to go to; none ends the conversation. */
+  next?: string;
+  /** Quest step finished by picking this. */
+  completes?: string;
+  /** Remembered, for later conditions. */
+  flag?: string;
+};
+
+export type DialogueNode = {
+  id: string;
+  text: string;
+  choices: DialogueChoice[];
+};
+
+/** Starts at the first node. */
+export type Conversation = {
+  when?: QuestCondition;
+  nodes: DialogueNode[];
+};
+
+export type Npc = {
+  id: string;
+  name: string;
+  position: Vector3;
+  yaw: number;
+  shirt: string; // hex colour
+  /** Only in the park while this holds. */
+  present?: QuestCondition;
+  /** Tried in order; the first that holds is used. */
+  conversations: Conversation[];
+};
+
+export type QuestStep = {
+  id: string;          // "chain/step"
+  objective: string;   // HUD line while this is the step to do
+  requires?: QuestCondition;
+  /** Finished by reaching this story spot (otherwise by a dialogue choice). */
+  story?: string;
+};
+
+export type QuestChain = {
+  id: string;
+  title: string;
+  steps: QuestStep[];
+};
+
+/** A park event: on while its condition holds. */
+export type ParkEvent = {
+  id: string;
+  when: QuestCondition;
+  position: Vector3;
+  crowd: number;
+  /** Lights go down to dusk while it's on. */
+  dusk: boolean;
+};
+
+export function conditionMet(c: QuestCondition | undefined): boolean {
+  if (!c) return true;
+  return (c.stories ?? []).every(isStoryCollected) &&
+    (c.steps ?? []).every(isQuestStepDone) &&
+    !(c.notSteps ?? []).some(isQuestStepDone) &&
+    (c.flags ?? []).every(hasQuestFlag) &&
+    !(c.notFlags ?? []).some(hasQuestFlag);
+}
+
+/** The step to do next in a chain: the first one not done, once its prerequisites hold. */
+export function currentStep(chain: QuestChain): QuestStep | null {
+  const step = chain.steps.find((s) => !isQuestStepDone(s.id));
+  return step && conditionMet(step.requires) ? step : null;
+}
+
+export function isChainComplete(chain: QuestChain): boolean {
+  return chain.steps.every((s) => isQuestStepDone(s.id));
+}
+
+// Gullcrest Block: the deli owner sends you to the mural painter, and the
+// mural gets the dusk block party going.
+
+const DELI = "block-party/deli";
+const SEE_MURAL = "block-party/see-mural";
+const MURAL = "block-party/mural";
+const PARTY = "block-party/party";
+
+export const QUEST_CHAINS: QuestChain[] = [
+  {
+    id: "block-party",
+    title: "Block Party",
+    steps: [
+      { id: DELI, objective: "Talk to Rosa at the corner deli", requires: { stories: ["corner-deli"] } },
+      { id: SEE_MURAL, objective: "Go and see the lane mural", requires: { steps: [DELI] }, story: "bike-lane-mural" },
+      { id: MURAL, objective: "Find Dex, the painter of the lane mural", requires: { steps: [SEE_MURAL] } },
+      { id: PARTY, objective: "Say hi to Mo at the dusk block party by the Gullcrest sign", requires: { steps: [MURAL] } }
+    ]
+  }
+];
+
+export const PARK_EVENTS: ParkEvent[] = [
+  // Runs from the mural until you've joined in; Mo stays around afterwards
+  { id: "block-party", when: { steps: [MURAL], notSteps: [PARTY] }, position: new Vector3(0, 0, -6), crowd: 8, dusk: true }
+];
+
+export const NPCS: Npc[] = [
+  {
+    id: "rosa",
+    name: "Rosa",
+    position: new Vector3(-16, 0, 15.5),
+    yaw: Math.PI * 0.75,
+    shirt: "#2f9e77",
+    conversations: [
+      {
+        when: { stories: ["corner-deli"], notSteps: [DELI] },
+        nodes: [
+          {
+            id: "start",
+            text: "You're the one rolling past my window every day. Do me a favour? The kid who painted the lane mural still owes me for a week of mint tea.",
+            choices: [
+              { text: "Sure, where do I find them?", next: "where" },
+              { text: "Can't, I'm skating.", next: "later" }
+            ]
+          },
+          {
+            id: "where",
+            text: "Dex. Right-hand side of the park, by the long rail, covered in paint. Tell them Rosa says hello.",
+            choices: [{ text: "On my way.", completes: DELI }]
+          },
+          {
+            id: "later",
+            text: "Skate, then. I'll be here when you're done.",
+            choices: [{ text: "Bye, Rosa." }]
+          }
+        ]
+      },
+      {
+        when: { steps: [DELI], notSteps: [MURAL] },
+        nodes: [
+          { id: "start", text: "Dex. The mural by the long rail. Go on.", choices: [{ text: "Going." }] }
+        ]
+      },
+      {
+        when: { steps: [MURAL], flags: ["covered-tab"] },
+        nodes: [
+          { id: "start", text: "Dex says you paid their tab? You didn't have to. Tea's on me from now on.", choices: [{ text: "Thanks, Rosa." }] }
+        ]
+      },
+      {
+        when: { steps: [MURAL] },
+        nodes: [
+          { id: "start", text: "Dex swears they'll pay up at the party. We'll see. Go on, it's starting.", choices: [{ text: "See you there." }] }
+        ]
+      },
+      {
+        nodes: [
+          { id: "start", text: "Mint tea's brewing. Have a look around my corner first.", choices: [{ text: "Okay." }] }
+        ]
+      }
+    ]
+  },
+  {
+    id: "dex",
+    name: "Dex",
+    position: new Vector3(8.5, 0, -3.5),
+    yaw: Math.PI / 2,
+    shirt: "#c2410c",
+    conversations: [
+      {
+        when: { steps: [SEE_MURAL], notSteps: [MURAL] },
+        nodes: [
+          {
+            id: "start",
+            text: "Careful, the paint's still wet. Oh, Rosa sent you? I know, I know. The tea.",
+            choices: [
+              { text: "She says hello.", next: "tab" },
+              { text: "What's with the cat?", next: "cat" }
+            ]
+          },
+          {
+            id: "cat",
+            text: "Everyone asks. It was skating, originally. Then it was a cat. The block decided.",
+            choices: [{ text: "About Rosa's tea...", next: "tab" }]
+          },
+          {
+            id: "tab",
+            text: "Tell you what: the mural's done, so the block party's on tonight. I'll settle up there. Unless...",
+            choices: [
+              { text: "I'll cover your tab.", flag: "covered-tab", completes: MURAL, next: "covered" },
+              { text: "Pay her yourself.", flag: "dex-owes", completes: MURAL, next: "owes" }
+            ]
+          },
+          {
+            id: "covered",
+            text: "You're a saint. Party's by the Gullcrest sign once the sun drops. Find Mo.",
+            choices: [{ text: "See you there." }]
+          },
+          {
+            id: "owes",
+            text: "Fair. Fair. Party's by the Gullcrest sign once the sun drops. Find Mo.",
+            choices: [{ text: "See you there." }]
+          }
+        ]
+      },
+      {
+        when: { steps: [MURAL] },
+        nodes: [
+          { id: "start", text: "Don't just stand there, the party's by the sign!", choices: [{ text: "Right." }] }
+        ]
+      },
+      {
+        nodes: [
+          { id: "start", text: "Mind the wet paint.", choices: [{ text: "Sorry." }] }
+        ]
+      }
+    ]
+  },
+  {
+    id: "mo",
+    name: "Mo",
+    position: new Vector3(2.5, 0, -5),
+    yaw: Math.PI,
+    shirt: "#7c3aed",
+    present: { steps: [MURAL] },
+    conversations: [
+      {
+        when: { notSteps: [PARTY] },
+        nodes: [
+          {
+            id: "start",
+            text: "There they are! Rosa, Dex, the whole block's out. Word is you're the one who got this going.",
+            choices: [
+              { text: "Just did some errands on a board.", next: "speech" },
+              { text: "Is Dex paying Rosa back?", next: "tab" }
+            ]
+          },
+          {
+            id: "tab",
+            text: "Ha. Depends who you ask. Either way, tonight's for everyone.",
+            choices: [{ text: "Fair enough.", next: "speech" }]
+          },
+          {
+            id: "speech",
+            text: "Then take a lap. Show the block what a Gullcrest skater looks like.",
+            choices: [{ text: "Drop in.", completes: PARTY }]
+          }
+        ]
+      },
+      {
+        when: { flags: ["covered-tab"] },
+        nodes: [
+          { id: "start", text: "The one who paid Dex's tab! Rosa won't stop talking about it.", choices: [{ text: "Ha, thanks Mo." }] }
+        ]
+      },
+      {
+        nodes: [
+          { id: "start", text: "Dex still owes Rosa. Some things never change. Great party, though.", choices: [{ text: "Great party." }] }
+        ]
+      }
+    ]
+  }
+];
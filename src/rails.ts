@@ -0,0 +1,191 @@
+import { Scene } from "@babylonjs/core/scene";
+import { Mesh } from "@babylonjs/core/Meshes/mesh";
+import { AbstractMesh } from "@babylonjs/core/Meshes/abstractMesh";
+import { MeshBuilder } from "@babylonjs/core/Meshes/meshBuilder";
+import { Vector3 } from "@babylonjs/core/Maths/math.vector";
+
+// Grindable paths. Rail meshes describe themselves in metadata either as a
+// straight { start, end } segment (legacy) or as { points, curve? } polylines
+// and Catmull-Rom splines. Box props (curbs, ledges, funbox) declare
+// `grindEdges` in their local space. Everything is flattened to arc-length
+// parameterised polylines the skater can follow.
+
+export type RailPath = {
+  points: Vector3[];       // world space, dense for curves
+  cumulative: number[];    // arc length at each point
+  length: number;
+  radius: number;          // board rests this far above the path
+  // Edges of boxes only capture when dropping onto them (no rolling into curbs)
+  requiresAir: boolean;
+};
+
+export type GrindEdge = { from: Vector3; to: Vector3 };
+
+/** What grinding reads from a mesh's metadata (set where the park builds it). */
+export type RailMetadata = {
+  isRail?: boolean;
+  radius?: number;
+  start?: Vector3;
+  end?: Vector3;
+  points?: Vector3[];
+  curve?: "catmull";
+  grindEdges?: GrindEdge[];
+};
+
+function railMetadata(mesh: AbstractMesh): RailMetadata | null {
+  return mesh.metadata ? (mesh.metadata as RailMetadata) : null;
+}
+
+// How far from a polyline corner the facing starts blending into the next segment
+const CORNER_BLEND = 0.35;
+const SPLINE_SAMPLES = 8; // per control segment
+
+export function createRailPath(points: Vector3[], opts?: { curve?: boolean; radius?: number; requiresAir?: boolean }): RailPath {
+  const pts = opts?.curve && points.length > 2 ? sampleCatmullRom(points, SPLINE_SAMPLES) : points.map((p) => p.clone());
+  const cumulative = [0];
+  for (let i = 1; i < pts.length; i++) {
+    cumulative.push(cumulative[i - 1] + Vector3.Distance(pts[i - 1], pts[i]));
+  }
+  return {
+    points: pts,
+    cumulative,
+    length: Math.max(0.001, cumulative[cumulative.length - 1]),
+    radius: opts?.radius ?? 0,
+    requiresAir: opts?.requiresAir ?? false
+  };
+}
+
+function sampleCatmullRom(ctrl: Vector3[], samples: number): Vector3[] {
+  const out: Vector3[] = [];
+  for (let i = 0; i < ctrl.length - 1; i++) {
+    const p0 = ctrl[Math.max(0, i - 1)];
+    const p1 = ctrl[i];
+    const p2 = ctrl[i + 1];
+    const p3 = ctrl[Math.min(ctrl.length - 1, i + 2)];
+    for (let j = 0; j < samples; j++) {
+      out.push(Vector3.CatmullRom(p0, p1, p2, p3, j / samples));
+    }
+  }
+  out.push(ctrl[ctrl.length - 1].clone());
+  return out;
+}
+
+function segmentAt(path: RailPath, s: number): number {
+  const c = path.cumulative;
+  let i = 0;
+  while (i < c.length - 2 && c[i + 1] < s) i++;
+  return i;
+}
+
+export function pointAt(path: RailPath, s: number): Vector3 {
+  const d = Math.max(0, Math.min(path.length, s));
+  const i = segmentAt(path, d);
+  const segLen = path.cumulative[i + 1] - path.cumulative[i];
+  const t = segLen > 1e-6 ? (d - path.cumulative[i]) / segLen : 0;
+  return Vector3.Lerp(path.points[i], path.points[i + 1], t);
+}
+
+function segmentDir(path: RailPath, i: number): Vector3 {
+  const d = path.points[i + 1].subtract(path.points[i]);
+  const len = d.length();
+  return len > 1e-6 ? d.scaleInPlace(1 / len) : new Vector3(0, 0, 1);
+}
+
+/** Unit direction of travel at arc length s, blended around polyline corners. */
+export function tangentAt(path: RailPath, s: number): Vector3 {
+  const d = Math.max(0, Math.min(path.length, s));
+  const i = segmentAt(path, d);
+  const dir = segmentDir(path, i);
+  const toEnd = path.cumulative[i + 1] - d;
+  const fromStart = d - path.cumulative[i];
+  if (toEnd < CORNER_BLEND && i + 1 < path.points.length - 1) {
+    const w = 0.5 * (1 - toEnd / CORNER_BLEND);
+    return Vector3.Lerp(dir, segmentDir(path, i + 1), w).normalize();
+  }
+  if (fromStart < CORNER_BLEND && i > 0) {
+    const w = 0.5 * (1 - fromStart / CORNER_BLEND);
+    return Vector3.Lerp(dir, segmentDir(path, i - 1), w).normalize();
+  }
+  return dir;
+}
+
+/** Closest point to p (judged on the ground plane) and its arc length. */
+export function closestOnPath(path: RailPath, p: Vector3): { s: number; point: Vector3; distXZ: number } {
+  let best = { s: 0, point: path.points[0].clone(), distXZ: Infinity };
+  for (let i = 0; i < path.points.length - 1; i++) {
+    const a = path.points[i];
+    const b = path.points[i + 1];
+    const abx = b.x - a.x;
+    const abz = b.z - a.z;
+    const denom = abx * abx + abz * abz;
+    let t = denom > 1e-6 ? ((p.x - a.x) * abx + (p.z - a.z) * abz) / denom : 0;
+    t = Math.max(0, Math.min(1, t));
+    const q = Vector3.Lerp(a, b, t);
+    const d = Math.hypot(p.x - q.x, p.z - q.z);
+    if (d < best.distXZ) {
+      const segLen = path.cumulative[i + 1] - path.cumulative[i];
+      best = { s: path.cumulative[i] + segLen * t, point: q, distXZ: d };
+    }
+  }
+  return best;
+}
+
+/** Top edges of a box (width x height x depth) in its local space. */
+export function boxTopEdges(width: number, height: number, depth: number, sides: ("left" | "right" | "front" | "back" | "center")[]): GrindEdge[] {
+  const x = width * 0.5;
+  const y = height * 0.5;
+  const z = depth * 0.5;
+  const edges: GrindEdge[] = [];
+  for (const side of sides) {
+    switch (side) {
+      case "left": edges.push({ from: new Vector3(-x, y, -z), to: new Vector3(-x, y, z) }); break;
+      case "right": edges.push({ from: new Vector3(x, y, -z), to: new Vector3(x, y, z) }); break;
+      case "front": edges.push({ from: new Vector3(-x, y, -z), to: new Vector3(x, y, -z) }); break;
+      case "back": edges.push({ from: new Vector3(-x, y, z), to: new Vector3(x, y, z) }); break;
+      case "center": edges.push({ from: new Vector3(0, y, -z), to: new Vector3(0, y, z) }); break;
+    }
+  }
+  return edges;
+}
+
+/** Tube mesh following a rail's points (curved or polyline). */
+export function createRailMesh(name: string, points: Vector3[], radius: number, scene: Scene, curve: boolean = false): Mesh {
+  const path = curve ? sampleCatmullRom(points, SPLINE_SAMPLES) : points;
+  return MeshBuilder.CreateTube(name, { path, radius, tessellation: 12, cap: Mesh.CAP_ALL }, scene);
+}
+
+// Props don't move, so each mesh's paths are built once
+const cache = new WeakMap<AbstractMesh, RailPath[]>();
+
+export function railPathsForMesh(mesh: AbstractMesh): RailPath[] {
+  const cached = cache.get(mesh);
+  if (cached) return cached;
+  const md = railMetadata(mesh);
+  const paths: RailPath[] = [];
+  if (md?.isRail) {
+    const pts = md.points ?? (md.start && md.end ? [md.start, md.end] : undefined);
+    if (pts && pts.length >= 2) {
+      paths.push(createRailPath(pts, { curve: md.curve === "catmull", radius: md.radius ?? 0 }));
+    }
+  }
+  if (md?.grindEdges) {
+    const world = mesh.computeWorldMatrix(true);
+    for (const e of md.grindEdges) {
+      const from = Vector3.TransformCoordinates(e.from, world);
+      const to = Vector3.TransformCoordinates(e.to, world);
+      paths.push(createRailPath([from, to], { radius: 0, requiresAir: true }));
+    }
+  }
+  cache.set(mesh, paths);
+  return paths;
+}
+
+export function collectRailPaths(scene: Scene): RailPath[] {
+  const out: RailPath[] = [];
+  for (const m of scene.meshes) {
+    const md = railMetadata(m);
+    if (!md || (!md.isRail && !md.grindEdges)) continue;
+    out.push(...railPathsForMesh(m));
+  }
+  return out;
+}
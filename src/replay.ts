@@ -0,0 +1,353 @@
+import { Scene } from "@babylonjs/core/scene";
+import { FreeCamera } from "@babylonjs/core/Cameras/freeCamera";
+import { Camera } from "@babylonjs/core/Cameras/camera";
+import { Vector3 } from "@babylonjs/core/Maths/math.vector";
+import { Observer } from "@babylonjs/core/Misc/observable";
+import { SkaterController } from "./skater";
+import { createSkateCamera, SkateCameraController } from "./camera";
+import { GhostRun, parseGhost, poseAt, runDuration } from "./ghost";
+
+// Replay viewer. A replay is the run's pose recorded every fixed step (the
+// ghost format at full rate), so playback is transform-based and exact. The
+// viewer poses the player's own skater and offers the follow cam, a free-fly
+// cam and auto-cut fixed cameras around the park.
+
+export type Replay = {
+  version: 1;
+  kind: "replay";
+  mode: string;
+  run: GhostRun;
+};
+
+export type ReplayCameraMode = "follow" | "free" | "auto";
+
+const SPEEDS = [0.25, 0.5, 1];
+const TRICK_LABEL_TIME = 1.5;
+// Auto-cut: hold a shot at least this long, and only cut to a clearly closer camera
+const MIN_SHOT_TIME = 1.2;
+const CUT_RATIO = 0.7;
+
+// Fixed cameras around Gullcrest Block: corners, the vert walls and the middle
+const AUTO_CAMERAS: Vector3[] = [
+  new Vector3(-34, 7, -62), new Vector3(34, 7, -62),
+  new Vector3(-34, 7, 62), new Vector3(34, 7, 62),
+  new Vector3(-36, 5, 0), new Vector3(36, 5, 0),
+  new Vector3(14, 6, -46), new Vector3(-14, 6, 46),
+  new Vector3(8, 4, -20), new Vector3(-8, 4, 20)
+];
+
+/** Parse a replay file; null if it isn't one. */
+export function parseReplay(json: string): Replay | null {
+  try {
+    const data = JSON.parse(json) as Replay;
+    if (data?.version !== 1 || data.kind !== "replay" || typeof data.mode !== "string") return null;
+    const run = parseGhost(JSON.stringify(data.run));
+    return run ? { ...data, run } : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Download the replay as a .json file. */
+export function exportReplay(replay: Replay): void {
+  const blob = new Blob([JSON.stringify(replay)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `replay-${replay.run.park}-${replay.mode}-${replay.run.date.slice(0, 10)}.json`;
+  a.click();
+  // Revoking straight after click() can cancel the download in some browsers
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export type ReplayViewer = {
+  /** Open on a replay (or empty, to load one from a file). */
+  open: (replay: Replay | null) => void;
+  close: () => void;
+  isOpen: () => boolean;
+};
+
+export function createReplayViewer(opts: { scene: Scene; skater: SkaterController; onClose: () => void }): ReplayViewer {
+  const { scene, skater } = opts;
+  let replay: Replay | null = null;
+  let t = 0;
+  let playing = false;
+  let speed = 1;
+  let cameraMode: ReplayCameraMode = "follow";
+  let previousCamera: Camera | null = null;
+  let observer: Observer<Scene> | null = null;
+
+  // Follow cam: the regular skate camera, fed the replayed position and a velocity from the samples
+  const replayPos = new Vector3();
+  const replayVel = new Vector3();
+  let follow: SkateCameraController | null = null;
+  const freeCam = new FreeCamera("replayFreeCam", new Vector3(0, 6, 20), scene);
+  freeCam.keysUp.push(87);    // W
+  freeCam.keysDown.push(83);  // S
+  freeCam.keysLeft.push(65);  // A
+  freeCam.keysRight.push(68); // D
+  freeCam.speed = 0.6;
+  freeCam.minZ = 0.1;
+  const fixedCam = new FreeCamera("replayFixedCam", AUTO_CAMERAS[0].clone(), scene);
+  fixedCam.inputs.clear();
+  fixedCam.fov = 0.6;
+  let shot = -1;
+  let shotTime = 0;
+
+  // Controls bar
+  const bar = document.createElement("div");
+  bar.id = "replay-viewer";
+  bar.style.position = "fixed";
+  bar.style.left = "50%";
+  bar.style.bottom = "18px";
+  bar.style.transform = "translateX(-50%)";
+  bar.style.display = "none";
+  bar.style.flexDirection = "column";
+  bar.style.gap = "8px";
+  bar.style.width = "min(760px, 92vw)";
+  bar.style.padding = "10px 14px";
+  bar.style.borderRadius = "10px";
+  bar.style.background = "rgba(0, 0, 0, 0.75)";
+  bar.style.color = "#fff";
+  bar.style.fontFamily = "system-ui, sans-serif";
+  bar.style.fontSize = "13px";
+  bar.style.zIndex = "1002";
+  document.body.appendChild(bar);
+
+  const trickLabel = document.createElement("div");
+  trickLabel.style.textAlign = "center";
+  trickLabel.style.fontWeight = "700";
+  trickLabel.style.fontSize = "16px";
+  trickLabel.style.minHeight = "20px";
+  bar.appendChild(trickLabel);
+
+  const scrub = document.createElement("input");
+  scrub.type = "range";
+  scrub.min = "0";
+  scrub.step = "0.001";
+  scrub.style.width = "100%";
+  scrub.oninput = () => {
+    t = Number(scrub.value);
+    playing = false;
+    refresh();
+  };
+  bar.appendChild(scrub);
+
+  const row = document.createElement("div");
+  row.style.display = "flex";
+  row.style.alignItems = "center";
+  row.style.gap = "6px";
+  row.style.flexWrap = "wrap";
+  bar.appendChild(row);
+
+  function button(text: string, onClick: () => void): HTMLButtonElement {
+    const b = document.createElement("button");
+    b.textContent = text;
+    b.style.padding = "4px 10px";
+    b.style.borderRadius = "6px";
+    b.style.border = "1px solid rgba(255,255,255,0.4)";
+    b.style.background = "transparent";
+    b.style.color = "#fff";
+    b.style.cursor = "pointer";
+    b.onclick = onClick;
+    row.appendChild(b);
+    return b;
+  }
+
+  const stepBack = () => {
+    if (!replay) return;
+    playing = false;
+    t = Math.max(0, t - 1 / replay.run.rate);
+    refresh();
+  };
+  const stepForward = () => {
+    if (!replay) return;
+    playing = false;
+    t = Math.min(maxTime(), t + 1 / replay.run.rate);
+    refresh();
+  };
+  button("⏮", stepBack).title = "Previous frame";
+  const playBtn = button("▶", () => {
+    if (!replay) return;
+    if (t >= maxTime()) t = 0;
+    playing = !playing;
+    refresh();
+  });
+  button("⏭", stepForward).title = "Next frame";
+  const speedBtn = button("1x", () => {
+    speed = SPEEDS[(SPEEDS.indexOf(speed) + 1) % SPEEDS.length];
+    refresh();
+  });
+  speedBtn.title = "Playback speed";
+  const timeLabel = document.createElement("span");
+  timeLabel.style.minWidth = "90px";
+  timeLabel.style.textAlign = "center";
+  row.appendChild(timeLabel);
+
+  const cameraButtons = new Map<ReplayCameraMode, HTMLButtonElement>();
+  for (const [mode, label] of [["follow", "Follow"], ["free", "Free"], ["auto", "Auto"]] as [ReplayCameraMode, string][]) {
+    cameraButtons.set(mode, button(label, () => setCameraMode(mode)));
+  }
+
+  const spacer = document.createElement("div");
+  spacer.style.flex = "1";
+  row.appendChild(spacer);
+  const saveBtn = button("Save", () => {
+    if (replay) exportReplay(replay);
+  });
+  const file = document.createElement("input");
+  file.type = "file";
+  file.accept = ".json,application/json";
+  file.style.display = "none";
+  file.onchange = () => {
+    const f = file.files?.[0];
+    file.value = "";
+    if (!f) return;
+    f.text().then((text) => {
+      const loaded = parseReplay(text);
+      if (loaded) load(loaded);
+      else trickLabel.textContent = "That isn't a replay file";
+    });
+  };
+  row.appendChild(file);
+  button("Load", () => file.click());
+  button("Close", () => viewer.close());
+
+  // Keyboard: space play/pause, comma/period frame step (only while open)
+  const onKey = (e: KeyboardEvent) => {
+    if (bar.style.display === "none" || e.target instanceof HTMLInputElement) return;
+    if (e.code === "Space") playBtn.click();
+    else if (e.code === "Comma") stepBack();
+    else if (e.code === "Period") stepForward();
+    else return;
+    e.preventDefault();
+    e.stopPropagation();
+  };
+  window.addEventListener("keydown", onKey, true);
+
+  function maxTime(): number {
+    return replay ? Math.max(0, runDuration(replay.run) - 1e-6) : 0;
+  }
+
+  function fmt(s: number): string {
+    const m = Math.floor(s / 60);
+    const sec = s - m * 60;
+    return `${m}:${sec < 10 ? "0" : ""}${sec.toFixed(2)}`;
+  }
+
+  function load(r: Replay): void {
+    replay = r;
+    t = 0;
+    playing = true;
+    shot = -1;
+    scrub.max = String(maxTime());
+    refresh();
+  }
+
+  function setCameraMode(mode: ReplayCameraMode): void {
+    const canvas = scene.getEngine().getRenderingCanvas();
+    if (cameraMode === "free" && mode !== "free") freeCam.detachControl();
+    cameraMode = mode;
+    if (mode === "free") {
+      // Start flying from wherever the current shot is
+      if (scene.activeCamera) {
+        freeCam.position.copyFrom(scene.activeCamera.position);
+        freeCam.setTarget(replayPos);
+      }
+      scene.activeCamera = freeCam;
+      if (canvas) freeCam.attachControl(true);
+    } else if (mode === "auto") {
+      shot = -1;
+      scene.activeCamera = fixedCam;
+    } else {
+      scene.activeCamera = follow ? follow.camera : null;
+    }
+    refresh();
+  }
+
+  function refresh(): void {
+    playBtn.textContent = playing ? "⏸" : "▶";
+    speedBtn.textContent = `${speed}x`;
+    saveBtn.disabled = !replay;
+    for (const [mode, b] of cameraButtons) {
+      b.style.background = mode === cameraMode ? "rgba(255,255,255,0.9)" : "transparent";
+      b.style.color = mode === cameraMode ? "#222" : "#fff";
+    }
+    if (!replay) {
+      timeLabel.textContent = "--:--";
+      return;
+    }
+    scrub.value = String(t);
+    timeLabel.textContent = `${fmt(t)} / ${fmt(maxTime())}`;
+    let latest = -1;
+    for (let k = 0; k < replay.run.tricks.length && replay.run.tricks[k].t <= t; k++) latest = k;
+    const trick = latest >= 0 && t - replay.run.tricks[latest].t < TRICK_LABEL_TIME ? replay.run.tricks[latest] : null;
+    trickLabel.textContent = trick ? `${trick.name} +${trick.points}` : "";
+  }
+
+  function tick(): void {
+    if (!replay) return;
+    const dt = scene.getEngine().getDeltaTime() / 1000;
+    if (playing) {
+      t += dt * speed;
+      if (t >= maxTime()) {
+        t = maxTime();
+        playing = false;
+      }
+      refresh();
+    }
+    const pose = poseAt(replay.run, t);
+    if (!pose) return;
+    // Velocity for the follow cam's heading and FOV, from the samples around t
+    const ahead = poseAt(replay.run, Math.min(maxTime(), t + 1 / replay.run.rate));
+    if (ahead) replayVel.copyFrom(ahead.position.subtract(pose.position).scale(replay.run.rate));
+    replayPos.copyFrom(pose.position);
+    skater.setPose(pose);
+
+    if (cameraMode === "follow") follow?.update(dt);
+    else if (cameraMode === "auto") {
+      shotTime += dt;
+      let nearest = 0;
+      for (let i = 1; i < AUTO_CAMERAS.length; i++) {
+        if (Vector3.DistanceSquared(AUTO_CAMERAS[i], replayPos) < Vector3.DistanceSquared(AUTO_CAMERAS[nearest], replayPos)) nearest = i;
+      }
+      const cut = shot < 0 || (nearest !== shot && shotTime >= MIN_SHOT_TIME &&
+        Vector3.Distance(AUTO_CAMERAS[nearest], replayPos) < Vector3.Distance(AUTO_CAMERAS[shot], replayPos) * CUT_RATIO);
+      if (cut) {
+        shot = nearest;
+        shotTime = 0;
+        fixedCam.position.copyFrom(AUTO_CAMERAS[shot]);
+      }
+      fixedCam.setTarget(replayPos);
+    }
+  }
+
+  const viewer: ReplayViewer = {
+    open: (r) => {
+      previousCamera = scene.activeCamera;
+      if (!follow) {
+        follow = createSkateCamera(scene, { getPosition: () => replayPos, getVelocity: () => replayVel }, new FreeCamera("replayFollowCam", new Vector3(0, 3, -8), scene));
+      }
+      bar.style.display = "flex";
+      replay = null;
+      if (r) load(r);
+      setCameraMode(cameraMode);
+      if (!observer) observer = scene.onBeforeRenderObservable.add(tick);
+      refresh();
+    },
+    close: () => {
+      if (bar.style.display === "none") return;
+      bar.style.display = "none";
+      playing = false;
+      freeCam.detachControl();
+      if (observer) {
+        scene.onBeforeRenderObservable.remove(observer);
+        observer = null;
+      }
+      scene.activeCamera = previousCamera;
+      opts.onClose();
+    },
+    isOpen: () => bar.style.display !== "none"
+  };
+  return viewer;
+}
@@ -1,5 +1,15 @@
+/** When a story was found, and a snapshot of the spot taken at the time (for the journal). */
+export type StoryFind = {
+  date: string;       // ISO
+  thumbnail?: string; // image data URL
+};
+
 type SaveState = {
   collectedStories: string[];
+  storyFinds: Record<string, StoryFind>; // story id -> find (saves from older builds have none)
+  completedGoals: Record<string, string[]>; // park id -> goal ids
+  questSteps: string[]; // finished quest steps ("chain/step")
+  questFlags: string[]; // dialogue choices remembered for later
 };
 
 const KEY = "skate-save-v1";
@@ -7,12 +17,16 @@ const KEY = "skate-save-v1";
 function read(): SaveState {
   try {
     const raw = localStorage.getItem(KEY);
-    if (!raw) return { collectedStories: [] };
+    if (!raw) return { collectedStories: [], storyFinds: {}, completedGoals: {}, questSteps: [], questFlags: [] };
     const data = JSON.parse(raw) as SaveState;
     if (!Array.isArray(data.collectedStories)) data.collectedStories = [];
+    if (!data.storyFinds || typeof data.storyFinds !== "object") data.storyFinds = {};
+    if (!data.completedGoals || typeof data.completedGoals !== "object") data.completedGoals = {};
+    if (!Array.isArray(data.questSteps)) data.questSteps = [];
+    if (!Array.isArray(data.questFlags)) data.questFlags = [];
     return data;
   } catch {
-    return { collectedStories: [] };
+    return { collectedStories: [], storyFinds: {}, completedGoals: {}, questSteps: [], questFlags: [] };
   }
 }
 
@@ -33,8 +47,57 @@ export function markStoryCollected(id: string): void {
   const s = read();
   if (!s.collectedStories.includes(id)) {
     s.collectedStories.push(id);
+    s.storyFinds[id] = { date: new Date().toISOString() };
+    write(s);
+  }
+}
+
+export function getStoryFind(id: string): StoryFind | null {
+  return read().storyFinds[id] ?? null;
+}
+
+export function setStoryThumbnail(id: string, thumbnail: string): void {
+  const s = read();
+  const find = s.storyFinds[id];
+  if (!find) return;
+  find.thumbnail = thumbnail;
+  write(s);
+}
+
+export function isGoalCompleted(parkId: string, goalId: string): boolean {
+  return read().completedGoals[parkId]?.includes(goalId) ?? false;
+}
+
+export function markGoalCompleted(parkId: string, goalId: string): void {
+  const s = read();
+  const done = s.completedGoals[parkId] ?? [];
+  if (!done.includes(goalId)) {
+    done.push(goalId);
+    s.completedGoals[parkId] = done;
     write(s);
   }
 }
 
+export function isQuestStepDone(id: string): boolean {
+  return read().questSteps.includes(id);
+}
+
+export function markQuestStepDone(id: string): void {
+  const s = read();
+  if (!s.questSteps.includes(id)) {
+    s.questSteps.push(id);
+    write(s);
+  }
+}
 
+export function hasQuestFlag(flag: string): boolean {
+  return read().questFlags.includes(flag);
+}
+
+export function setQuestFlag(flag: string): void {
+  const s = read();
+  if (!s.questFlags.includes(flag)) {
+    s.questFlags.push(flag);
+    write(s);
+  }
+}
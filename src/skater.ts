@@ -2,13 +2,23 @@ import { Scene } from "@babylonjs/core/scene";
 import { Mesh } from "@babylonjs/core/Meshes/mesh";
 import { MeshBuilder } from "@babylonjs/core/Meshes/meshBuilder";
 import { StandardMaterial } from "@babylonjs/core/Materials/standardMaterial";
-import { Vector3 } from "@babylonjs/core/Maths/math.vector";
+import { Matrix, Vector3 } from "@babylonjs/core/Maths/math.vector";
 import { Color3 } from "@babylonjs/core/Maths/math.color";
+import { Material } from "@babylonjs/core/Materials/material";
+import { TransformNode } from "@babylonjs/core/Meshes/transformNode";
 import { Ray } from "@babylonjs/core/Culling/ray";
 import { SceneLoader } from "@babylonjs/core/Loading/sceneLoader";
 import "@babylonjs/loaders/glTF";
+import { InputSource } from "./input";
+import { GRINDS, GrindKind, chooseGrind, grindPoints } from "./grinds";
+import { TrickDefinition, matchTrick } from "./tricks";
+import { RailPath, collectRailPaths, closestOnPath, pointAt, tangentAt } from "./rails";
+import { Bounds, blocksCapsule, collectColliders, playAreaBounds, pushOut, sweepCircle, SweepHit } from "./collision";
+import { AnimState, Animator, createAnimator } from "./animation";
+import { DEFAULT_LOADOUT, Loadout, applyLoadoutToMaterials, buildAccessory, buildBoard, riderColors } from "./loadout";
+import { Transition, collectTransitions, contactOnTransition, transitionLength, transitionPose } from "./transitions";
 
-type InputState = {
+export type InputState = {
   forward: boolean;
   backward: boolean;
   left: boolean;
@@ -19,12 +29,59 @@ type InputState = {
   trickGrab: boolean; // A or Q
   trickFlip: boolean; // D or F
   trickShove: boolean; // S
+  manual: boolean;     // Z: tilt onto the tail
+  noseManual: boolean; // X: tilt onto the nose
 };
 
-type SkaterOptions = {
+export type BailReason = "sketchy-landing" | "unfinished-flip" | "held-grab" | "lost-balance" | "slammed";
+
+export type ManualKind = "manual" | "nose";
+
+// Natural stance: which foot leads when riding normally
+export type Stance = "regular" | "goofy";
+// How the rider is rolling right now: normally, switch (other foot forward)
+// or fakie (natural stance, rolling backward)
+export type RidingStance = "normal" | "switch" | "fakie";
+
+// Tricks done switch or fakie are named for it and worth a bit more
+const STANCE_BONUS: Record<RidingStance, number> = { normal: 1, fakie: 1.1, switch: 1.25 };
+
+// Visible pose of the rider and board at one step, for recording and ghost playback
+export type SkaterPose = {
+  position: Vector3;
+  rotation: Vector3;      // root Euler angles (yaw plus surface tilt)
+  boardRotation: Vector3;
+  boardY: number;
+  crouch: number;
+  grind: { kind: GrindKind; balance: number } | null;
+  manual: { kind: ManualKind; balance: number } | null;
+  // Mid-bail: per rig part (see ragdollParts), its offset from rest and its rotation
+  ragdoll: Vector3[][] | null;
+};
+
+export type SkaterOptions = {
   onTrickLanded?: (name: string, points: number) => void;
+  // Knocked off the board; pending (unbanked) points should be lost
+  onBail?: (reason: BailReason) => void;
+  // A grind ended (landed off the rail, not bailed), with how far it went
+  onGrindEnd?: (name: string, distance: number) => void;
+  // Bounced off a wall or prop too hard to slide along it
+  onBonk?: (impactSpeed: number) => void;
+  // Polled once per fixed step; without one, input comes from setInput()
+  input?: InputSource;
+  // Headless mode (tests, NullEngine): skip loading the GLB
+  headless?: boolean;
+  stance?: Stance;
+  // Board and outfit (see loadout.ts)
+  loadout?: Loadout;
 };
 
+export function createEmptyInput(): InputState {
+  return {
+    forward: false, backward: false, left: false, right: false, jump: false, push: false, trickSpin: false, trickGrab: false, trickFlip: false, trickShove: false, manual: false, noseManual: false
+  };
+}
+
 export class SkaterController {
   // Parameters
   public MAX_SPEED_FLAT = 10.0;
@@ -45,25 +102,47 @@ export class SkaterController {
   private readonly FOOT_EPS = 0.07;
   // Vertical distance from mesh origin to foot/board contact. Tuned for fallback rig.
   private readonly BASE_FOOT_HEIGHT = 0.9;
+  // Horizontal collision: capsule radius, what can be rolled up without an ollie
+  // (curbs, and the half-metre bases under the pyramid and funbox), and
+  // head-on speeds (into the wall) that bonk or knock you off
+  private readonly CAPSULE_RADIUS = 0.3;
+  private readonly STEP_HEIGHT = 0.55;
+  private readonly BONK_SPEED = 4.0;
+  private readonly SLAM_SPEED = 8.0;
+  private worldBounds: Bounds | null | undefined; // from the park's play area, found on first use
 
-  private input: InputState = {
-    forward: false, backward: false, left: false, right: false, jump: false, push: false, trickSpin: false, trickGrab: false, trickFlip: false, trickShove: false
-  };
+  private input: InputState = createEmptyInput();
+
+  // Interpolation: pose at the previous and current fixed step, and whether
+  // the mesh currently shows a blended (render-only) transform
+  private prevSimPos = new Vector3();
+  private prevSimYaw = 0;
+  private simPos = new Vector3();
+  private simYaw = 0;
+  private showingInterpolated = false;
 
   private trickSpinTime = 0;
-  private trickGrabTime = 0;
-  private trickFlipTime = 0;
-  private isFlipping = false;
-  private kickflipMarked = false;
+  // Board tricks come from the registry in tricks.ts
+  private activeFlip: TrickDefinition | null = null;
+  private flipTime = 0;
+  private activeGrab: TrickDefinition | null = null;
+  private grabTime = 0;
+  private airTricks: TrickDefinition[] = []; // completed this air, scored on landing
+  private prevFlipKeys = false;
 
   // Grind state
   private isGrinding = false;
-  private grindStart = new Vector3();
-  private grindEnd = new Vector3();
-  private grindDir = new Vector3(0, 0, 1);
-  private grindLen = 1;
-  private grindT = 0.5;
-  private railHeight = 0.5;
+  private grindPath: RailPath | null = null;
+  private grindS = 0;      // arc length along the path
+  private grindSign = 1;   // +1 travelling toward the path's end, -1 toward its start
+  private grindDir = new Vector3(0, 0, 1); // current travel direction on the rail
+  private railHeight = 0.5; // locked root height while on the rail
+  private grindKind: GrindKind = "fiftyFifty";
+  private grindTime = 0;
+  private grindDistance = 0;
+  private grindBalance = 0;
+  private grindBalanceVel = 0;
+  private grindCount = 0;
 
   // Fallback rig parts (only used if GLB not loaded)
   private partTorso: Mesh | null = null;
@@ -72,88 +151,169 @@ export class SkaterController {
   private partArmR: Mesh | null = null;
   private partLegL: Mesh | null = null;
   private partLegR: Mesh | null = null;
+  private partShoes: Mesh[] = [];
   private crouch: number = 0; // 0..1
   private prevGrounded = true;
   private airSpinAccum = 0; // radians
-  private airGrab = false;
+
+  // Bail state: rider is off the board until the respawn delay elapses
+  private readonly BAIL_YAW_TOLERANCE = Math.PI / 6; // 30° off the rolling line
+  private readonly BAIL_RESPAWN_DELAY = 1.8;
+  private bailed = false;
+  private bailTime = 0;
+  private ragdoll: { part: Mesh; rest: Vector3; vel: Vector3; spin: Vector3 }[] = [];
+  private partHips: Mesh | null = null;
+
+  // Manuals: balance in -1..1 (tips over at ±1); left/right input corrects it
+  private readonly MANUAL_MIN_SPEED = 1.5;
+  private readonly MANUAL_POINTS_PER_SEC = 60;
+  private manualKind: ManualKind | null = null;
+  private manualBalance = 0;
+  private manualBalanceVel = 0;
+  private manualTime = 0;
+  private manualCount = 0;
+  // Transitions (quarterpipes, vert)
+  private readonly LIP_STALL_SPEED = 3.0; // reach the coping slower than this to stall on it
+  private readonly LIP_MAX_STALL = 2.5;
+  private ramp: Transition | null = null;
+  private rampS = 0;        // arc length up the profile
+  private rampSpeed = 0;    // along the profile, + toward the coping
+  private rampAcross = 0;   // offset across the ramp
+  private rampAcrossVel = 0;
+  private liftoff: Transition | null = null; // airborne off a coping
+  private stall: TrickDefinition | null = null;
+  private stallTime = 0;
+  private surfaceUp = new Vector3(0, 1, 0); // eased body up, follows the riding surface
+  // Stance
+  private stance: Stance = "regular";
+  private switchStance = false; // opposite foot forward (swivelled out of a backward landing)
+  private rollingFakie = false; // rolling tail-first relative to the rider's facing
+  private trickStance: RidingStance = "normal"; // stance tricks are credited to (set at takeoff)
+
+  // Loaded character animation (null: the fallback rig is posed procedurally)
+  private animator: Animator | null = null;
+  private readonly LAND_ANIM_TIME = 0.25;
+  private landAnimTime = 0;
+  private airTime = 0;
+
+  // Customization: the board is built from the loadout unless the GLB brings its own
+  private loadout: Loadout = DEFAULT_LOADOUT;
+  private ownBoard = true;
+  private accessoryMesh: Mesh | null = null;
+  private glbRoot: Mesh | null = null;
+  private glbMaterials: Material[] = [];
 
   private boardBasePosY = -0.45;
   private boardBaseRotZ = 0;
 
   private onTrick?: (name: string, points: number) => void;
+  private onBailCb?: (reason: BailReason) => void;
+  private onBonkCb?: (impactSpeed: number) => void;
+  private onGrindEndCb?: (name: string, distance: number) => void;
+  private inputSource?: InputSource;
 
   private pushPhase = 0; // 0..inf
 
   constructor(scene: Scene, opts?: SkaterOptions) {
     this.scene = scene;
     this.onTrick = opts?.onTrickLanded;
+    this.onBailCb = opts?.onBail;
+    this.onBonkCb = opts?.onBonk;
+    this.onGrindEndCb = opts?.onGrindEnd;
+    this.stance = opts?.stance ?? "regular";
+    this.inputSource = opts?.input;
+    this.loadout = opts?.loadout ?? DEFAULT_LOADOUT;
     // Fallback capsule + board immediately
     this.skaterMesh = this.createFallbackSkater(scene);
-    this.tryLoadGLB();
-    this.bindInput();
+    if (!opts?.headless) {
+      this.tryLoadGLB();
+    }
     // Spawn snapped to ground at start
     this.snapToGroundAtStart();
+    this.captureSimPose();
   }
 
-  private bindInput(): void {
-    const onKeyDown = (e: KeyboardEvent) => {
-      switch (e.code) {
-        // Movement: Arrows & IJKL
-        case "ArrowUp":
-        case "KeyI": this.input.forward = true; break;
-        case "ArrowDown":
-        case "KeyK": this.input.backward = true; break;
-        case "ArrowLeft":
-        case "KeyJ": this.input.left = true; break;
-        case "ArrowRight":
-        case "KeyL": this.input.right = true; break;
-        case "Space": this.input.jump = true; break;
-        case "ShiftLeft":
-        case "ShiftRight": this.input.push = true; break;
-        // Tricks: WASD + legacy QE/F
-        case "KeyW":
-        case "KeyE": this.input.trickSpin = true; break;
-        case "KeyA":
-        case "KeyQ": this.input.trickGrab = true; break;
-        case "KeyD":
-        case "KeyF": this.input.trickFlip = true; break;
-        case "KeyS": this.input.trickShove = true; break;
-        case "KeyR":
-          // Quick recover upright
-          this.skaterMesh.rotation.x = 0;
-          this.skaterMesh.rotation.z = 0;
-          if (this.boardMesh) {
-            this.boardMesh.rotation.x = 0;
-            this.boardMesh.rotation.z = this.boardBaseRotZ;
-            this.boardMesh.position.y = this.boardBasePosY;
-          }
-          break;
-      }
-    };
-    const onKeyUp = (e: KeyboardEvent) => {
-      switch (e.code) {
-        case "ArrowUp":
-        case "KeyI": this.input.forward = false; break;
-        case "ArrowDown":
-        case "KeyK": this.input.backward = false; break;
-        case "ArrowLeft":
-        case "KeyJ": this.input.left = false; break;
-        case "ArrowRight":
-        case "KeyL": this.input.right = false; break;
-        case "Space": this.input.jump = false; break;
-        case "ShiftLeft":
-        case "ShiftRight": this.input.push = false; break;
-        case "KeyW":
-        case "KeyE": this.input.trickSpin = false; break;
-        case "KeyA":
-        case "KeyQ": this.input.trickGrab = false; break;
-        case "KeyD":
-        case "KeyF": this.input.trickFlip = false; break;
-        case "KeyS": this.input.trickShove = false; break;
-      }
-    };
-    window.addEventListener("keydown", onKeyDown);
-    window.addEventListener("keyup", onKeyUp);
+  /** Swap where input is polled from (split-screen hands each player their own half). */
+  setInputSource(source?: InputSource): void {
+    this.inputSource = source;
+    this.input = createEmptyInput();
+  }
+
+  /** Replace the whole input state (scripted frames, replays, headless runs). */
+  setInput(input: InputState): void {
+    this.input = { ...input };
+  }
+
+  /** Place the skater at rest at a position/heading, snapped to the ground below.
+   *  Anything left over from before (a bail, a manual, tricks still in the air)
+   *  is dropped without being scored. */
+  teleport(position: Vector3, yaw: number = 0): void {
+    this.clearMotionState();
+    this.skaterMesh.position.copyFrom(position);
+    this.skaterMesh.rotation.set(0, yaw, 0);
+    this.snapToGroundAtStart();
+    this.velocity.set(0, 0, 0);
+    this.prevGrounded = this.grounded;
+    this.captureSimPose();
+    this.prevSimPos.copyFrom(this.simPos);
+    this.prevSimYaw = this.simYaw;
+  }
+
+  private clearMotionState(): void {
+    // Put the rig back together if it was mid-bail
+    for (const r of this.ragdoll) {
+      r.part.position.copyFrom(r.rest);
+      r.part.rotation.set(0, 0, 0);
+    }
+    this.ragdoll = [];
+    this.bailed = false;
+    this.bailTime = 0;
+    this.isGrinding = false;
+    this.grindPath = null;
+    this.grindTime = 0;
+    this.grindDistance = 0;
+    this.grindBalance = 0;
+    this.grindBalanceVel = 0;
+    this.manualKind = null;
+    this.manualTime = 0;
+    this.manualBalance = 0;
+    this.manualBalanceVel = 0;
+    this.ramp = null;
+    this.liftoff = null;
+    this.stall = null;
+    this.stallTime = 0;
+    this.activeFlip = null;
+    this.flipTime = 0;
+    this.activeGrab = null;
+    this.grabTime = 0;
+    this.airTricks = [];
+    this.airSpinAccum = 0;
+    this.trickSpinTime = 0;
+    this.prevFlipKeys = false;
+    this.crouch = 0;
+    this.airTime = 0;
+    this.landAnimTime = 0;
+    this.surfaceUp.set(0, 1, 0);
+    this.switchStance = false;
+    this.rollingFakie = false;
+    this.trickStance = "normal";
+    if (this.skaterMesh.rotationQuaternion) this.skaterMesh.rotationQuaternion = null;
+    if (this.boardMesh) {
+      this.boardMesh.rotation.set(0, 0, this.boardBaseRotZ);
+      this.boardMesh.position.y = this.boardBasePosY;
+    }
+  }
+
+  /** Quick recover upright (bound to R by default). */
+  recoverUpright(): void {
+    if (this.bailed) return;
+    this.skaterMesh.rotation.x = 0;
+    this.skaterMesh.rotation.z = 0;
+    if (this.boardMesh) {
+      this.boardMesh.rotation.x = 0;
+      this.boardMesh.rotation.z = this.boardBaseRotZ;
+      this.boardMesh.position.y = this.boardBasePosY;
+    }
   }
 
   private snapToGroundAtStart(): void {
@@ -183,12 +343,19 @@ export class SkaterController {
         // Find board mesh if present
         for (const m of result.meshes) {
           if (m.name.toLowerCase().includes("board") || m.name.toLowerCase().includes("skateboard")) {
+            this.disposeBoard();
             this.boardMesh = m as Mesh;
+            this.ownBoard = false;
             break;
           }
         }
-        // Animation groups mapping (optional)
-        // result.animationGroups.forEach(...)
+        // No board in the model: carry the loadout board over to it
+        if (this.ownBoard && this.boardMesh) this.boardMesh.setParent(root);
+        this.glbRoot = root;
+        this.glbMaterials = result.meshes.map((m) => m.material).filter((m): m is Material => !!m);
+        this.applyLoadout();
+        // Clips are matched to states by name (see animation.ts)
+        this.animator = createAnimator(result.animationGroups);
       }
     } catch {
       // keep fallback
@@ -197,95 +364,234 @@ export class SkaterController {
 
   // (fallback skater implemented at bottom of the file)
 
+  getLoadout(): Loadout {
+    return this.loadout;
+  }
+
+  /** Rebuild the board and accessory and recolour the rider for a new loadout. */
+  setLoadout(loadout: Loadout): void {
+    this.loadout = { ...loadout };
+    if (this.ownBoard) {
+      const old = this.boardMesh;
+      const board = buildBoard(this.loadout, this.scene);
+      if (old) {
+        board.position.copyFrom(old.position);
+        board.rotation.copyFrom(old.rotation);
+        board.parent = old.parent;
+      }
+      this.disposeBoard();
+      this.boardMesh = board;
+    }
+    this.applyLoadout();
+  }
+
+  private disposeBoard(): void {
+    if (this.boardMesh && this.ownBoard) this.boardMesh.dispose(false, true);
+    this.boardMesh = null;
+  }
+
+  // Outfit colours and accessory, on the fallback rig or the loaded GLB
+  private applyLoadout(): void {
+    const colors = riderColors(this.loadout);
+    const tint = (part: Mesh | null, color: Color3) => {
+      if (part?.material) (part.material as StandardMaterial).diffuseColor = color;
+    };
+    for (const part of [this.partTorso, this.partArmL, this.partArmR]) tint(part, colors.shirt);
+    for (const part of [this.partHips, this.partLegL, this.partLegR]) tint(part, colors.pants);
+    for (const shoe of this.partShoes) tint(shoe, colors.shoes);
+    if (this.glbMaterials.length > 0) applyLoadoutToMaterials(this.glbMaterials, this.loadout);
+
+    this.accessoryMesh?.dispose(false, true);
+    this.accessoryMesh = null;
+    const acc = buildAccessory(this.loadout, this.scene);
+    if (!acc) return;
+    let anchor: TransformNode | null = acc.onHead ? this.partHead : this.partTorso;
+    if (this.glbRoot) {
+      // On a GLB, hang it off a node named like the head (or spine), else the root
+      const want = acc.onHead ? "head" : "spine";
+      anchor = this.glbRoot.getChildTransformNodes(false).find((n) => n.name.toLowerCase().includes(want)) ?? this.glbRoot;
+      if (anchor === this.glbRoot) acc.mesh.position.y += acc.onHead ? 1.65 - this.BASE_FOOT_HEIGHT : 0.45;
+    }
+    acc.mesh.parent = anchor;
+    this.accessoryMesh = acc.mesh;
+  }
+
+  /** Advance the simulation by one fixed step (see fixedStep.ts). */
   update(dt: number): void {
+    this.restoreSimPose();
+    this.prevSimPos.copyFrom(this.simPos);
+    this.prevSimYaw = this.simYaw;
+    if (this.inputSource) this.input = this.inputSource.read();
+    this.simulate(dt);
+    this.captureSimPose();
+  }
+
+  /**
+   * Blend the rendered transform between the last two fixed steps.
+   * Render-only: the next update() restores the exact simulated pose first.
+   */
+  interpolate(alpha: number): void {
+    const a = Math.max(0, Math.min(1, alpha));
+    const p = this.skaterMesh.position;
+    p.x = this.prevSimPos.x + (this.simPos.x - this.prevSimPos.x) * a;
+    p.y = this.prevSimPos.y + (this.simPos.y - this.prevSimPos.y) * a;
+    p.z = this.prevSimPos.z + (this.simPos.z - this.prevSimPos.z) * a;
+    // Shortest-arc yaw blend so spins don't unwind across the wrap
+    const dYaw = Math.atan2(Math.sin(this.simYaw - this.prevSimYaw), Math.cos(this.simYaw - this.prevSimYaw));
+    this.skaterMesh.rotation.y = this.prevSimYaw + dYaw * a;
+    this.showingInterpolated = true;
+  }
+
+  private captureSimPose(): void {
+    this.simPos.copyFrom(this.skaterMesh.position);
+    this.simYaw = this.skaterMesh.rotation.y || 0;
+    this.showingInterpolated = false;
+  }
+
+  private restoreSimPose(): void {
+    if (!this.showingInterpolated) return;
+    this.skaterMesh.position.copyFrom(this.simPos);
+    this.skaterMesh.rotation.y = this.simYaw;
+    this.showingInterpolated = false;
+  }
+
+  private simulate(dt: number): void {
+    if (this.bailed) {
+      this.updateBail(dt);
+      return;
+    }
     // Turn rate affected by speed (faster speed => smaller yaw change)
     const speed = Math.hypot(this.velocity.x, this.velocity.z);
     const turnScale = Math.max(0.3, 1.0 - speed / (this.MAX_SPEED_FLAT + 1e-3));
-    if (this.input.left) this.skaterMesh.rotation.y -= this.TURN_SPEED * turnScale * dt;
-    if (this.input.right) this.skaterMesh.rotation.y += this.TURN_SPEED * turnScale * dt;
+    // While manualing or grinding, left/right steer the balance instead of the board
+    if (!this.manualKind && !this.isGrinding) {
+      if (this.input.left) this.skaterMesh.rotation.y -= this.TURN_SPEED * turnScale * dt;
+      if (this.input.right) this.skaterMesh.rotation.y += this.TURN_SPEED * turnScale * dt;
+    }
 
     // Forward dir from yaw
     const yaw = this.skaterMesh.rotation.y || 0;
     const forward = new Vector3(Math.sin(yaw), 0, -Math.cos(yaw));
 
-    // Acceleration/brake/push
-    let accel = 0;
-    if (this.input.forward) accel += this.ACCELERATION;
-    if (this.input.backward) accel -= this.ACCELERATION * 0.8;
-    if (this.input.push && speed < this.MAX_SPEED_FLAT * 0.6 && this.grounded) {
-      accel += this.ACCELERATION * 1.5;
-    }
-    this.velocity.x += forward.x * accel * dt;
-    this.velocity.z += forward.z * accel * dt;
+    const wasOnRamp = this.ramp !== null;
+    if (this.ramp) {
+      // Riding a transition: the profile integrator owns position and velocity
+      this.updateRamp(dt);
+    } else {
+      // Acceleration/brake/push
+      let accel = 0;
+      if (this.input.forward) accel += this.ACCELERATION;
+      if (this.input.backward) accel -= this.ACCELERATION * 0.8;
+      if (this.input.push && speed < this.MAX_SPEED_FLAT * 0.6 && this.grounded) {
+        accel += this.ACCELERATION * 1.5;
+      }
+      // Air off a vert lip goes straight up and back in; no steering it over the deck
+      if (!this.liftoff) {
+        this.velocity.x += forward.x * accel * dt;
+        this.velocity.z += forward.z * accel * dt;
+      }
 
-    // Friction when no input on flat ground
-    if (!this.input.forward && !this.input.backward && !this.input.push) {
-      const h = Math.hypot(this.velocity.x, this.velocity.z);
-      if (h > 0) {
-        const decel = this.FRICTION * dt;
-        const nh = Math.max(0, h - decel);
-        const s = nh / h;
+      // Friction when no input on flat ground
+      if (!this.input.forward && !this.input.backward && !this.input.push) {
+        const h = Math.hypot(this.velocity.x, this.velocity.z);
+        if (h > 0) {
+          const decel = this.FRICTION * dt;
+          const nh = Math.max(0, h - decel);
+          const s = nh / h;
+          this.velocity.x *= s;
+          this.velocity.z *= s;
+        }
+      }
+
+      // Clamp horizontal speed
+      const hSpeed = Math.hypot(this.velocity.x, this.velocity.z);
+      if (hSpeed > this.MAX_SPEED_FLAT) {
+        const s = this.MAX_SPEED_FLAT / hSpeed;
         this.velocity.x *= s;
         this.velocity.z *= s;
       }
-    }
 
-    // Clamp horizontal speed
-    const hSpeed = Math.hypot(this.velocity.x, this.velocity.z);
-    if (hSpeed > this.MAX_SPEED_FLAT) {
-      const s = this.MAX_SPEED_FLAT / hSpeed;
-      this.velocity.x *= s;
-      this.velocity.z *= s;
-    }
-
-    // Gravity / Jump or Grind pop
-    if (this.isGrinding) {
-      if (this.input.jump) {
-        // Pop out of grind
-        this.isGrinding = false;
-        this.velocity.y = this.JUMP_FORCE;
-        // Give a small forward boost along grind direction
-        this.velocity.x += this.grindDir.x * 2.0;
-        this.velocity.z += this.grindDir.z * 2.0;
+      // Gravity / Jump or Grind pop
+      if (this.isGrinding) {
+        if (this.input.jump) {
+          // Pop out of grind
+          this.endGrind();
+          this.velocity.y = this.JUMP_FORCE;
+          // Give a small forward boost along grind direction
+          this.velocity.x += this.grindDir.x * 2.0;
+          this.velocity.z += this.grindDir.z * 2.0;
+        } else {
+          // While grinding, stay locked to rail
+          this.updateGrinding(dt);
+        }
       } else {
-        // While grinding, stay locked to rail
-        this.updateGrinding(dt);
-      }
-    } else {
-      if (this.input.jump && this.grounded) {
-        // small crouch windup
-        this.crouch = Math.min(1, this.crouch + 0.6);
-      this.velocity.y = this.JUMP_FORCE;
-        this.grounded = false;
-        this.skaterMesh.position.y += 0.01;
+        if (this.input.jump && this.grounded) {
+          // Popping out of a manual banks its time into the combo
+          if (this.manualKind) this.endManual();
+          // small crouch windup
+          this.crouch = Math.min(1, this.crouch + 0.6);
+          this.velocity.y = this.JUMP_FORCE;
+          this.grounded = false;
+          this.skaterMesh.position.y += 0.01;
+        }
+        if (!this.grounded) {
+          this.velocity.y -= this.GRAVITY * dt;
+        }
       }
-      if (!this.grounded) {
-        this.velocity.y -= this.GRAVITY * dt;
+
+      // Integrate
+      const from = this.skaterMesh.position.clone();
+      this.skaterMesh.position.x += this.velocity.x * dt;
+      this.skaterMesh.position.z += this.velocity.z * dt;
+      this.skaterMesh.position.y += this.velocity.y * dt;
+      // Walls and props: slide along them, bonk off them, or slam into them head-on
+      if (!this.isGrinding) {
+        const hit = this.collideHorizontal(from);
+        if (hit && hit.impact >= this.SLAM_SPEED) {
+          this.startBail("slammed");
+          return;
+        }
+        if (hit && hit.impact >= this.BONK_SPEED) {
+          this.velocity.x += hit.normal.x * hit.impact * 0.35;
+          this.velocity.z += hit.normal.z * hit.impact * 0.35;
+          this.onBonkCb?.(hit.impact);
+        }
       }
     }
-
-    // Integrate
-    this.skaterMesh.position.x += this.velocity.x * dt;
-    this.skaterMesh.position.z += this.velocity.z * dt;
-    this.skaterMesh.position.y += this.velocity.y * dt;
     // Keep root upright to avoid upside-down posture from any accidental torques
     this.ensureUpright();
 
     // Grounding and slope interaction or capture grind if eligible
-    if (!this.isGrinding) {
+    let capturedGrind = false;
+    if (!this.isGrinding && !this.ramp) {
       this.groundCheckAndSlope(dt);
       this.tryCaptureGrind();
+      capturedGrind = this.isGrinding;
+      // (a step after leaving a ramp is always airborne, or the lip would catch us straight back)
+      if (!this.isGrinding && !wasOnRamp) this.tryEnterTransition();
+    }
+
+    // Judge the landing before trick state is reset for the ground. Locking
+    // onto a rail isn't a landing to judge: the grind keys are held into it.
+    const justLanded = this.prevGrounded === false && this.grounded === true;
+    const bailReason = justLanded && !capturedGrind ? this.checkLandingBail() : null;
+    if (bailReason) {
+      this.startBail(bailReason);
+      return;
     }
 
     // Tricks (cosmetic) and air tracking
     this.updateTricks(dt);
+    this.updateManual(dt);
+    if (this.bailed) return;
 
     // World boundaries clamp (keep skater within play area)
     this.clampToWorldBounds();
 
     // Animate simple stance/crouch
     const moving = Math.hypot(this.velocity.x, this.velocity.z) > 0.1;
-    const targetCrouch = this.grounded ? (moving ? 0.25 : 0.1) : 0; // slight bend while rolling
+    let targetCrouch = this.grounded ? (moving ? 0.25 : 0.1) : 0; // slight bend while rolling
+    if (this.manualKind) targetCrouch = 0.55; // sit back (or over the nose) to hold the wheelie
     // decay crouch quickly after jump
     const rate = this.grounded ? 4.0 : 8.0;
     this.crouch += (targetCrouch - this.crouch) * Math.min(1, rate * dt);
@@ -295,32 +601,33 @@ export class SkaterController {
     } else {
       this.pushPhase += dt * 2.0;
     }
-    this.applyFallbackPose(dt);
-    // Landing detection → score tricks
-    if (this.prevGrounded === false && this.grounded === true) {
-      let points = 0;
-      const names: string[] = [];
-      if (this.kickflipMarked) {
-        points += 100;
-        names.push("Kickflip");
-      }
-      const turns = Math.round(this.airSpinAccum / (Math.PI * 2));
-      if (turns >= 1) {
-        points += 150 * turns;
-        names.push(`${turns}x Spin`);
-      }
-      if (this.airGrab) {
-        points += 50;
-        names.push("Grab");
-      }
-      if (points > 0 && this.onTrick) {
-        const label = names.join(" + ");
-        this.onTrick(label || "Trick", points);
+    if (this.animator) this.updateAnimation(dt, justLanded);
+    else this.applyFallbackPose(dt);
+    if (this.isGrinding) this.applyGrindPose();
+    if (this.stall) this.applyStallPose();
+    this.applySurfaceTilt(dt);
+    // Landing detection → report each trick; the combo tracker chains them
+    if (justLanded) {
+      for (const t of this.airTricks) this.reportTrick(t.name, t.points);
+      const halfTurns = Math.round(this.airSpinAccum / Math.PI);
+      if (halfTurns >= 1) this.reportTrick(`${halfTurns * 180}`, 75 * halfTurns);
+      // Landed a spin rolling backward on the flat: swivel round to ride forward
+      // on the other foot (switch). In a transition you stay backward (fakie).
+      if (!this.ramp && halfTurns % 2 === 1 && this.isRollingBackward()) {
+        this.skaterMesh.rotation.y += Math.PI;
+        this.switchStance = !this.switchStance;
       }
       // reset air state
       this.airSpinAccum = 0;
-      this.airGrab = false;
-      this.kickflipMarked = false;
+      this.airTricks = [];
+    }
+    if (this.grounded) this.liftoff = null;
+    // Rolling stance is read from velocity against facing; tricks keep the
+    // stance they started in (air, grinds, manuals, stalls freeze it)
+    if (this.grounded && !this.isGrinding && !this.manualKind && !this.stall) {
+      const h = Math.hypot(this.velocity.x, this.velocity.z);
+      if (h > 0.5) this.rollingFakie = this.isRollingBackward();
+      this.trickStance = this.getRidingStance();
     }
     this.prevGrounded = this.grounded;
   }
@@ -344,10 +651,60 @@ export class SkaterController {
     }
   }
 
+  /**
+   * Sweep the rider's capsule from `from` to where integration put it, stopping
+   * at props and sliding the rest of the move along them. Returns the hardest
+   * head-on impact (speed into the surface), or null when nothing was touched.
+   */
+  private collideHorizontal(from: Vector3): { impact: number; normal: Vector3 } | null {
+    const pos = this.skaterMesh.position;
+    const r = this.CAPSULE_RADIUS;
+    const capsule = { radius: r, feet: pos.y - this.BASE_FOOT_HEIGHT, height: this.HEIGHT, stepUp: this.STEP_HEIGHT };
+    const colliders = collectColliders(this.scene).filter((c) => blocksCapsule(c, capsule));
+    if (colliders.length === 0) return null;
+    let start = new Vector3(from.x, pos.y, from.z);
+    let target = pos.clone();
+    let worst: { impact: number; normal: Vector3 } | null = null;
+    for (let iter = 0; iter < 3; iter++) {
+      let first: SweepHit | null = null;
+      for (const c of colliders) {
+        const h = sweepCircle(c, start, target, r);
+        if (h && (!first || h.t < first.t)) first = h;
+      }
+      if (!first) break;
+      const n = first.normal;
+      const impact = -(this.velocity.x * n.x + this.velocity.z * n.z);
+      if (impact > 0) {
+        if (!worst || impact > worst.impact) worst = { impact, normal: n.clone() };
+        this.velocity.x += n.x * impact;
+        this.velocity.z += n.z * impact;
+      }
+      // Stop just short of the contact, then slide the remainder along the surface
+      const contact = Vector3.Lerp(start, target, Math.max(0, first.t - 1e-3));
+      const rest = target.subtract(contact);
+      const into = rest.x * n.x + rest.z * n.z;
+      rest.x -= n.x * into;
+      rest.z -= n.z * into;
+      start = contact;
+      target = contact.add(rest);
+    }
+    pos.x = target.x;
+    pos.z = target.z;
+    // Spawned, respawned or landed inside something: nudge back out
+    for (const c of colliders) {
+      const fix = pushOut(c, pos, r);
+      if (fix) pos.addInPlace(fix);
+    }
+    return worst;
+  }
+
   private clampToWorldBounds(): void {
-    // Expanded park bounds to match larger skatepark pad
-    const minX = -38.0, maxX = 38.0;
-    const minZ = -70.0, maxZ = 70.0;
+    if (this.worldBounds === undefined) this.worldBounds = playAreaBounds(this.scene);
+    const b = this.worldBounds;
+    if (!b) return;
+    const r = this.CAPSULE_RADIUS;
+    const minX = b.minX + r, maxX = b.maxX - r;
+    const minZ = b.minZ + r, maxZ = b.maxZ - r;
     const p = this.skaterMesh.position;
     if (p.x < minX) { p.x = minX; if (this.velocity.x < 0) this.velocity.x = 0; }
     if (p.x > maxX) { p.x = maxX; if (this.velocity.x > 0) this.velocity.x = 0; }
@@ -356,104 +713,147 @@ export class SkaterController {
   }
 
   private tryCaptureGrind(): void {
-    if (!this.grounded) return;
+    // Lock on while rolling onto a rail or dropping onto it, never while rising
+    if (!this.grounded && this.velocity.y > 0) return;
     const speed = Math.hypot(this.velocity.x, this.velocity.z);
     if (speed < 2.0) return;
-    // Find nearest rail within a small horizontal radius
+    // Find nearest rail or grindable edge within a small horizontal radius
+    const p = this.skaterMesh.position;
     let bestDist = 0.3;
-    let best: { start: Vector3; end: Vector3; y: number } | null = null;
-    for (const m of this.scene.meshes) {
-      const md: any = (m as any).metadata;
-      if (!md || !md.isRail) continue;
-      const start: Vector3 = md.start;
-      const end: Vector3 = md.end;
-      const p = this.skaterMesh.position;
-      const cp = this.closestPointOnSegment(p, start, end);
-      const d = Math.hypot(p.x - cp.x, p.z - cp.z);
-      const yOk = Math.abs(p.y - (start.y + md.radius + 0.12)) < 0.25;
-      if (d < bestDist && yOk) {
-        bestDist = d;
-        best = { start, end, y: start.y + md.radius + 0.12 };
+    let best: { path: RailPath; s: number; point: Vector3 } | null = null;
+    for (const path of collectRailPaths(this.scene)) {
+      // Ledge/curb edges must be ollied onto, not rolled into
+      if (path.requiresAir && this.prevGrounded) continue;
+      const c = closestOnPath(path, p);
+      if (c.distXZ >= bestDist) continue;
+      // Root height with the board on top of the rail
+      const lockY = c.point.y + path.radius + this.BASE_FOOT_HEIGHT;
+      if (p.y > lockY - 0.25 && p.y < lockY + 0.4) {
+        bestDist = c.distXZ;
+        best = { path, s: c.s, point: c.point };
       }
     }
-    if (best) {
-      // Enter grind
-      this.isGrinding = true;
-      this.grindStart.copyFrom(best.start);
-      this.grindEnd.copyFrom(best.end);
-      this.grindDir = best.end.subtract(best.start);
-      this.grindLen = Math.max(0.001, this.grindDir.length());
-      this.grindDir.scaleInPlace(1 / this.grindLen);
-      const cp = this.closestPointOnSegment(this.skaterMesh.position, this.grindStart, this.grindEnd);
-      const t = this.paramAlong(cp, this.grindStart, this.grindEnd);
-      this.grindT = t;
-      // Project velocity along rail
-      const v = new Vector3(this.velocity.x, 0, this.velocity.z);
-      const along = v.x * this.grindDir.x + v.z * this.grindDir.z;
-      this.velocity.x = this.grindDir.x * along;
-      this.velocity.z = this.grindDir.z * along;
-      // Lock position to rail
-      this.skaterMesh.position.x = cp.x;
-      this.skaterMesh.position.y = best.y;
-      this.skaterMesh.position.z = cp.z;
-      this.velocity.y = 0;
-      this.grounded = true;
-      // Face along rail
-      this.skaterMesh.rotation.y = Math.atan2(this.grindDir.x, -this.grindDir.z);
-    }
+    if (!best) return;
+    // Approach angle decides between grinds (parallel) and slides (square)
+    const tangent = tangentAt(best.path, best.s);
+    const th = Math.hypot(tangent.x, tangent.z) || 1;
+    let along = (this.velocity.x * tangent.x + this.velocity.z * tangent.z) / th;
+    const approach = Math.acos(Math.min(1, Math.abs(along) / Math.max(1e-3, speed)));
+    const kind = chooseGrind(approach, this.input);
+    // Don't lock on at the very end of a path heading off it
+    const sign = along < 0 ? -1 : 1;
+    if ((sign > 0 && best.s > best.path.length - 0.05) || (sign < 0 && best.s < 0.05)) return;
+    // Enter grind; slides keep some of the square-on speed
+    this.isGrinding = true;
+    this.grindKind = kind;
+    this.grindPath = best.path;
+    this.grindS = best.s;
+    this.grindSign = sign;
+    along = Math.max(Math.abs(along), speed * 0.6);
+    this.setGrindVelocity(along);
+    // Lock position to rail
+    this.railHeight = best.point.y + best.path.radius + this.BASE_FOOT_HEIGHT;
+    this.skaterMesh.position.x = best.point.x;
+    this.skaterMesh.position.y = this.railHeight;
+    this.skaterMesh.position.z = best.point.z;
+    this.velocity.y = 0;
+    this.grounded = true;
+    this.grindTime = 0;
+    this.grindDistance = 0;
+    this.grindBalance = 0;
+    this.grindBalanceVel = this.grindCount % 2 === 0 ? 0.25 : -0.25;
+    this.grindCount++;
+  }
+
+  /** Point velocity and facing along the rail's tangent at the current arc length. */
+  private setGrindVelocity(speed: number): void {
+    if (!this.grindPath) return;
+    const t = tangentAt(this.grindPath, this.grindS);
+    const h = Math.hypot(t.x, t.z) || 1;
+    this.grindDir.set((t.x / h) * this.grindSign, 0, (t.z / h) * this.grindSign);
+    this.velocity.x = this.grindDir.x * speed;
+    this.velocity.z = this.grindDir.z * speed;
+    // Face along the direction of travel (follows bends smoothly)
+    this.skaterMesh.rotation.y = Math.atan2(this.grindDir.x, -this.grindDir.z);
   }
 
   private updateGrinding(dt: number): void {
-    // Move along rail parameter by velocity along direction
-    const along = this.velocity.x * this.grindDir.x + this.velocity.z * this.grindDir.z;
-    const ds = along * dt;
-    const dT = ds / this.grindLen;
-    this.grindT += dT;
-    // Small friction while grinding
-    this.velocity.x *= 1 - Math.min(1, this.FRICTION * 0.25 * dt);
-    this.velocity.z *= 1 - Math.min(1, this.FRICTION * 0.25 * dt);
-    // Allow gentle acceleration with W/S along the rail
-    if (this.input.forward) {
-      this.velocity.x += this.grindDir.x * this.ACCELERATION * 0.5 * dt;
-      this.velocity.z += this.grindDir.z * this.ACCELERATION * 0.5 * dt;
-    } else if (this.input.backward) {
-      this.velocity.x -= this.grindDir.x * this.ACCELERATION * 0.5 * dt;
-      this.velocity.z -= this.grindDir.z * this.ACCELERATION * 0.5 * dt;
+    const path = this.grindPath;
+    if (!path) {
+      this.isGrinding = false;
+      return;
     }
+    // Advance along the path by the speed along the current travel direction
+    let speed = Math.max(0, this.velocity.x * this.grindDir.x + this.velocity.z * this.grindDir.z);
+    // Small friction while grinding
+    speed *= 1 - Math.min(1, this.FRICTION * 0.25 * dt);
+    // Gravity along sloped sections (down-rails speed you up)
+    const slope = tangentAt(path, this.grindS).y * this.grindSign;
+    speed = Math.max(0, speed - this.GRAVITY * 0.5 * slope * dt);
+    // Allow gentle acceleration/braking along the rail
+    if (this.input.forward) speed += this.ACCELERATION * 0.5 * dt;
+    else if (this.input.backward) speed = Math.max(0, speed - this.ACCELERATION * 0.5 * dt);
     // Clamp overall speed similar to flat max
-    const h = Math.hypot(this.velocity.x, this.velocity.z);
-    if (h > this.MAX_SPEED_FLAT) {
-      const s = this.MAX_SPEED_FLAT / h;
-      this.velocity.x *= s;
-      this.velocity.z *= s;
+    speed = Math.min(this.MAX_SPEED_FLAT, speed);
+    const ds = speed * dt;
+    this.grindS += ds * this.grindSign;
+    this.grindTime += dt;
+    this.grindDistance += ds;
+    // Leave rail if we run out of path (or stall on it)
+    if (this.grindS <= 0 || this.grindS >= path.length || speed < 0.5) {
+      this.endGrind();
+      this.grounded = false; // fall off the end
+      return;
     }
-    // Leave rail if we run out of segment
-    if (this.grindT <= 0 || this.grindT >= 1) {
+    this.setGrindVelocity(speed);
+    // Balance: same unstable wobble as manuals, scaled by the grind's touchiness
+    const def = GRINDS[this.grindKind];
+    const push = Math.sign(this.grindBalanceVel || this.grindBalance || 1);
+    this.grindBalanceVel += (this.grindBalance * 2.0 + push * 0.12 * Math.min(2, this.grindTime)) * def.touchiness * dt;
+    if (this.input.left) this.grindBalanceVel -= 2.8 * dt;
+    if (this.input.right) this.grindBalanceVel += 2.8 * dt;
+    this.grindBalanceVel *= 1 - Math.min(1, 0.3 * dt);
+    this.grindBalance += this.grindBalanceVel * dt;
+    if (Math.abs(this.grindBalance) >= 1) {
       this.isGrinding = false;
-      this.grounded = false; // fall off the end
+      this.startBail("lost-balance");
       return;
     }
-    // Update locked position to the segment
-    const pos = Vector3.Lerp(this.grindStart, this.grindEnd, this.grindT);
+    // Update locked position on the path (follows slopes and bends)
+    const pos = pointAt(path, this.grindS);
+    this.railHeight = pos.y + path.radius + this.BASE_FOOT_HEIGHT;
     this.skaterMesh.position.x = pos.x;
     this.skaterMesh.position.z = pos.z;
-    // Maintain slight clearance above rail
-    this.skaterMesh.position.y = this.grindStart.y + 0.12;
+    this.skaterMesh.position.y = this.railHeight;
   }
 
-  private closestPointOnSegment(p: Vector3, a: Vector3, b: Vector3): Vector3 {
-    const ab = b.subtract(a);
-    const t = this.paramAlong(p, a, b);
-    return a.add(ab.scale(t));
+  /** Leave the rail and report the grind (name + time/distance points). */
+  private endGrind(): void {
+    if (!this.isGrinding) return;
+    this.isGrinding = false;
+    this.grindPath = null;
+    const def = GRINDS[this.grindKind];
+    const points = grindPoints(def, this.grindTime, this.grindDistance);
+    this.onGrindEndCb?.(def.name, this.grindDistance);
+    this.grindTime = 0;
+    this.grindDistance = 0;
+    this.grindBalance = 0;
+    if (points > 0) this.reportTrick(def.name, points);
   }
 
-  private paramAlong(p: Vector3, a: Vector3, b: Vector3): number {
-    const ab = b.subtract(a);
-    const ap = p.subtract(a);
-    const denom = ab.lengthSquared();
-    if (denom <= 1e-6) return 0;
-    const t = (ap.x * ab.x + ap.y * ab.y + ap.z * ab.z) / denom;
-    return Math.max(0, Math.min(1, t));
+  /** Board + torso pose for the active grind (runs after the generic board easing). */
+  private applyGrindPose(): void {
+    const def = GRINDS[this.grindKind];
+    if (this.boardMesh) {
+      this.boardMesh.rotation.y = def.board.yaw;
+      this.boardMesh.rotation.x = def.board.pitch;
+      this.boardMesh.rotation.z = this.boardBaseRotZ + def.board.roll + this.grindBalance * 0.15;
+      this.boardMesh.position.y = this.boardBasePosY + def.board.lift;
+    }
+    if (this.partTorso) {
+      this.partTorso.rotation.y = (-0.25 + def.torsoYaw) * this.stanceSign();
+      this.partTorso.rotation.z = -this.grindBalance * 0.35;
+    }
   }
 
   private groundCheckAndSlope(_dt: number): void {
@@ -499,6 +899,7 @@ export class SkaterController {
   }
 
   private updateTricks(dt: number): void {
+    const flipKeys = this.input.trickFlip || this.input.trickShove;
     if (!this.grounded) {
       if (this.input.trickSpin) {
         this.trickSpinTime += dt;
@@ -508,55 +909,67 @@ export class SkaterController {
       } else {
         this.trickSpinTime = 0;
       }
+      // Grabs: chosen when the grab key goes down, count once held long enough
       if (this.input.trickGrab) {
-        this.trickGrabTime += dt;
-        if (this.boardMesh) {
-          this.boardMesh.rotation.x = Math.sin(this.trickGrabTime * 6.0) * 0.2;
+        if (!this.activeGrab) {
+          this.activeGrab = matchTrick("grab", this.input);
+          this.grabTime = 0;
+        }
+        this.grabTime += dt;
+        const g = this.activeGrab;
+        if (g) {
+          if (this.boardMesh) {
+            this.boardMesh.rotation.x = g.board.pitch + Math.sin(this.grabTime * 6.0) * g.board.wobble;
+            this.boardMesh.rotation.z = this.boardBaseRotZ + g.board.roll;
+          }
+          if (this.grabTime >= g.duration && !this.airTricks.includes(g)) this.airTricks.push(g);
         }
-        if (this.trickGrabTime > 0.2) this.airGrab = true;
       } else {
         if (this.boardMesh) this.boardMesh.rotation.x *= 0.9;
-        this.trickGrabTime = 0;
-      }
-      // Kickflip (board rotates around local Z)
-      if (this.input.trickFlip && !this.isFlipping) {
-        this.isFlipping = true;
-        this.trickFlipTime = 0;
-        this.kickflipMarked = true;
+        this.activeGrab = null;
+        this.grabTime = 0;
       }
-      // Shove-it (board spins around Y axis 180-360 while airborne)
-      if (this.input.trickShove && this.boardMesh) {
-        const shoveSpeed = Math.PI * 4; // 720 deg/sec possible
-        this.boardMesh.rotation.y += shoveSpeed * dt;
-      } else if (this.boardMesh) {
-        // ease back toward base Y rotation when not shoving
-        this.boardMesh.rotation.y *= 0.9;
+      // Flip tricks start on a fresh press of flip/shove (modifiers pick the variant)
+      if (flipKeys && !this.prevFlipKeys && !this.activeFlip) {
+        this.activeFlip = matchTrick("flip", this.input);
+        this.flipTime = 0;
       }
-      if (this.isFlipping && this.boardMesh) {
-        this.trickFlipTime += dt;
-        const dur = 0.55;
-        const t = Math.min(1, this.trickFlipTime / dur);
-        const angle = Math.PI * 2 * t; // 360
-        this.boardMesh.rotation.z = this.boardBaseRotZ + angle;
-        // subtle board lift during flip
-        this.boardMesh.position.y = this.boardBasePosY + Math.sin(Math.PI * t) * 0.06;
+      if (this.activeFlip) {
+        const f = this.activeFlip;
+        this.flipTime += dt;
+        const t = Math.min(1, this.flipTime / f.duration);
+        if (this.boardMesh) {
+          this.boardMesh.rotation.z = this.boardBaseRotZ + Math.PI * 2 * f.board.flipTurns * t;
+          this.boardMesh.rotation.y = Math.PI * 2 * f.board.shoveTurns * t;
+          // subtle board lift during flip
+          this.boardMesh.position.y = this.boardBasePosY + Math.sin(Math.PI * t) * f.board.lift;
+        }
         if (t >= 1) {
-          this.isFlipping = false;
-          this.boardMesh.rotation.z = this.boardBaseRotZ;
-          this.boardMesh.position.y = this.boardBasePosY;
+          this.activeFlip = null;
+          this.airTricks.push(f);
+          if (this.boardMesh) {
+            this.boardMesh.rotation.z = this.boardBaseRotZ;
+            this.boardMesh.rotation.y = 0;
+            this.boardMesh.position.y = this.boardBasePosY;
+          }
         }
+      } else if (this.boardMesh && !this.activeGrab) {
+        // ease back toward base Y rotation when not tricking
+        this.boardMesh.rotation.y *= 0.9;
       }
     } else {
       // Reset board tilt on land
       if (this.boardMesh) this.boardMesh.rotation.x *= 0.8;
       this.trickSpinTime = 0;
-      this.trickGrabTime = 0;
-      this.isFlipping = false;
+      this.activeGrab = null;
+      this.grabTime = 0;
+      this.activeFlip = null;
       if (this.boardMesh) {
         this.boardMesh.rotation.z = this.boardBaseRotZ;
         this.boardMesh.position.y = this.boardBasePosY;
       }
     }
+    this.prevFlipKeys = flipKeys;
   }
 
   getPosition(): Vector3 {
@@ -564,6 +977,11 @@ export class SkaterController {
     // Returning reference is fine as caller should not mutate directly
   }
 
+  /** Heading in radians (forward = (sin yaw, 0, -cos yaw)). */
+  getYaw(): number {
+    return this.skaterMesh.rotation.y;
+  }
+
   getVelocity(): Vector3 {
     return this.velocity;
   }
@@ -572,6 +990,482 @@ export class SkaterController {
     return this.grounded;
   }
 
+  /** True while the skater is doing something that keeps a combo alive (air, grind, manual, lip trick). */
+  isLinking(): boolean {
+    return !this.bailed && (!this.grounded || this.isGrinding || this.manualKind !== null || this.stall !== null);
+  }
+
+  isBailed(): boolean {
+    return this.bailed;
+  }
+
+  getStance(): Stance {
+    return this.stance;
+  }
+
+  /** Change the natural stance (regular = left foot forward); the rig mirrors to match. */
+  setStance(stance: Stance): void {
+    this.stance = stance;
+  }
+
+  getRidingStance(): RidingStance {
+    if (this.rollingFakie) return "fakie";
+    return this.switchStance ? "switch" : "normal";
+  }
+
+  private isRollingBackward(): boolean {
+    const yaw = this.skaterMesh.rotation.y || 0;
+    return this.velocity.x * Math.sin(yaw) - this.velocity.z * Math.cos(yaw) < 0;
+  }
+
+  // +1 when the left foot leads (regular, or goofy riding switch), -1 when mirrored
+  private stanceSign(): number {
+    return (this.stance === "goofy") !== this.switchStance ? -1 : 1;
+  }
+
+  /** Credit a trick in the stance it was started in ("Switch Kickflip", "Fakie 360"). */
+  private reportTrick(name: string, points: number): void {
+    const stance = this.trickStance;
+    if (stance === "normal") {
+      this.onTrick?.(name, points);
+      return;
+    }
+    const prefix = stance === "fakie" ? "Fakie" : "Switch";
+    this.onTrick?.(`${prefix} ${name}`, Math.round(points * STANCE_BONUS[stance]));
+  }
+
+  /** Current grind name and its balance (-1..1), or null when not on a rail. */
+  getGrind(): { name: string; balance: number } | null {
+    return this.isGrinding ? { name: GRINDS[this.grindKind].name, balance: this.grindBalance } : null;
+  }
+
+  /** Current manual and its balance (-1..1, tips at either end), or null. */
+  getManual(): { kind: ManualKind; balance: number } | null {
+    return this.manualKind ? { kind: this.manualKind, balance: this.manualBalance } : null;
+  }
+
+  /** Root mesh the rider hangs off (for attaching labels and markers). */
+  getRoot(): Mesh {
+    return this.skaterMesh;
+  }
+
+  /** Current visible pose (read after update(), this is the simulated one). */
+  getPose(): SkaterPose {
+    const board = this.boardMesh;
+    return {
+      position: this.skaterMesh.position.clone(),
+      rotation: new Vector3(this.skaterMesh.rotation.x, this.skaterMesh.rotation.y, this.skaterMesh.rotation.z),
+      boardRotation: board ? board.rotation.clone() : Vector3.Zero(),
+      boardY: board ? board.position.y : this.boardBasePosY,
+      crouch: this.crouch,
+      grind: this.isGrinding ? { kind: this.grindKind, balance: this.grindBalance } : null,
+      manual: this.getManual(),
+      ragdoll: this.bailed ? this.ragdollParts().map((part) => {
+        const r = this.ragdoll.find((r) => r.part === part);
+        return r ? [r.part.position.subtract(r.rest), r.part.rotation.clone()] : [Vector3.Zero(), Vector3.Zero()];
+      }) : null
+    };
+  }
+
+  /** Show a pose without simulating (ghosts, replays). The fallback rig's limbs follow the
+   *  crouch, grind and manual balance, and come apart as they did in a bail. */
+  setPose(pose: SkaterPose): void {
+    this.skaterMesh.position.copyFrom(pose.position);
+    if (this.skaterMesh.rotationQuaternion) this.skaterMesh.rotationQuaternion = null;
+    this.skaterMesh.rotation.copyFrom(pose.rotation);
+    // Parts first: putting a bailed rig back together resets the board too
+    this.setRagdollPose(pose.ragdoll);
+    if (this.boardMesh && !this.bailed) {
+      this.boardMesh.rotation.copyFrom(pose.boardRotation);
+      this.boardMesh.position.y = pose.boardY;
+    }
+    this.crouch = pose.crouch;
+    this.isGrinding = pose.grind !== null;
+    if (pose.grind) {
+      this.grindKind = pose.grind.kind;
+      this.grindBalance = pose.grind.balance;
+    }
+    this.manualKind = pose.manual ? pose.manual.kind : null;
+    this.manualBalance = pose.manual ? pose.manual.balance : 0;
+    if (!this.bailed) {
+      this.applyFallbackPose(0);
+      if (this.isGrinding) this.applyGrindPose();
+    }
+    if (this.animator) {
+      this.animator.setState(this.bailed ? "bail" : this.isGrinding ? "grind" : this.manualKind ? "manual" : this.crouch > 0.4 ? "crouch" : "idle");
+      this.animator.update(0);
+    }
+    this.captureSimPose();
+    this.prevSimPos.copyFrom(this.simPos);
+    this.prevSimYaw = this.simYaw;
+  }
+
+  private setRagdollPose(ragdoll: Vector3[][] | null): void {
+    if (!ragdoll) {
+      for (const r of this.ragdoll) {
+        r.part.position.copyFrom(r.rest);
+        r.part.rotation.set(0, 0, 0);
+      }
+      this.ragdoll = [];
+      this.bailed = false;
+      return;
+    }
+    // Entering the bail: remember where each part rests so the offsets apply from there
+    if (!this.bailed) {
+      this.ragdoll = [];
+      for (const part of this.ragdollParts()) {
+        if (part) this.ragdoll.push({ part, rest: part.position.clone(), vel: Vector3.Zero(), spin: Vector3.Zero() });
+      }
+      this.bailed = true;
+    }
+    const parts = this.ragdollParts();
+    for (const r of this.ragdoll) {
+      const slot = ragdoll[parts.indexOf(r.part)];
+      if (!slot) continue;
+      r.part.position.copyFrom(r.rest.add(slot[0]));
+      r.part.rotation.copyFrom(slot[1]);
+    }
+  }
+
+  /** Fade the fallback rig and board to a see-through ghost (not pickable, no shadows needed). */
+  makeGhost(alpha: number): void {
+    for (const m of this.skaterMesh.getChildMeshes(false)) {
+      m.isPickable = false;
+      if (m.material) {
+        m.material.alpha = alpha;
+        (m.material as StandardMaterial).emissiveColor = new Color3(0.35, 0.55, 0.9);
+      }
+    }
+  }
+
+  // ------- Transitions -------
+  private tryEnterTransition(): void {
+    for (const t of collectTransitions(this.scene)) {
+      const c = contactOnTransition(t, this.skaterMesh.position, this.BASE_FOOT_HEIGHT);
+      if (!c) continue;
+      const pose = transitionPose(t, c.s, c.across);
+      // Only when rolling or falling into the surface, never while leaving it
+      if (Vector3.Dot(this.velocity, pose.normal) > 0.01) continue;
+      if (this.manualKind) this.endManual();
+      this.ramp = t;
+      this.rampS = c.s;
+      this.rampAcross = c.across;
+      this.rampSpeed = Vector3.Dot(this.velocity, pose.tangent);
+      this.rampAcrossVel = Vector3.Dot(this.velocity, t.side);
+      this.skaterMesh.position.copyFrom(pose.point.add(pose.normal.scale(this.BASE_FOOT_HEIGHT)));
+      this.velocity.copyFrom(pose.tangent.scale(this.rampSpeed).addInPlace(t.side.scale(this.rampAcrossVel)));
+      // Re-entry from the air: the board goes back in on the fall line, nose or tail first
+      if (!this.grounded) this.alignToFallLine(t, 1);
+      this.grounded = true;
+      return;
+    }
+  }
+
+  private updateRamp(dt: number): void {
+    const t = this.ramp!;
+    if (this.stall) {
+      this.updateStall(dt, t);
+      return;
+    }
+    const len = transitionLength(t);
+    let pose = transitionPose(t, this.rampS, this.rampAcross);
+    if (this.input.jump) {
+      // Ollie off the surface along its normal
+      this.crouch = Math.min(1, this.crouch + 0.6);
+      this.leaveRamp(pose.tangent.scale(this.rampSpeed).addInPlace(t.side.scale(this.rampAcrossVel)).addInPlace(pose.normal.scale(this.JUMP_FORCE)), false);
+      return;
+    }
+    // Gravity along the profile; pumping the curve adds speed in the direction of travel
+    this.rampSpeed -= this.GRAVITY * pose.tangent.y * dt;
+    const dir = Math.sign(this.rampSpeed) || 1;
+    if (this.input.forward && pose.onCurve) this.rampSpeed += dir * this.ACCELERATION * 0.6 * dt;
+    if (this.input.backward) this.rampSpeed -= dir * Math.min(Math.abs(this.rampSpeed), this.ACCELERATION * 0.5 * dt);
+    this.rampAcrossVel *= 1 - Math.min(1, 0.6 * dt);
+    this.rampS += this.rampSpeed * dt;
+    this.rampAcross += this.rampAcrossVel * dt;
+
+    if (this.rampS <= 0) {
+      // Rolled out onto the flat
+      const exit = t.axis.scale(this.rampSpeed).addInPlace(t.side.scale(this.rampAcrossVel));
+      const foot = t.origin.add(t.axis.scale(this.rampS)).addInPlace(t.side.scale(this.rampAcross));
+      this.ramp = null;
+      this.skaterMesh.position.set(foot.x, foot.y + this.BASE_FOOT_HEIGHT, foot.z);
+      this.velocity.set(exit.x, 0, exit.z);
+      this.grounded = true;
+      return;
+    }
+    if (this.rampS >= len) {
+      const lip = matchTrick("lip", this.input);
+      if (lip && this.rampSpeed < this.LIP_STALL_SPEED) {
+        this.startStall(lip, t);
+        return;
+      }
+      // Off the coping: whatever speed is left becomes air (straight up off a vert)
+      pose = transitionPose(t, len, this.rampAcross);
+      this.skaterMesh.position.copyFrom(pose.point.add(pose.normal.scale(this.BASE_FOOT_HEIGHT)));
+      this.leaveRamp(pose.tangent.scale(this.rampSpeed).addInPlace(t.side.scale(this.rampAcrossVel)), true);
+      return;
+    }
+    if (Math.abs(this.rampAcross) > t.width * 0.5) {
+      // Rode off the side
+      this.leaveRamp(pose.tangent.scale(this.rampSpeed).addInPlace(t.side.scale(this.rampAcrossVel)), false);
+      return;
+    }
+    pose = transitionPose(t, this.rampS, this.rampAcross);
+    this.skaterMesh.position.copyFrom(pose.point.add(pose.normal.scale(this.BASE_FOOT_HEIGHT)));
+    this.velocity.copyFrom(pose.tangent.scale(this.rampSpeed).addInPlace(t.side.scale(this.rampAcrossVel)));
+    this.grounded = true;
+    // The board swings onto the fall line as the wall steepens
+    this.alignToFallLine(t, Math.min(1, 6 * dt * (1 - pose.normal.y)));
+  }
+
+  private leaveRamp(velocity: Vector3, offLip: boolean): void {
+    this.liftoff = offLip ? this.ramp : null;
+    this.ramp = null;
+    this.velocity.copyFrom(velocity);
+    this.grounded = false;
+  }
+
+  private startStall(def: TrickDefinition, t: Transition): void {
+    this.stall = def;
+    this.stallTime = 0;
+    this.rampS = transitionLength(t);
+    this.rampSpeed = 0;
+    // Perched on the coping, trucks just over the deck edge
+    const lip = transitionPose(t, this.rampS, this.rampAcross).point;
+    this.skaterMesh.position.copyFrom(lip.add(t.axis.scale(0.15)));
+    this.skaterMesh.position.y += this.BASE_FOOT_HEIGHT;
+    this.velocity.set(0, 0, 0);
+    this.grounded = true;
+  }
+
+  private updateStall(dt: number, t: Transition): void {
+    const def = this.stall!;
+    this.stallTime += dt;
+    const held = def.input.every((k) => this.input[k]);
+    if (held && this.stallTime < this.LIP_MAX_STALL) return;
+    // Let go: drop back in down the wall, forward or fakie
+    this.stall = null;
+    if (this.stallTime >= def.duration) this.reportTrick(def.name, def.points);
+    this.rampS = transitionLength(t) - 0.01;
+    this.rampSpeed = -1.5;
+    this.skaterMesh.rotation.y = this.fallLineYaw(t, def.reentry === "fakie" ? 1 : -1);
+    const pose = transitionPose(t, this.rampS, this.rampAcross);
+    this.skaterMesh.position.copyFrom(pose.point.add(pose.normal.scale(this.BASE_FOOT_HEIGHT)));
+    this.velocity.copyFrom(pose.tangent.scale(this.rampSpeed));
+  }
+
+  // Yaw facing up the ramp (dir = 1) or down it (dir = -1)
+  private fallLineYaw(t: Transition, dir: number): number {
+    return Math.atan2(t.axis.x * dir, -t.axis.z * dir);
+  }
+
+  /** Turn toward whichever way along the fall line is closer (w = 0..1 of the way). */
+  private alignToFallLine(t: Transition, w: number): void {
+    const yaw = this.skaterMesh.rotation.y || 0;
+    const facingUp = Math.sin(yaw) * t.axis.x - Math.cos(yaw) * t.axis.z >= 0;
+    const target = this.fallLineYaw(t, facingUp ? 1 : -1);
+    let delta = (target - yaw) % (Math.PI * 2);
+    if (delta > Math.PI) delta -= Math.PI * 2;
+    if (delta < -Math.PI) delta += Math.PI * 2;
+    this.skaterMesh.rotation.y = yaw + delta * w;
+  }
+
+  private applyStallPose(): void {
+    const def = this.stall;
+    if (!def || !this.boardMesh) return;
+    this.boardMesh.rotation.x = def.board.pitch + Math.sin(this.stallTime * 5.0) * def.board.wobble;
+    this.boardMesh.rotation.z = this.boardBaseRotZ + def.board.roll;
+    this.boardMesh.position.y = this.boardBasePosY + def.board.lift;
+  }
+
+  // Lean the whole rider so their up follows the riding surface (wheels on the wall)
+  private applySurfaceTilt(dt: number): void {
+    const target = this.ramp && !this.stall ? transitionPose(this.ramp, this.rampS, this.rampAcross).normal : new Vector3(0, 1, 0);
+    const rate = this.ramp ? 15 : 4;
+    this.surfaceUp = Vector3.Lerp(this.surfaceUp, target, Math.min(1, rate * dt)).normalize();
+    if (this.surfaceUp.y > 0.9999) return;
+    // Up in the rider's yaw frame, then the pitch/roll that produce it
+    const local = Vector3.TransformNormal(this.surfaceUp, Matrix.RotationY(-(this.skaterMesh.rotation.y || 0)));
+    this.skaterMesh.rotation.x = Math.atan2(local.z, local.y);
+    this.skaterMesh.rotation.z = Math.asin(Math.max(-1, Math.min(1, -local.x)));
+  }
+
+  // ------- Manuals -------
+  private updateManual(dt: number): void {
+    const speed = Math.hypot(this.velocity.x, this.velocity.z);
+    if (!this.manualKind) {
+      if (!this.grounded || this.isGrinding || this.ramp || speed < this.MANUAL_MIN_SPEED) return;
+      if (this.input.manual) this.startManual("manual");
+      else if (this.input.noseManual) this.startManual("nose");
+      return;
+    }
+    // Rolled off an edge, slowed to a stop or let go: end cleanly
+    const held = this.manualKind === "manual" ? this.input.manual : this.input.noseManual;
+    if (!held || !this.grounded || this.isGrinding || speed < this.MANUAL_MIN_SPEED * 0.5) {
+      this.endManual();
+      return;
+    }
+    this.manualTime += dt;
+    // Unstable balance: the further off-centre, the faster it falls, and it
+    // gets twitchier the longer the manual is held. Nose manuals are touchier.
+    const touchy = this.manualKind === "nose" ? 1.3 : 1.0;
+    const push = Math.sign(this.manualBalanceVel || this.manualBalance || 1);
+    this.manualBalanceVel += (this.manualBalance * 2.2 + push * 0.15 * Math.min(2, this.manualTime)) * touchy * dt;
+    if (this.input.left) this.manualBalanceVel -= 2.8 * dt;
+    if (this.input.right) this.manualBalanceVel += 2.8 * dt;
+    this.manualBalanceVel *= 1 - Math.min(1, 0.3 * dt);
+    this.manualBalance += this.manualBalanceVel * dt;
+    if (Math.abs(this.manualBalance) >= 1) {
+      this.startBail("lost-balance");
+      return;
+    }
+    // Board pitch: tail down for a manual, nose down for a nose manual
+    if (this.boardMesh) {
+      const pitch = 0.28 + Math.abs(this.manualBalance) * 0.08;
+      this.boardMesh.rotation.x = this.manualKind === "manual" ? pitch : -pitch;
+      this.boardMesh.position.y = this.boardBasePosY + 0.06;
+    }
+  }
+
+  private startManual(kind: ManualKind): void {
+    this.manualKind = kind;
+    this.manualTime = 0;
+    this.manualBalance = 0;
+    // Alternate the initial wobble so consecutive manuals don't feel identical
+    this.manualBalanceVel = this.manualCount % 2 === 0 ? 0.35 : -0.35;
+    this.manualCount++;
+  }
+
+  private endManual(): void {
+    const kind = this.manualKind;
+    const time = this.manualTime;
+    this.manualKind = null;
+    this.manualTime = 0;
+    this.manualBalance = 0;
+    if (this.boardMesh) this.boardMesh.position.y = this.boardBasePosY;
+    if (time > 0.3) {
+      this.reportTrick(kind === "nose" ? "Nose Manual" : "Manual", Math.round(time * this.MANUAL_POINTS_PER_SEC));
+    }
+  }
+
+  // ------- Bails -------
+  private checkLandingBail(): BailReason | null {
+    if (this.activeFlip) return "unfinished-flip";
+    if (this.input.trickGrab) return "held-grab";
+    // Spins must finish lined up with the board's rolling line (nose or tail
+    // first). Steering is forgiven; only the spin rotation is judged.
+    let off = this.airSpinAccum % Math.PI;
+    off = Math.min(off, Math.PI - off);
+    if (off > this.BAIL_YAW_TOLERANCE) return "sketchy-landing";
+    return null;
+  }
+
+  private startBail(reason: BailReason): void {
+    this.manualKind = null;
+    this.bailed = true;
+    this.bailTime = 0;
+    this.isGrinding = false;
+    this.ramp = null;
+    this.liftoff = null;
+    this.stall = null;
+    this.activeFlip = null;
+    this.activeGrab = null;
+    this.airSpinAccum = 0;
+    this.airTricks = [];
+    this.prevGrounded = this.grounded;
+    this.animator?.setState("bail");
+    // Throw the rig parts (and board) along the direction of travel. Impulses
+    // are derived from the part index, not randomness, so runs stay deterministic.
+    const speed = Math.hypot(this.velocity.x, this.velocity.z);
+    const fling = Math.min(4, 1 + speed * 0.35);
+    this.ragdoll = [];
+    this.ragdollParts().forEach((part, i) => {
+      if (!part) return;
+      const side = i % 2 === 0 ? 1 : -1;
+      const isBoard = part === this.boardMesh;
+      this.ragdoll.push({
+        part,
+        rest: part.position.clone(),
+        // Local space: -Z is the rider's forward
+        vel: new Vector3(side * 0.4 * (1 + i * 0.15), 1.2 + (i % 3) * 0.5, -fling * (isBoard ? 1.6 : 0.6)),
+        spin: new Vector3(2.5 + i * 0.7, side * (1 + i * 0.3), side * 3.0)
+      });
+    });
+    this.onBailCb?.(reason);
+  }
+
+  // Fixed order, so recorded tumbles line up with any rig (a GLB has only the board)
+  private ragdollParts(): (Mesh | null)[] {
+    return [this.partTorso, this.partHips, this.partHead, this.partArmL, this.partArmR, this.partLegL, this.partLegR, this.boardMesh];
+  }
+
+  private updateBail(dt: number): void {
+    this.bailTime += dt;
+    // Root slides to a stop along the ground
+    const h = Math.hypot(this.velocity.x, this.velocity.z);
+    if (h > 0) {
+      const nh = Math.max(0, h - this.FRICTION * 2.0 * dt);
+      this.velocity.x *= nh / h;
+      this.velocity.z *= nh / h;
+    }
+    if (!this.grounded) this.velocity.y -= this.GRAVITY * dt;
+    const from = this.skaterMesh.position.clone();
+    this.skaterMesh.position.x += this.velocity.x * dt;
+    this.skaterMesh.position.z += this.velocity.z * dt;
+    this.skaterMesh.position.y += this.velocity.y * dt;
+    this.collideHorizontal(from);
+    this.groundCheckAndSlope(dt);
+    this.clampToWorldBounds();
+
+    // Ragdoll-ish tumble of the fallback rig: ballistic parts that skid on the floor
+    const floorY = -this.BASE_FOOT_HEIGHT + 0.1;
+    for (const r of this.ragdoll) {
+      r.vel.y -= this.GRAVITY * 0.6 * dt;
+      r.part.position.addInPlace(r.vel.scale(dt));
+      if (r.part.position.y < floorY) {
+        r.part.position.y = floorY;
+        r.vel.y = Math.abs(r.vel.y) * 0.25;
+        r.vel.x *= 0.6;
+        r.vel.z *= 0.6;
+        r.spin.scaleInPlace(0.6);
+      }
+      r.part.rotation.x += r.spin.x * dt;
+      r.part.rotation.y += r.spin.y * dt;
+      r.part.rotation.z += r.spin.z * dt;
+    }
+    this.animator?.update(dt);
+    // A loaded GLB has no separate parts: without a bail clip, tip the whole character over
+    if (this.ragdoll.length === 0 && !this.animator?.has("bail")) {
+      if (this.skaterMesh.rotationQuaternion) this.skaterMesh.rotationQuaternion = null;
+      this.skaterMesh.rotation.x += (-Math.PI / 2 - this.skaterMesh.rotation.x) * Math.min(1, 6 * dt);
+    }
+
+    if (this.bailTime >= this.BAIL_RESPAWN_DELAY) this.recoverFromBail();
+  }
+
+  private recoverFromBail(): void {
+    for (const r of this.ragdoll) {
+      r.part.position.copyFrom(r.rest);
+      r.part.rotation.set(0, 0, 0);
+    }
+    this.ragdoll = [];
+    if (this.boardMesh) this.boardMesh.rotation.z = this.boardBaseRotZ;
+    this.bailed = false;
+    this.bailTime = 0;
+    this.crouch = 0;
+    this.skaterMesh.rotation.x = 0;
+    this.skaterMesh.rotation.z = 0;
+    this.surfaceUp.set(0, 1, 0);
+    this.switchStance = false;
+    this.rollingFakie = false;
+    // Back on the board where the slam ended, at rest
+    this.skaterMesh.position.y += 0.5;
+    this.snapToGroundAtStart();
+    this.velocity.set(0, 0, 0);
+    this.prevGrounded = this.grounded;
+  }
+
   // ------- Fallback 2020-style low-poly skater -------
   private makeCapsulePart(color: Color3, height: number, radius: number, offset: Vector3, parent: Mesh): Mesh {
     const m = MeshBuilder.CreateCapsule("part", { height, radius, tessellation: 12 }, this.scene);
@@ -592,10 +1486,10 @@ export class SkaterController {
     root.rotationQuaternion = null;
     root.receiveShadows = true;
 
-    const grey = new Color3(0.9, 0.9, 0.95);
+    const grey = new Color3(0.9, 0.9, 0.95); // skin; clothes are coloured from the loadout
     // Torso and hips
     this.partTorso = this.makeCapsulePart(grey, 0.6, 0.18, new Vector3(0, 0.35, 0), root);
-    const hips = this.makeCapsulePart(grey, 0.28, 0.2, new Vector3(0, 0.05, 0), root);
+    this.partHips = this.makeCapsulePart(grey, 0.28, 0.2, new Vector3(0, 0.05, 0), root);
     // Head
     this.partHead = this.makeCapsulePart(grey, 0.22, 0.12, new Vector3(0, 0.72, 0), root);
     // Arms
@@ -604,46 +1498,94 @@ export class SkaterController {
     // Legs (staggered for a skate stance)
     this.partLegL = this.makeCapsulePart(grey, 0.58, 0.11, new Vector3(-0.16, -0.25, -0.10), root);
     this.partLegR = this.makeCapsulePart(grey, 0.58, 0.11, new Vector3(0.16, -0.25, 0.12), root);
+    // Shoes ride with the legs
+    this.partShoes = [this.partLegL, this.partLegR].map((leg) => {
+      const shoe = MeshBuilder.CreateBox("partShoe", { width: 0.16, height: 0.08, depth: 0.26 }, scene);
+      shoe.material = new StandardMaterial("partMat", scene);
+      shoe.position.set(0, -0.26, -0.03);
+      shoe.parent = leg;
+      return shoe;
+    });
 
     // Board
-    const board = MeshBuilder.CreateBox("board", { width: 0.28, depth: 1.0, height: 0.06 }, scene);
-    const bmat = new StandardMaterial("boardMat", scene);
-    bmat.diffuseColor = new Color3(0.18, 0.2, 0.22);
-    bmat.specularColor = new Color3(0.2, 0.2, 0.2);
-    board.material = bmat;
+    const board = buildBoard(this.loadout, scene);
     board.position = new Vector3(0, this.boardBasePosY, 0.0);
     board.setParent(root);
     this.boardMesh = board;
+    this.applyLoadout();
 
     return root;
   }
 
+  // Pick the animation state from the controller state (GLB characters only)
+  private updateAnimation(dt: number, justLanded: boolean): void {
+    if (!this.animator) return;
+    this.airTime = this.grounded ? 0 : this.airTime + dt;
+    this.landAnimTime = justLanded ? this.LAND_ANIM_TIME : Math.max(0, this.landAnimTime - dt);
+    const speed = Math.hypot(this.velocity.x, this.velocity.z);
+    let state: AnimState;
+    let speedRatio = 1;
+    if (this.isGrinding || this.stall) state = "grind";
+    else if (this.manualKind) state = "manual";
+    else if (!this.grounded) {
+      if (this.activeGrab) state = "grab";
+      else if (this.velocity.y > 0 && this.airTime < 0.3) state = "ollie";
+      else state = "air";
+    } else if (this.landAnimTime > 0) state = "land";
+    else if (this.ramp || this.crouch > 0.4) state = "crouch";
+    else if (this.input.push && speed > 0.1) {
+      state = "push";
+      speedRatio = 0.8 + 0.4 * Math.min(1, speed / this.MAX_SPEED_FLAT);
+    } else state = "idle";
+    this.animator.setState(state, speedRatio);
+    this.animator.update(dt);
+  }
+
   private applyFallbackPose(_dt: number): void {
     if (!this.partTorso || !this.partLegL || !this.partLegR || !this.partArmL || !this.partArmR) return;
+    // Built for regular (left foot forward); goofy or switch mirrors it
+    const m = this.stanceSign();
+    const frontLeg = m > 0 ? this.partLegL : this.partLegR;
+    const backLeg = m > 0 ? this.partLegR : this.partLegL;
+    const leadArm = m > 0 ? this.partArmL : this.partArmR;
+    const trailArm = m > 0 ? this.partArmR : this.partArmL;
     // Torso slight forward lean while moving/crouched
     const lean = -0.15 * this.crouch;
     this.partTorso.rotation = this.partTorso.rotation || new Vector3();
     this.partTorso.rotation.x = lean;
     // Torso yaw toward front foot for skate stance
-    this.partTorso.rotation.y = -0.25;
-    // Legs bend via vertical offsets
+    this.partTorso.rotation.y = -0.25 * m;
+    // Legs bend via vertical offsets; the front foot sits toward the nose
     const legOffset = -0.08 * this.crouch;
     this.partLegL.position.y = -0.25 + legOffset;
     this.partLegR.position.y = -0.25 + legOffset;
+    frontLeg.position.z = -0.10;
+    backLeg.position.z = 0.12;
     // Arms relaxed, lead forward, trail back
     const armAngle = 0.22 + 0.18 * this.crouch;
     this.partArmL.rotation = this.partArmL.rotation || new Vector3();
     this.partArmR.rotation = this.partArmR.rotation || new Vector3();
-    this.partArmL.rotation.z = armAngle * 0.6;
-    this.partArmR.rotation.z = -armAngle;
-    this.partArmL.rotation.x = -0.1;
-    this.partArmR.rotation.x = 0.05;
-    // Push cycle (rear leg swings) – assume right-foot forward stance
+    leadArm.position.z = -0.05;
+    trailArm.position.z = 0.05;
+    leadArm.rotation.z = armAngle * 0.6 * m;
+    trailArm.rotation.z = -armAngle * m;
+    leadArm.rotation.x = -0.1;
+    trailArm.rotation.x = 0.05;
+    // Manual: lean over the tail (or nose), arms out and swaying with the balance
+    if (this.manualKind) {
+      this.partTorso.rotation.x = this.manualKind === "manual" ? 0.25 : -0.35;
+      this.partTorso.rotation.z = -this.manualBalance * 0.35;
+      this.partArmL.rotation.z = 0.9 + this.manualBalance * 0.4;
+      this.partArmR.rotation.z = -0.9 + this.manualBalance * 0.4;
+    } else {
+      this.partTorso.rotation.z = 0;
+    }
+    // Push cycle: the back foot swings
     const swing = Math.sin(this.pushPhase) * (this.input.push ? 0.5 : 0.2);
-    this.partLegR.rotation = this.partLegR.rotation || new Vector3();
-    this.partLegR.rotation.x = swing;
-    this.partLegL.rotation = this.partLegL.rotation || new Vector3();
-    this.partLegL.rotation.x = -swing * 0.15;
+    backLeg.rotation = backLeg.rotation || new Vector3();
+    backLeg.rotation.x = swing;
+    frontLeg.rotation = frontLeg.rotation || new Vector3();
+    frontLeg.rotation.x = -swing * 0.15;
   }
 }
 
@@ -0,0 +1,352 @@
+import { Scene } from "@babylonjs/core/scene";
+import { FreeCamera } from "@babylonjs/core/Cameras/freeCamera";
+import { Viewport } from "@babylonjs/core/Maths/math.viewport";
+import { Vector3 } from "@babylonjs/core/Maths/math.vector";
+import { SkaterController } from "./skater";
+import { SkateCameraController, createSkateCamera } from "./camera";
+import { InputSource, PlayerInput, createPlayerInput } from "./input";
+import { ComboTracker, createComboTracker } from "./combo";
+import { applyProfile, captureProfile } from "./profiles";
+import { GameMode } from "./modes";
+import { HorseGame, createHorseGame, horseLetters, HORSE_WORD } from "./horse";
+
+// Local two-player split screen. Player 1 is the game scene's own skater and
+// camera; player 2's skater and follow camera are made the first time a
+// two-player run starts. Each player skates on their own keyboard half or
+// gamepad, into their own viewport and HUD half. Modes: Head to Head (score
+// attack on the run clock) and H.O.R.S.E. (see horse.ts).
+
+const SPAWN_SPACING = 1.2; // metres either side of the spawn point
+const PLAYER_COLORS = ["#ffd166", "#4cc9f0"];
+
+export type SplitResults = {
+  title: string;
+  rows: [string, string][];
+};
+
+export type SplitScreen = {
+  /** Start a two-player run: second skater in, screen split, HUD halves up. */
+  start: (mode: GameMode, spawn: { position: Vector3; yaw: number }) => void;
+  /** Back to one player on the full screen. */
+  stop: () => void;
+  isActive: () => boolean;
+  /** Player 1's skater events (player 2's are wired here). */
+  onTrick: (player: 0 | 1, name: string, points: number) => void;
+  onBail: (player: 0 | 1) => void;
+  /** Per fixed step, after player 1 has stepped; true once the round is decided. */
+  update: (dt: number, clock: number | null) => boolean;
+  /** Per rendered frame: blend player 2 and move its camera (player 1's are the scene's). */
+  render: (frameDt: number, alpha: number) => void;
+  results: () => SplitResults;
+};
+
+type HudHalf = {
+  root: HTMLDivElement;
+  setScore: (text: string) => void;
+  setCombo: (text: string | null) => void;
+  popup: (text: string) => void;
+};
+
+function createHudHalf(player: 0 | 1): HudHalf {
+  const root = document.createElement("div");
+  root.style.position = "fixed";
+  root.style.top = "0";
+  root.style.left = player === 0 ? "0" : "50%";
+  root.style.width = "50%";
+  root.style.height = "100%";
+  root.style.pointerEvents = "none";
+  root.style.fontFamily = "system-ui, sans-serif";
+  root.style.display = "none";
+  if (player === 0) root.style.borderRight = "2px solid rgba(0,0,0,0.6)";
+  document.body.appendChild(root);
+
+  const tag = document.createElement("div");
+  tag.style.position = "absolute";
+  tag.style.left = "14px";
+  tag.style.top = "14px";
+  tag.style.padding = "6px 10px";
+  tag.style.borderRadius = "8px";
+  tag.style.background = "rgba(20,20,25,0.85)";
+  tag.style.color = PLAYER_COLORS[player];
+  tag.style.fontWeight = "700";
+  tag.style.fontSize = "14px";
+  root.appendChild(tag);
+
+  const combo = document.createElement("div");
+  combo.style.position = "absolute";
+  combo.style.left = "50%";
+  combo.style.bottom = "60px";
+  combo.style.transform = "translateX(-50%)";
+  combo.style.maxWidth = "80%";
+  combo.style.padding = "6px 12px";
+  combo.style.borderRadius = "8px";
+  combo.style.background = "rgba(20,20,25,0.8)";
+  combo.style.color = "#fff";
+  combo.style.fontSize = "13px";
+  combo.style.textAlign = "center";
+  combo.style.display = "none";
+  root.appendChild(combo);
+
+  const popups = document.createElement("div");
+  popups.style.position = "absolute";
+  popups.style.left = "50%";
+  popups.style.top = "64px";
+  popups.style.transform = "translateX(-50%)";
+  popups.style.display = "flex";
+  popups.style.flexDirection = "column";
+  popups.style.alignItems = "center";
+  popups.style.gap = "6px";
+  root.appendChild(popups);
+
+  return {
+    root,
+    setScore: (text) => {
+      tag.textContent = `P${player + 1}  ${text}`;
+    },
+    setCombo: (text) => {
+      combo.style.display = text ? "block" : "none";
+      combo.textContent = text ?? "";
+    },
+    popup: (text) => {
+      const el = document.createElement("div");
+      el.style.padding = "6px 10px";
+      el.style.borderRadius = "6px";
+      el.style.background = "rgba(20,20,25,0.85)";
+      el.style.color = "#fff";
+      el.style.fontSize = "13px";
+      el.textContent = text;
+      popups.appendChild(el);
+      window.setTimeout(() => el.remove(), 1400);
+    }
+  };
+}
+
+type Player = {
+  skater: SkaterController;
+  camera: SkateCameraController;
+  input: PlayerInput;
+  combo: ComboTracker;
+  hud: HudHalf;
+  score: number;
+  bestTrick: { name: string; points: number } | null;
+};
+
+export function createSplitScreen(opts: {
+  scene: Scene;
+  /** Player 1: the scene's skater, its follow camera and the input it goes back to afterwards. */
+  skater: SkaterController;
+  camera: SkateCameraController;
+  soloInput: InputSource;
+}): SplitScreen {
+  const { scene } = opts;
+  let active = false;
+  let mode: GameMode | null = null;
+  const players: Player[] = [];
+
+  // Shared banner (top centre): run clock for Head to Head, turn and letters for H.O.R.S.E.
+  const banner = document.createElement("div");
+  banner.style.position = "fixed";
+  banner.style.left = "50%";
+  banner.style.top = "14px";
+  banner.style.transform = "translateX(-50%)";
+  banner.style.padding = "6px 14px";
+  banner.style.borderRadius = "8px";
+  banner.style.background = "rgba(255,255,255,0.92)";
+  banner.style.color = "#111";
+  banner.style.fontFamily = "system-ui, sans-serif";
+  banner.style.fontWeight = "700";
+  banner.style.fontSize = "14px";
+  banner.style.textAlign = "center";
+  banner.style.whiteSpace = "pre";
+  banner.style.pointerEvents = "none";
+  banner.style.zIndex = "10";
+  banner.style.display = "none";
+  document.body.appendChild(banner);
+
+  const horse: HorseGame = createHorseGame({
+    onEvent: (e) => {
+      const hud = players[e.player]?.hud;
+      if (!hud) return;
+      switch (e.kind) {
+        case "set":
+          hud.popup(`Set: ${e.trick}`);
+          players[e.player === 0 ? 1 : 0].hud.popup(`Match the ${e.trick}!`);
+          break;
+        case "matched":
+          hud.popup(`Matched ${e.trick}`);
+          break;
+        case "letter":
+          hud.popup(`Letter! ${e.letters}`);
+          break;
+        case "pass":
+          hud.popup("No trick: turn passes");
+          break;
+        case "won":
+          hud.popup("You win!");
+          break;
+      }
+    }
+  });
+
+  function makePlayer(index: 0 | 1, skater: SkaterController, camera: SkateCameraController): Player {
+    const hud = createHudHalf(index);
+    const player: Player = {
+      skater,
+      camera,
+      input: createPlayerInput(index),
+      hud,
+      score: 0,
+      bestTrick: null,
+      combo: createComboTracker({
+        onChanged: (v) => hud.setCombo(v ? `${v.tricks.join(" + ")}  ${v.basePoints} x ${v.multiplier}` : null),
+        onBanked: (r) => {
+          if (mode?.id !== "versus") return;
+          player.score += r.total;
+          hud.setScore(String(player.score));
+          hud.popup(`${r.tricks.join(" + ")} +${r.total}`);
+        }
+      })
+    };
+    // The keyboard halves are always listening; recover only counts mid-run
+    player.input.onRecover(() => {
+      if (active) skater.recoverUpright();
+    });
+    return player;
+  }
+
+  function ensurePlayers(): void {
+    if (players.length) return;
+    players.push(makePlayer(0, opts.skater, opts.camera));
+    const p1Loadout = opts.skater.getLoadout();
+    const skater2 = new SkaterController(scene, {
+      stance: opts.skater.getStance(),
+      // Same kit in another shirt so the two are easy to tell apart
+      loadout: { ...p1Loadout, shirtColor: p1Loadout.shirtColor === "#3a86ff" ? "#e63946" : "#3a86ff" },
+      onTrickLanded: (name, points) => split.onTrick(1, name, points),
+      onBail: () => split.onBail(1)
+    });
+    const soloCamera = scene.activeCamera;
+    const cam2 = createSkateCamera(scene, skater2, new FreeCamera("skateCam2", new Vector3(0, 3, -8), scene));
+    scene.activeCamera = soloCamera;
+    players.push(makePlayer(1, skater2, cam2));
+  }
+
+  // Score in Head to Head, letters so far in H.O.R.S.E.
+  function showStatus(p: Player): void {
+    p.hud.setScore(mode?.id === "horse" ? horseLetters(horse.view().letters[players.indexOf(p)]) || "-" : String(p.score));
+  }
+
+  function clockText(seconds: number): string {
+    const s = Math.max(0, Math.floor(seconds));
+    const sec = s % 60;
+    return `${Math.floor(s / 60)}:${sec < 10 ? "0" : ""}${sec}`;
+  }
+
+  const split: SplitScreen = {
+    start: (m, spawn) => {
+      ensurePlayers();
+      mode = m;
+      active = true;
+      const right = new Vector3(Math.cos(spawn.yaw), 0, Math.sin(spawn.yaw));
+      players.forEach((p, i) => {
+        p.skater.teleport(spawn.position.add(right.scale(i === 0 ? -SPAWN_SPACING : SPAWN_SPACING)), spawn.yaw);
+        p.skater.getRoot().setEnabled(true);
+        p.skater.setInputSource(p.input);
+        p.input.clear();
+        p.combo.drop();
+        p.score = 0;
+        p.bestTrick = null;
+        p.hud.root.style.display = "block";
+      });
+      // Player 2 skates with the same physics profile as player 1
+      applyProfile(players[1].skater, captureProfile(opts.skater, "split", "Split"));
+      horse.reset();
+      players.forEach(showStatus);
+      players[0].camera.camera.viewport = new Viewport(0, 0, 0.5, 1);
+      players[1].camera.camera.viewport = new Viewport(0.5, 0, 0.5, 1);
+      scene.activeCameras = [players[0].camera.camera, players[1].camera.camera];
+      banner.style.display = "block";
+    },
+    stop: () => {
+      if (!active) return;
+      active = false;
+      scene.activeCameras = [];
+      players[0].camera.camera.viewport = new Viewport(0, 0, 1, 1);
+      scene.activeCamera = players[0].camera.camera;
+      opts.skater.setInputSource(opts.soloInput);
+      players[1].skater.getRoot().setEnabled(false);
+      for (const p of players) {
+        p.hud.root.style.display = "none";
+        p.hud.setCombo(null);
+      }
+      banner.style.display = "none";
+    },
+    isActive: () => active,
+    onTrick: (player, name, points) => {
+      const p = players[player];
+      if (!active || !p || points <= 0) return;
+      p.combo.add(name, points);
+      if (!p.bestTrick || points > p.bestTrick.points) p.bestTrick = { name, points };
+      if (mode?.id === "horse") {
+        horse.onTrick(player, name);
+        players.forEach(showStatus);
+      }
+    },
+    onBail: (player) => {
+      const p = players[player];
+      if (!active || !p) return;
+      p.combo.drop();
+      p.hud.popup("Bail!");
+      if (mode?.id === "horse") {
+        horse.onBail(player);
+        players.forEach(showStatus);
+      }
+    },
+    update: (dt, clock) => {
+      if (!active) return false;
+      players[1].skater.update(dt);
+      for (const p of players) p.combo.update(dt, p.skater.isLinking());
+      if (mode?.id === "horse") {
+        horse.update(dt);
+        players.forEach(showStatus);
+        const v = horse.view();
+        if (v.phase === "over") return true;
+        const turn = v.phase === "set" ? `P${v.active + 1}: set a trick` : `P${v.active + 1}: match the ${v.trick}`;
+        banner.textContent = `${turn}  ${Math.ceil(v.timeLeft)}s\n${HORSE_WORD}`;
+      } else {
+        banner.textContent = clock === null ? "Head to Head" : clockText(clock);
+      }
+      return false;
+    },
+    render: (frameDt, alpha) => {
+      if (!active) return;
+      players[1].skater.interpolate(alpha);
+      players[1].camera.update(frameDt);
+    },
+    results: () => {
+      const [a, b] = players;
+      const trick = (p: Player) => (p.bestTrick ? `${p.bestTrick.name} (${p.bestTrick.points})` : "—");
+      if (mode?.id === "horse") {
+        const v = horse.view();
+        return {
+          title: v.winner === null ? "No Winner" : `Player ${v.winner + 1} Wins`,
+          rows: [
+            ["Player 1", horseLetters(v.letters[0]) || "no letters"],
+            ["Player 2", horseLetters(v.letters[1]) || "no letters"]
+          ]
+        };
+      }
+      // Whatever combos are still running pay out before the tally
+      for (const p of players) p.combo.bank();
+      const title = a.score === b.score ? "Draw" : `Player ${a.score > b.score ? 1 : 2} Wins`;
+      return {
+        title,
+        rows: [
+          ["Player 1", `${a.score}  ·  best trick ${trick(a)}`],
+          ["Player 2", `${b.score}  ·  best trick ${trick(b)}`]
+        ]
+      };
+    }
+  };
+  return split;
+}
@@ -5,6 +5,8 @@ export type StorySpot = {
   title: string;
   text: string;
   position: Vector3;
+  place: string; // where it is, shown in the journal once found
+  hint: string;  // vague nudge shown in the journal before it's found
 };
 
 export const STORY_SPOTS: StorySpot[] = [
@@ -12,19 +14,25 @@ export const STORY_SPOTS: StorySpot[] = [
     id: "gullcrest-sign",
     title: "Gullcrest Block",
     text: "Block party starts at dusk. Bring your board and a story.",
-    position: new Vector3(0, 0.9, -8)
+    position: new Vector3(0, 0.9, -8),
+    place: "Beside the centre pyramid",
+    hint: "Somewhere in the thick of things"
   },
   {
     id: "bike-lane-mural",
     title: "Lane Mural",
     text: "Fresh paint, still tacky. A cat in motion, forever.",
-    position: new Vector3(10, 0.9, -2)
+    position: new Vector3(10, 0.9, -2),
+    place: "Right-hand sidewalk, by the long rail",
+    hint: "Fresh paint on the right side of the park"
   },
   {
     id: "corner-deli",
     title: "Corner Deli",
     text: "Mint tea and cracked tiles. The owner nods as you roll by.",
-    position: new Vector3(-14, 0.9, 14)
+    position: new Vector3(-14, 0.9, 14),
+    place: "Left-hand sidewalk, down toward the funbox end",
+    hint: "Follow your nose down the left side"
   }
 ];
 
@@ -0,0 +1,109 @@
+import { Scene } from "@babylonjs/core/scene";
+import { Mesh } from "@babylonjs/core/Meshes/mesh";
+import { MeshBuilder } from "@babylonjs/core/Meshes/meshBuilder";
+import { StandardMaterial } from "@babylonjs/core/Materials/standardMaterial";
+import { Color3 } from "@babylonjs/core/Maths/math.color";
+import { Vector3 } from "@babylonjs/core/Maths/math.vector";
+import { CreateScreenshot } from "@babylonjs/core/Misc/screenshotTools";
+import { StorySpot, STORY_SPOTS } from "./stories";
+import { isStoryCollected, markStoryCollected, setStoryThumbnail } from "./saveSystem";
+
+// Story spots in the world: each gets a glowing marker with a light beam so
+// it can be spotted across the park. Discovering a spot is saved (the marker
+// dims for good); reaching a spot also counts once per run, for run stats,
+// goals and Story Mode. The first find also snaps a small picture of the
+// spot through the game camera for the journal.
+
+const COLLECT_RADIUS = 2.0;
+const BEAM_HEIGHT = 12;
+const THUMB_SIZE = { width: 240, height: 135 };
+
+export type StoryPickup = {
+  spot: StorySpot;
+  /** First time ever (not just this run). */
+  isNew: boolean;
+};
+
+export type StorySystem = {
+  beginRun: () => void;
+  /** Per step: the spot reached this step, if any. */
+  update: (dt: number, position: Vector3) => StoryPickup | null;
+  foundThisRun: () => number;
+  /** Discovered across all sessions. */
+  discovered: () => number;
+  total: () => number;
+};
+
+type Marker = { spot: StorySpot; orb: Mesh; beam: Mesh; baseY: number };
+
+export function createStorySystem(scene: Scene, spots: StorySpot[] = STORY_SPOTS): StorySystem {
+  const litMat = new StandardMaterial("storyMarkerMat", scene);
+  litMat.emissiveColor = new Color3(1.0, 0.85, 0.2); // warm glow
+  litMat.diffuseColor = new Color3(0.2, 0.2, 0.2);
+  litMat.specularColor = new Color3(0, 0, 0);
+  const beamMat = new StandardMaterial("storyBeamMat", scene);
+  beamMat.emissiveColor = new Color3(1.0, 0.8, 0.3);
+  beamMat.disableLighting = true;
+  beamMat.alpha = 0.25;
+  const dimMat = new StandardMaterial("storyMarkerDimMat", scene);
+  dimMat.emissiveColor = new Color3(0.25, 0.22, 0.15);
+  dimMat.diffuseColor = new Color3(0.3, 0.3, 0.3);
+  dimMat.specularColor = new Color3(0, 0, 0);
+  dimMat.alpha = 0.6;
+
+  const markers: Marker[] = spots.map((spot) => {
+    const orb = MeshBuilder.CreateSphere(`story_${spot.id}`, { diameter: 0.6, segments: 16 }, scene);
+    orb.position.copyFrom(spot.position);
+    orb.isPickable = false;
+    const beam = MeshBuilder.CreateCylinder(`storyBeam_${spot.id}`, { diameterTop: 0.05, diameterBottom: 0.35, height: BEAM_HEIGHT, tessellation: 12 }, scene);
+    beam.position.set(spot.position.x, spot.position.y + BEAM_HEIGHT / 2, spot.position.z);
+    beam.material = beamMat;
+    beam.isPickable = false;
+    return { spot, orb, beam, baseY: spot.position.y };
+  });
+
+  function showState(m: Marker): void {
+    const done = isStoryCollected(m.spot.id);
+    m.orb.material = done ? dimMat : litMat;
+    m.beam.setEnabled(!done);
+  }
+  markers.forEach(showState);
+
+  function snapshot(spot: StorySpot): void {
+    const camera = scene.activeCamera;
+    if (!camera) return;
+    // Small JPEG: it lives in the save data
+    CreateScreenshot(scene.getEngine(), camera, THUMB_SIZE, (data) => setStoryThumbnail(spot.id, data), "image/jpeg", false, 0.7);
+  }
+
+  const foundRun = new Set<string>();
+  let time = 0;
+
+  return {
+    beginRun: () => foundRun.clear(),
+    update: (dt, position) => {
+      time += dt;
+      let picked: StoryPickup | null = null;
+      for (const m of markers) {
+        // Undiscovered markers bob and pulse; found ones sit still
+        const lit = m.beam.isEnabled();
+        m.orb.position.y = m.baseY + (lit ? Math.sin(time * 2 + m.baseY) * 0.12 : 0);
+        if (lit) m.orb.scaling.setAll(1 + Math.sin(time * 4) * 0.08);
+        if (picked || foundRun.has(m.spot.id) || Vector3.DistanceSquared(position, m.spot.position) > COLLECT_RADIUS * COLLECT_RADIUS) continue;
+        foundRun.add(m.spot.id);
+        const isNew = !isStoryCollected(m.spot.id);
+        if (isNew) {
+          markStoryCollected(m.spot.id);
+          m.orb.scaling.setAll(1);
+          showState(m);
+          snapshot(m.spot);
+        }
+        picked = { spot: m.spot, isNew };
+      }
+      return picked;
+    },
+    foundThisRun: () => foundRun.size,
+    discovered: () => spots.filter((s) => isStoryCollected(s.id)).length,
+    total: () => spots.length
+  };
+}
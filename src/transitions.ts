@@ -0,0 +1,180 @@
+import { Scene } from "@babylonjs/core/scene";
+import { Mesh } from "@babylonjs/core/Meshes/mesh";
+import { MeshBuilder } from "@babylonjs/core/Meshes/meshBuilder";
+import { Vector3 } from "@babylonjs/core/Maths/math.vector";
+
+// Curved transitions (quarterpipes, vert walls). The riding surface is
+// described analytically: a circular arc rising from the flat, optionally
+// continued by a straight section (the "vert") up to the coping. The skater
+// rides it as a 1D profile position plus an offset across the ramp, so speed
+// turns into height and, off a vertical lip, into straight-up air.
+
+export type Transition = {
+  origin: Vector3; // foot of the curve on the centre line, at ground level
+  axis: Vector3;   // horizontal unit vector from the flat toward the wall
+  side: Vector3;   // horizontal unit vector across the ramp
+  radius: number;
+  arc: number;     // angle the curve turns through (PI/2 = vertical at the top)
+  vert: number;    // straight section above the curve
+  width: number;
+  deck: number;    // depth of the platform behind the coping
+};
+
+export type TransitionOptions = {
+  position: Vector3; // foot of the curve
+  yaw: number;       // facing of the wall, same convention as the skater's yaw
+  radius: number;
+  arc?: number;
+  vert?: number;
+  width: number;
+  deck?: number;
+};
+
+export type TransitionPose = {
+  point: Vector3;   // on the surface (centre line offset by `across`)
+  tangent: Vector3; // unit, pointing up the profile
+  normal: Vector3;  // unit, pointing out of the surface
+  onCurve: boolean;
+};
+
+/** What transitions put in mesh metadata: the surface carries its transition, the deck is ground. */
+type TransitionMetadata = {
+  isGround?: boolean;
+  transition?: Transition;
+};
+
+const PROFILE_SAMPLES = 16;
+// How far off the surface (along its normal) a falling rider still gets caught
+const CATCH_TOLERANCE = 0.06;
+
+export function createTransition(opts: TransitionOptions): Transition {
+  const axis = new Vector3(Math.sin(opts.yaw), 0, -Math.cos(opts.yaw));
+  return {
+    origin: opts.position.clone(),
+    axis,
+    side: new Vector3(-axis.z, 0, axis.x),
+    radius: opts.radius,
+    arc: opts.arc ?? Math.PI / 2,
+    vert: opts.vert ?? 0,
+    width: opts.width,
+    deck: opts.deck ?? 2
+  };
+}
+
+/** Arc length from the foot of the curve to the coping. */
+export function transitionLength(t: Transition): number {
+  return t.radius * t.arc + t.vert;
+}
+
+/** Height of the coping above the ground. */
+export function copingHeight(t: Transition): number {
+  return t.radius * (1 - Math.cos(t.arc)) + Math.sin(t.arc) * t.vert;
+}
+
+// Profile in the ramp's own plane: (along the axis, up)
+function profile(t: Transition, s: number): { along: number; up: number; angle: number } {
+  const curveLen = t.radius * t.arc;
+  if (s <= curveLen) {
+    const a = s / t.radius;
+    return { along: t.radius * Math.sin(a), up: t.radius * (1 - Math.cos(a)), angle: a };
+  }
+  const e = s - curveLen;
+  return {
+    along: t.radius * Math.sin(t.arc) + Math.cos(t.arc) * e,
+    up: t.radius * (1 - Math.cos(t.arc)) + Math.sin(t.arc) * e,
+    angle: t.arc
+  };
+}
+
+export function transitionPose(t: Transition, s: number, across: number): TransitionPose {
+  const p = profile(t, Math.max(0, Math.min(transitionLength(t), s)));
+  const c = Math.cos(p.angle);
+  const sn = Math.sin(p.angle);
+  return {
+    point: t.origin.add(t.axis.scale(p.along)).addInPlace(t.side.scale(across)).addInPlace(new Vector3(0, p.up, 0)),
+    tangent: t.axis.scale(c).addInPlace(new Vector3(0, sn, 0)),
+    normal: t.axis.scale(-sn).addInPlace(new Vector3(0, c, 0)),
+    onCurve: s < t.radius * t.arc
+  };
+}
+
+/**
+ * Where a rider whose root sits `foot` above their wheels touches the ramp:
+ * the profile position and offset across, or null when the root is clear of
+ * the surface (above it, beside the ramp or behind the wall).
+ */
+export function contactOnTransition(t: Transition, root: Vector3, foot: number): { s: number; across: number } | null {
+  const rel = root.subtract(t.origin);
+  const across = Vector3.Dot(rel, t.side);
+  if (Math.abs(across) > t.width * 0.5) return null;
+  const along = Vector3.Dot(rel, t.axis);
+  const up = rel.y;
+  const R = t.radius;
+  // On the curve the root rides a circle of radius R - foot around the centre of curvature
+  const angle = Math.atan2(along, R - up);
+  if (angle > 0 && angle <= t.arc) {
+    const dist = Math.hypot(along, up - R);
+    if (dist >= R - foot - CATCH_TOLERANCE && dist <= R + 0.3) return { s: R * angle, across };
+  }
+  // Straight section: the root rides a line offset from it by `foot`
+  if (t.vert > 0) {
+    const base = profile(t, R * t.arc);
+    const sn = Math.sin(t.arc);
+    const c = Math.cos(t.arc);
+    const da = along - (base.along - sn * foot);
+    const du = up - (base.up + c * foot);
+    const e = da * c + du * sn;
+    const into = da * sn - du * c; // positive = pushed into the wall
+    if (e >= 0 && e <= t.vert && into >= -CATCH_TOLERANCE && into <= foot + 0.3) return { s: R * t.arc + e, across };
+  }
+  return null;
+}
+
+/** Curved surface, deck and coping meshes. The surface carries the transition in its metadata. */
+export function createTransitionMeshes(name: string, t: Transition, scene: Scene): { surface: Mesh; deck: Mesh; coping: Mesh } {
+  const len = transitionLength(t);
+  const half = t.width * 0.5;
+  const left: Vector3[] = [];
+  const right: Vector3[] = [];
+  const steps = PROFILE_SAMPLES + (t.vert > 0 ? 1 : 0);
+  for (let i = 0; i <= steps; i++) {
+    const s = i < PROFILE_SAMPLES ? (t.radius * t.arc * i) / PROFILE_SAMPLES : i === PROFILE_SAMPLES ? t.radius * t.arc : len;
+    left.push(transitionPose(t, s, -half).point);
+    right.push(transitionPose(t, s, half).point);
+  }
+  const surface = MeshBuilder.CreateRibbon(name, { pathArray: [left, right], sideOrientation: Mesh.DOUBLESIDE }, scene);
+  // Not tagged isGround: the skater rides it through contactOnTransition, not ground rays
+  surface.metadata = { transition: t } satisfies TransitionMetadata;
+
+  // Platform behind the coping, filled down to the ground
+  const top = copingHeight(t);
+  const lip = transitionPose(t, len, 0).point;
+  const deck = MeshBuilder.CreateBox(`${name}Deck`, { width: t.width, height: top, depth: t.deck }, scene);
+  deck.position.copyFrom(lip.add(t.axis.scale(t.deck * 0.5)));
+  deck.position.y = t.origin.y + top * 0.5;
+  deck.rotation.y = Math.atan2(t.axis.x, t.axis.z);
+  deck.metadata = { isGround: true } satisfies TransitionMetadata;
+
+  const coping = MeshBuilder.CreateTube(`${name}Coping`, {
+    path: [lip.subtract(t.side.scale(half)), lip.add(t.side.scale(half))],
+    radius: 0.05,
+    tessellation: 10,
+    cap: Mesh.CAP_ALL
+  }, scene);
+  return { surface, deck, coping };
+}
+
+// The park is built once per scene, so its transitions are gathered once
+const cache = new WeakMap<Scene, Transition[]>();
+
+export function collectTransitions(scene: Scene): Transition[] {
+  const cached = cache.get(scene);
+  if (cached) return cached;
+  const out: Transition[] = [];
+  for (const m of scene.meshes) {
+    const t = m.metadata ? (m.metadata as TransitionMetadata).transition : undefined;
+    if (t) out.push(t);
+  }
+  cache.set(scene, out);
+  return out;
+}
@@ -0,0 +1,128 @@
+import { InputState } from "./skater";
+
+// Trick registry: every flip trick, grab and lip trick the controller knows about. Edit
+// or extend this table (or call registerTrick) to add tricks without touching
+// SkaterController; it only plays back what a definition describes.
+
+export type TrickKind = "flip" | "grab" | "lip";
+
+export type BoardAnimation = {
+  // Full turns over the trick's duration (sign = direction)
+  flipTurns: number;   // around the board's long axis (kickflip/heelflip)
+  shoveTurns: number;  // around the vertical axis (shove-its, varials)
+  // Static offsets held for the trick (grabs) plus a small wobble
+  pitch: number;
+  roll: number;
+  wobble: number;
+  // Peak lift of the board off the feet during the trick (meters)
+  lift: number;
+};
+
+export type TrickDefinition = {
+  id: string;
+  name: string;
+  kind: TrickKind;
+  // Held inputs that trigger the trick; the most specific match wins
+  input: (keyof InputState)[];
+  // Flips: time to complete the animation (landing before that bails).
+  // Grabs and lip tricks: how long it must be held to count.
+  duration: number;
+  points: number;
+  board: BoardAnimation;
+  // Lip tricks: drop back in facing down the ramp, or backwards (fakie)
+  reentry?: "forward" | "fakie";
+};
+
+const still: BoardAnimation = { flipTurns: 0, shoveTurns: 0, pitch: 0, roll: 0, wobble: 0, lift: 0 };
+
+export const TRICKS: TrickDefinition[] = [
+  // ------- Flip tricks -------
+  {
+    id: "kickflip", name: "Kickflip", kind: "flip", input: ["trickFlip"],
+    duration: 0.55, points: 100, board: { ...still, flipTurns: 1, lift: 0.06 }
+  },
+  {
+    id: "heelflip", name: "Heelflip", kind: "flip", input: ["trickFlip", "left"],
+    duration: 0.55, points: 110, board: { ...still, flipTurns: -1, lift: 0.06 }
+  },
+  {
+    id: "shoveit", name: "Shove-it", kind: "flip", input: ["trickShove"],
+    duration: 0.4, points: 80, board: { ...still, shoveTurns: 0.5, lift: 0.04 }
+  },
+  {
+    id: "360-shoveit", name: "360 Shove-it", kind: "flip", input: ["trickShove", "forward"],
+    duration: 0.55, points: 150, board: { ...still, shoveTurns: 1, lift: 0.05 }
+  },
+  {
+    id: "varial", name: "Varial Kickflip", kind: "flip", input: ["trickFlip", "trickShove"],
+    duration: 0.6, points: 200, board: { ...still, flipTurns: 1, shoveTurns: 0.5, lift: 0.07 }
+  },
+  {
+    id: "360-flip", name: "360 Flip", kind: "flip", input: ["trickFlip", "trickShove", "forward"],
+    duration: 0.7, points: 300, board: { ...still, flipTurns: 1, shoveTurns: 1, lift: 0.08 }
+  },
+  // ------- Grabs -------
+  {
+    id: "indy", name: "Indy", kind: "grab", input: ["trickGrab"],
+    duration: 0.2, points: 50, board: { ...still, pitch: 0.1, roll: 0.25, wobble: 0.2 }
+  },
+  {
+    id: "melon", name: "Melon", kind: "grab", input: ["trickGrab", "left"],
+    duration: 0.2, points: 60, board: { ...still, pitch: 0.1, roll: -0.3, wobble: 0.2 }
+  },
+  {
+    id: "stalefish", name: "Stalefish", kind: "grab", input: ["trickGrab", "right"],
+    duration: 0.25, points: 70, board: { ...still, pitch: -0.15, roll: 0.35, wobble: 0.15 }
+  },
+  {
+    id: "nosegrab", name: "Nosegrab", kind: "grab", input: ["trickGrab", "forward"],
+    duration: 0.25, points: 60, board: { ...still, pitch: -0.45, wobble: 0.1 }
+  },
+  {
+    id: "tailgrab", name: "Tailgrab", kind: "grab", input: ["trickGrab", "backward"],
+    duration: 0.25, points: 60, board: { ...still, pitch: 0.45, wobble: 0.1 }
+  },
+  // ------- Lip tricks (held at the coping, rolling up slowly) -------
+  {
+    id: "axle-stall", name: "Axle Stall", kind: "lip", input: ["trickGrab"], reentry: "forward",
+    duration: 0.4, points: 100, board: { ...still, wobble: 0.05 }
+  },
+  {
+    id: "rock-to-fakie", name: "Rock to Fakie", kind: "lip", input: ["trickGrab", "backward"], reentry: "fakie",
+    duration: 0.3, points: 90, board: { ...still, pitch: 0.35 }
+  },
+  {
+    id: "nose-stall", name: "Nose Stall", kind: "lip", input: ["trickGrab", "forward"], reentry: "forward",
+    duration: 0.4, points: 110, board: { ...still, pitch: -0.45, wobble: 0.05 }
+  },
+  {
+    id: "blunt-to-fakie", name: "Blunt to Fakie", kind: "lip", input: ["trickFlip"], reentry: "fakie",
+    duration: 0.4, points: 150, board: { ...still, pitch: 0.7 }
+  },
+  {
+    id: "disaster", name: "Disaster", kind: "lip", input: ["trickSpin"], reentry: "forward",
+    duration: 0.3, points: 130, board: { ...still, roll: 0.2, lift: 0.05 }
+  }
+];
+
+/** Add or replace (by id) a trick definition at runtime. */
+export function registerTrick(def: TrickDefinition): void {
+  const i = TRICKS.findIndex((t) => t.id === def.id);
+  if (i >= 0) TRICKS[i] = def;
+  else TRICKS.push(def);
+}
+
+export function getTrick(id: string): TrickDefinition | undefined {
+  return TRICKS.find((t) => t.id === id);
+}
+
+/** Most specific trick of `kind` whose inputs are all held, or null. */
+export function matchTrick(kind: TrickKind, input: InputState): TrickDefinition | null {
+  let best: TrickDefinition | null = null;
+  for (const t of TRICKS) {
+    if (t.kind !== kind) continue;
+    if (!t.input.every((k) => input[k])) continue;
+    if (!best || t.input.length > best.input.length) best = t;
+  }
+  return best;
+}
@@ -0,0 +1,136 @@
+import { SkaterController } from "./skater";
+import { PHYSICS_KEYS, PhysicsParams, SkaterProfile, applyProfile, captureProfile } from "./profiles";
+
+// Dev-only live physics tuning: a slider per profile parameter that writes
+// straight into the skater, plus an export of the result as profile JSON.
+// Only created when running under the Vite dev server.
+
+const RANGES: Record<keyof PhysicsParams, { min: number; max: number; step: number }> = {
+  MAX_SPEED_FLAT: { min: 4, max: 18, step: 0.1 },
+  ACCELERATION: { min: 4, max: 24, step: 0.1 },
+  TURN_SPEED: { min: 1, max: 5, step: 0.05 },
+  FRICTION: { min: 1, max: 10, step: 0.1 },
+  GRAVITY: { min: 10, max: 35, step: 0.5 },
+  JUMP_FORCE: { min: 4, max: 12, step: 0.1 }
+};
+
+export type TuningPanel = {
+  /** Point the panel at a new base profile (after a profile switch) and re-read the skater. */
+  setBase: (profile: SkaterProfile) => void;
+  dispose: () => void;
+};
+
+export function createTuningPanel(skater: SkaterController, baseProfile: SkaterProfile): TuningPanel {
+  let base = baseProfile;
+  const root = document.createElement("div");
+  root.id = "tuning-panel";
+  root.style.position = "fixed";
+  root.style.top = "12px";
+  root.style.right = "12px";
+  root.style.zIndex = "60";
+  root.style.fontFamily = "monospace";
+  root.style.fontSize = "11px";
+  root.style.color = "#fff";
+
+  const tab = document.createElement("button");
+  tab.textContent = "Tune";
+  tab.style.float = "right";
+  tab.style.padding = "4px 10px";
+  tab.style.background = "rgba(0,0,0,0.6)";
+  tab.style.color = "#fff";
+  tab.style.border = "1px solid rgba(255,255,255,0.3)";
+  tab.style.borderRadius = "4px";
+  tab.style.cursor = "pointer";
+  root.appendChild(tab);
+
+  const body = document.createElement("div");
+  body.style.clear = "both";
+  body.style.display = "none";
+  body.style.marginTop = "4px";
+  body.style.padding = "8px";
+  body.style.width = "240px";
+  body.style.background = "rgba(0,0,0,0.75)";
+  body.style.borderRadius = "6px";
+  root.appendChild(body);
+  tab.onclick = () => {
+    body.style.display = body.style.display === "none" ? "block" : "none";
+  };
+
+  const inputs = new Map<keyof PhysicsParams, { slider: HTMLInputElement; value: HTMLSpanElement }>();
+  for (const k of PHYSICS_KEYS) {
+    const r = RANGES[k];
+    const row = document.createElement("div");
+    row.style.marginBottom = "6px";
+    const label = document.createElement("div");
+    label.style.display = "flex";
+    label.style.justifyContent = "space-between";
+    const name = document.createElement("span");
+    name.textContent = k;
+    const value = document.createElement("span");
+    label.appendChild(name);
+    label.appendChild(value);
+    const slider = document.createElement("input");
+    slider.type = "range";
+    slider.min = String(r.min);
+    slider.max = String(r.max);
+    slider.step = String(r.step);
+    slider.style.width = "100%";
+    slider.oninput = () => {
+      skater[k] = Number(slider.value);
+      value.textContent = slider.value;
+    };
+    // Keep game keys from firing while dragging with the keyboard
+    slider.onkeydown = (e) => e.stopPropagation();
+    row.appendChild(label);
+    row.appendChild(slider);
+    body.appendChild(row);
+    inputs.set(k, { slider, value });
+  }
+
+  const buttons = document.createElement("div");
+  buttons.style.display = "flex";
+  buttons.style.gap = "6px";
+  const button = (text: string, onClick: () => void) => {
+    const b = document.createElement("button");
+    b.textContent = text;
+    b.style.flex = "1";
+    b.style.padding = "4px";
+    b.style.cursor = "pointer";
+    b.onclick = onClick;
+    buttons.appendChild(b);
+  };
+  button("Reset", () => {
+    applyProfile(skater, base);
+    sync();
+  });
+  button("Export JSON", () => {
+    const profile = captureProfile(skater, `${base.id}-tuned`, `${base.name} (tuned)`, base.description);
+    const blob = new Blob([JSON.stringify(profile, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${profile.id}.json`;
+    a.click();
+    // Revoking straight after click() can cancel the download in some browsers
+    window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+  });
+  body.appendChild(buttons);
+
+  function sync(): void {
+    for (const [k, { slider, value }] of inputs) {
+      slider.value = String(skater[k]);
+      value.textContent = String(skater[k]);
+    }
+  }
+
+  sync();
+  document.body.appendChild(root);
+
+  return {
+    setBase: (profile: SkaterProfile) => {
+      base = profile;
+      sync();
+    },
+    dispose: () => root.remove()
+  };
+}
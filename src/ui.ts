@@ -1,19 +1,57 @@
+import { describeBindings, InputAction } from "./input";
+
 let root: HTMLDivElement | null = null;
 let reticle: HTMLDivElement | null = null;
 let locationBar: HTMLDivElement | null = null;
 let trickContainer: HTMLDivElement | null = null;
+let comboEl: HTMLDivElement | null = null;
+let comboTricksEl: HTMLDivElement | null = null;
+let comboPointsEl: HTMLDivElement | null = null;
+let comboBarEl: HTMLDivElement | null = null;
+let balanceEl: HTMLDivElement | null = null;
+let balanceLabelEl: HTMLDivElement | null = null;
+let balanceNeedleEl: HTMLDivElement | null = null;
 let controlsCard: HTMLDivElement | null = null;
 let controlsVisible = false;
 let scoreEl: HTMLDivElement | null = null;
 let timerEl: HTMLDivElement | null = null;
+let storyCountEl: HTMLDivElement | null = null;
+let objectiveEl: HTMLDivElement | null = null;
+let talkPromptEl: HTMLDivElement | null = null;
 let hiscoreEl: HTMLDivElement | null = null;
 let startMenu: HTMLDivElement | null = null;
 let pauseMenu: HTMLDivElement | null = null;
 let adminButton: HTMLButtonElement | null = null;
 let pauseButton: HTMLButtonElement | null = null;
+let stanceBtn: HTMLButtonElement | null = null;
+let profilePicker: HTMLDivElement | null = null;
+let modePicker: HTMLDivElement | null = null;
+let ghostInfo: HTMLSpanElement | null = null;
+let ghostExportBtn: HTMLButtonElement | null = null;
+let scoreWrap: HTMLDivElement | null = null;
+let resultsTitle: HTMLHeadingElement | null = null;
+let goalsList: HTMLDivElement | null = null;
+let resultsMenu: HTMLDivElement | null = null;
+let resultsBody: HTMLDivElement | null = null;
 let onStartCallback: (() => void) | null = null;
 let onResumeCallback: (() => void) | null = null;
 let onPauseCallback: (() => void) | null = null;
+let onRebindCallback: ((action: InputAction, done: () => void) => void) | null = null;
+let onStanceToggleCallback: (() => void) | null = null;
+let onJournalCallback: (() => void) | null = null;
+let onProfileSelectCallback: ((id: string) => void) | null = null;
+let onCustomizeCallback: (() => void) | null = null;
+let onGhostExportCallback: (() => void) | null = null;
+let onGhostImportCallback: ((json: string) => void) | null = null;
+let onModeSelectCallback: ((id: string) => void) | null = null;
+let onRunLengthSelectCallback: ((seconds: number) => void) | null = null;
+let onRetryCallback: (() => void) | null = null;
+let onFreeSkateCallback: (() => void) | null = null;
+let onMenuCallback: (() => void) | null = null;
+let onWatchReplayCallback: (() => void) | null = null;
+let onReplaysCallback: (() => void) | null = null;
+let onOnlineCallback: (() => void) | null = null;
+let onLeaderboardsCallback: (() => void) | null = null;
 
 export function initUI(): void {
   if (root) return;
@@ -80,8 +118,85 @@ export function initUI(): void {
   trickContainer.style.gap = "6px";
   root.appendChild(trickContainer);
 
+  // Running combo (bottom center): chain, points x multiplier, timer bar
+  comboEl = document.createElement("div");
+  comboEl.style.position = "absolute";
+  comboEl.style.left = "50%";
+  comboEl.style.bottom = "96px";
+  comboEl.style.transform = "translateX(-50%)";
+  comboEl.style.minWidth = "180px";
+  comboEl.style.maxWidth = "70%";
+  comboEl.style.padding = "6px 12px";
+  comboEl.style.borderRadius = "8px";
+  comboEl.style.background = "rgba(20,20,25,0.8)";
+  comboEl.style.color = "#fff";
+  comboEl.style.textAlign = "center";
+  comboEl.style.boxShadow = "0 4px 16px rgba(0,0,0,0.25)";
+  comboEl.style.display = "none";
+  root.appendChild(comboEl);
+
+  comboTricksEl = document.createElement("div");
+  comboTricksEl.style.fontSize = "13px";
+  comboEl.appendChild(comboTricksEl);
+
+  comboPointsEl = document.createElement("div");
+  comboPointsEl.style.fontSize = "16px";
+  comboPointsEl.style.fontWeight = "700";
+  comboEl.appendChild(comboPointsEl);
+
+  const comboTrack = document.createElement("div");
+  comboTrack.style.height = "4px";
+  comboTrack.style.marginTop = "4px";
+  comboTrack.style.borderRadius = "2px";
+  comboTrack.style.background = "rgba(255,255,255,0.2)";
+  comboEl.appendChild(comboTrack);
+
+  comboBarEl = document.createElement("div");
+  comboBarEl.style.height = "100%";
+  comboBarEl.style.borderRadius = "2px";
+  comboBarEl.style.background = "#ffd24a";
+  comboBarEl.style.width = "100%";
+  comboTrack.appendChild(comboBarEl);
+
+  // Balance meter (manuals, later grinds): needle drifts toward the red ends
+  balanceEl = document.createElement("div");
+  balanceEl.style.position = "absolute";
+  balanceEl.style.left = "50%";
+  balanceEl.style.bottom = "170px";
+  balanceEl.style.transform = "translateX(-50%)";
+  balanceEl.style.width = "200px";
+  balanceEl.style.textAlign = "center";
+  balanceEl.style.display = "none";
+  root.appendChild(balanceEl);
+
+  balanceLabelEl = document.createElement("div");
+  balanceLabelEl.style.fontSize = "11px";
+  balanceLabelEl.style.fontWeight = "700";
+  balanceLabelEl.style.color = "#111";
+  balanceLabelEl.style.marginBottom = "3px";
+  balanceEl.appendChild(balanceLabelEl);
+
+  const balanceTrack = document.createElement("div");
+  balanceTrack.style.position = "relative";
+  balanceTrack.style.height = "10px";
+  balanceTrack.style.borderRadius = "5px";
+  balanceTrack.style.background = "linear-gradient(90deg, #e5484d 0%, #ffd24a 25%, #46a758 50%, #ffd24a 75%, #e5484d 100%)";
+  balanceTrack.style.boxShadow = "0 2px 8px rgba(0,0,0,0.2)";
+  balanceEl.appendChild(balanceTrack);
+
+  balanceNeedleEl = document.createElement("div");
+  balanceNeedleEl.style.position = "absolute";
+  balanceNeedleEl.style.top = "-3px";
+  balanceNeedleEl.style.width = "4px";
+  balanceNeedleEl.style.height = "16px";
+  balanceNeedleEl.style.marginLeft = "-2px";
+  balanceNeedleEl.style.borderRadius = "2px";
+  balanceNeedleEl.style.background = "#111";
+  balanceNeedleEl.style.left = "50%";
+  balanceTrack.appendChild(balanceNeedleEl);
+
   // Score (top-right)
-  const scoreWrap = document.createElement("div");
+  scoreWrap = document.createElement("div");
   scoreWrap.style.position = "absolute";
   scoreWrap.style.right = "16px";
   scoreWrap.style.top = "14px";
@@ -126,6 +241,47 @@ export function initUI(): void {
   timerEl.textContent = "02:00";
   root.appendChild(timerEl);
 
+  // Stories discovered (top-left, under the timer)
+  storyCountEl = document.createElement("div");
+  storyCountEl.style.position = "absolute";
+  storyCountEl.style.left = "16px";
+  storyCountEl.style.top = "52px";
+  storyCountEl.style.padding = "4px 8px";
+  storyCountEl.style.borderRadius = "6px";
+  storyCountEl.style.background = "rgba(255,255,255,0.78)";
+  storyCountEl.style.color = "#333";
+  storyCountEl.style.fontSize = "12px";
+  root.appendChild(storyCountEl);
+
+  // Story chain objective (under the story count)
+  objectiveEl = document.createElement("div");
+  objectiveEl.style.position = "absolute";
+  objectiveEl.style.left = "16px";
+  objectiveEl.style.top = "80px";
+  objectiveEl.style.maxWidth = "320px";
+  objectiveEl.style.padding = "4px 8px";
+  objectiveEl.style.borderRadius = "6px";
+  objectiveEl.style.background = "rgba(20, 20, 30, 0.78)";
+  objectiveEl.style.color = "#ffd166";
+  objectiveEl.style.fontSize = "12px";
+  objectiveEl.style.display = "none";
+  root.appendChild(objectiveEl);
+
+  // "Talk to ..." prompt when a character is close
+  talkPromptEl = document.createElement("div");
+  talkPromptEl.style.position = "absolute";
+  talkPromptEl.style.left = "50%";
+  talkPromptEl.style.bottom = "210px";
+  talkPromptEl.style.transform = "translateX(-50%)";
+  talkPromptEl.style.padding = "6px 12px";
+  talkPromptEl.style.borderRadius = "6px";
+  talkPromptEl.style.background = "rgba(20, 20, 30, 0.85)";
+  talkPromptEl.style.color = "#fff";
+  talkPromptEl.style.fontSize = "14px";
+  talkPromptEl.style.fontWeight = "600";
+  talkPromptEl.style.display = "none";
+  root.appendChild(talkPromptEl);
+
   // Controls overlay (toggle with Tab)
   controlsCard = document.createElement("div");
   controlsCard.style.position = "absolute";
@@ -141,9 +297,8 @@ export function initUI(): void {
   controlsCard.style.pointerEvents = "auto";
   controlsCard.style.display = "block";
   controlsVisible = true;
-  controlsCard.innerHTML =
-    "Movement: Arrows or I/J/K/L<br/>Accelerate: Up / I<br/>Brake: Down / K<br/>Turn: Left/Right or J/L<br/>Push: Shift<br/>Jump/Pop: Space<br/><br/>Tricks (WASD):<br/>W/E: Spin<br/>A/Q: Grab<br/>D/F: Kickflip<br/>S: Shove-it<br/>Grind: Land on a rail";
   root.appendChild(controlsCard);
+  renderControls();
 
   // Admin button (top-right, below score)
   adminButton = document.createElement("button");
@@ -206,6 +361,8 @@ export function initUI(): void {
   startMenu.innerHTML = `
     <h1 style="color: #fff; font-size: 48px; margin: 0; text-shadow: 0 4px 12px rgba(0,0,0,0.5);">Just a Little World</h1>
     <p style="color: #ccc; font-size: 18px; margin: 0;">A skateboarding adventure</p>
+    <div id="mode-picker" style="display: flex; flex-direction: column; align-items: center; gap: 8px; min-width: 320px;"></div>
+    <div id="profile-picker" style="display: flex; flex-direction: column; align-items: center; gap: 8px; min-width: 320px;"></div>
     <button id="start-btn" style="
       padding: 14px 32px;
       font-size: 18px;
@@ -218,6 +375,54 @@ export function initUI(): void {
       box-shadow: 0 4px 16px rgba(0,0,0,0.3);
       transition: transform 0.2s, box-shadow 0.2s;
     ">Start Game</button>
+    <div id="menu-buttons" style="display: flex; flex-wrap: wrap; justify-content: center; gap: 10px;">
+      <button id="customize-btn" style="
+        padding: 10px 24px;
+        font-size: 15px;
+        font-weight: 600;
+        border: 1px solid rgba(255,255,255,0.4);
+        border-radius: 8px;
+        background: transparent;
+        color: #fff;
+        cursor: pointer;
+      ">Customize</button>
+      <button id="replays-btn" style="
+        padding: 10px 24px;
+        font-size: 15px;
+        font-weight: 600;
+        border: 1px solid rgba(255,255,255,0.4);
+        border-radius: 8px;
+        background: transparent;
+        color: #fff;
+        cursor: pointer;
+      ">Replays</button>
+      <button id="online-btn" style="
+        padding: 10px 24px;
+        font-size: 15px;
+        font-weight: 600;
+        border: 1px solid rgba(255,255,255,0.4);
+        border-radius: 8px;
+        background: transparent;
+        color: #fff;
+        cursor: pointer;
+      ">Online</button>
+      <button id="leaderboards-btn" style="
+        padding: 10px 24px;
+        font-size: 15px;
+        font-weight: 600;
+        border: 1px solid rgba(255,255,255,0.4);
+        border-radius: 8px;
+        background: transparent;
+        color: #fff;
+        cursor: pointer;
+      ">Leaderboards</button>
+    </div>
+    <div id="ghost-row" style="display: flex; align-items: center; gap: 8px; color: #ccc; font-size: 13px;">
+      <span id="ghost-info">No ghost yet</span>
+      <button id="ghost-export-btn" style="padding: 4px 10px; font-size: 12px; border: 1px solid rgba(255,255,255,0.4); border-radius: 6px; background: transparent; color: #fff; cursor: pointer;">Export</button>
+      <button id="ghost-import-btn" style="padding: 4px 10px; font-size: 12px; border: 1px solid rgba(255,255,255,0.4); border-radius: 6px; background: transparent; color: #fff; cursor: pointer;">Import</button>
+      <input id="ghost-file" type="file" accept=".json,application/json" style="display: none;" />
+    </div>
     <p style="color: #888; font-size: 14px; margin-top: 20px;">Press ESC to pause during gameplay</p>
   `;
   document.body.appendChild(startMenu);
@@ -235,6 +440,36 @@ export function initUI(): void {
     hideStartMenu();
     if (onStartCallback) onStartCallback();
   };
+  profilePicker = startMenu.querySelector("#profile-picker") as HTMLDivElement;
+  modePicker = startMenu.querySelector("#mode-picker") as HTMLDivElement;
+  ghostInfo = startMenu.querySelector("#ghost-info") as HTMLSpanElement;
+  ghostExportBtn = startMenu.querySelector("#ghost-export-btn") as HTMLButtonElement;
+  ghostExportBtn.onclick = () => {
+    if (onGhostExportCallback) onGhostExportCallback();
+  };
+  const ghostFile = startMenu.querySelector("#ghost-file") as HTMLInputElement;
+  (startMenu.querySelector("#ghost-import-btn") as HTMLButtonElement).onclick = () => ghostFile.click();
+  ghostFile.onchange = () => {
+    const file = ghostFile.files?.[0];
+    ghostFile.value = "";
+    if (!file) return;
+    file.text().then((text) => {
+      if (onGhostImportCallback) onGhostImportCallback(text);
+    });
+  };
+  const customizeBtn = startMenu.querySelector("#customize-btn") as HTMLButtonElement;
+  customizeBtn.onclick = () => {
+    if (onCustomizeCallback) onCustomizeCallback();
+  };
+  (startMenu.querySelector("#replays-btn") as HTMLButtonElement).onclick = () => {
+    if (onReplaysCallback) onReplaysCallback();
+  };
+  (startMenu.querySelector("#online-btn") as HTMLButtonElement).onclick = () => {
+    if (onOnlineCallback) onOnlineCallback();
+  };
+  (startMenu.querySelector("#leaderboards-btn") as HTMLButtonElement).onclick = () => {
+    if (onLeaderboardsCallback) onLeaderboardsCallback();
+  };
 
   // Pause menu
   pauseMenu = document.createElement("div");
@@ -265,6 +500,27 @@ export function initUI(): void {
       box-shadow: 0 4px 16px rgba(0,0,0,0.3);
       transition: transform 0.2s, box-shadow 0.2s;
     ">Resume</button>
+    <button id="stance-btn" style="
+      padding: 8px 20px;
+      font-size: 14px;
+      font-weight: 600;
+      border: 1px solid rgba(255,255,255,0.4);
+      border-radius: 8px;
+      background: transparent;
+      color: #fff;
+      cursor: pointer;
+    ">Stance: Regular</button>
+    <button id="journal-btn" style="
+      padding: 8px 20px;
+      font-size: 14px;
+      font-weight: 600;
+      border: 1px solid rgba(255,255,255,0.4);
+      border-radius: 8px;
+      background: transparent;
+      color: #fff;
+      cursor: pointer;
+    ">Journal</button>
+    <div id="goals-list" style="display: flex; flex-direction: column; gap: 4px; min-width: 320px; color: #fff; font-size: 14px;"></div>
     <p style="color: #888; font-size: 14px;">Press ESC to resume</p>
   `;
   document.body.appendChild(pauseMenu);
@@ -283,25 +539,142 @@ export function initUI(): void {
     if (onResumeCallback) onResumeCallback();
   };
 
-  window.addEventListener("keydown", (e) => {
-    if (e.code === "Tab") {
-      e.preventDefault();
-      controlsVisible = !controlsVisible;
-      controlsCard!.style.display = controlsVisible ? "block" : "none";
-    }
-    if (e.code === "Escape") {
-      e.preventDefault();
-      if (pauseMenu && pauseMenu.style.display === "flex") {
-        hidePauseMenu();
-        if (onResumeCallback) onResumeCallback();
-      } else if (startMenu && startMenu.style.display === "flex") {
-        // Do nothing, already on start menu
-      } else {
-        showPauseMenu();
-        if (onPauseCallback) onPauseCallback();
-      }
-    }
-  });
+  goalsList = pauseMenu.querySelector("#goals-list") as HTMLDivElement;
+  stanceBtn = pauseMenu.querySelector("#stance-btn") as HTMLButtonElement;
+  stanceBtn.onclick = () => {
+    if (onStanceToggleCallback) onStanceToggleCallback();
+  };
+  const journalBtn = pauseMenu.querySelector("#journal-btn") as HTMLButtonElement;
+  journalBtn.onclick = () => {
+    if (onJournalCallback) onJournalCallback();
+  };
+
+  // Results screen (end of a timed run)
+  resultsMenu = document.createElement("div");
+  resultsMenu.style.position = "fixed";
+  resultsMenu.style.left = "0";
+  resultsMenu.style.top = "0";
+  resultsMenu.style.width = "100%";
+  resultsMenu.style.height = "100%";
+  resultsMenu.style.background = "rgba(0, 0, 0, 0.85)";
+  resultsMenu.style.display = "none";
+  resultsMenu.style.flexDirection = "column";
+  resultsMenu.style.alignItems = "center";
+  resultsMenu.style.justifyContent = "center";
+  resultsMenu.style.gap = "20px";
+  resultsMenu.style.zIndex = "1000";
+  resultsMenu.style.pointerEvents = "auto";
+  resultsMenu.innerHTML = `
+    <h1 id="results-title" style="color: #fff; font-size: 42px; margin: 0; text-shadow: 0 4px 12px rgba(0,0,0,0.5);">Time's Up</h1>
+    <div id="results-body" style="color: #fff; font-size: 18px; display: grid; grid-template-columns: auto auto; gap: 8px 28px;"></div>
+    <div style="display: flex; gap: 12px;">
+      <button id="retry-btn" style="
+        padding: 14px 32px;
+        font-size: 18px;
+        font-weight: 700;
+        border: none;
+        border-radius: 8px;
+        background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+        color: #fff;
+        cursor: pointer;
+        box-shadow: 0 4px 16px rgba(0,0,0,0.3);
+      ">Retry</button>
+      <button id="free-skate-btn" style="
+        padding: 14px 24px;
+        font-size: 16px;
+        font-weight: 600;
+        border: 1px solid rgba(255,255,255,0.4);
+        border-radius: 8px;
+        background: transparent;
+        color: #fff;
+        cursor: pointer;
+      ">Free Skate</button>
+      <button id="watch-replay-btn" style="
+        padding: 14px 24px;
+        font-size: 16px;
+        font-weight: 600;
+        border: 1px solid rgba(255,255,255,0.4);
+        border-radius: 8px;
+        background: transparent;
+        color: #fff;
+        cursor: pointer;
+      ">Watch Replay</button>
+      <button id="menu-btn" style="
+        padding: 14px 24px;
+        font-size: 16px;
+        font-weight: 600;
+        border: 1px solid rgba(255,255,255,0.4);
+        border-radius: 8px;
+        background: transparent;
+        color: #fff;
+        cursor: pointer;
+      ">Menu</button>
+    </div>
+  `;
+  document.body.appendChild(resultsMenu);
+  resultsBody = resultsMenu.querySelector("#results-body") as HTMLDivElement;
+  resultsTitle = resultsMenu.querySelector("#results-title") as HTMLHeadingElement;
+  const resultButtons: [string, () => (() => void) | null][] = [
+    ["#retry-btn", () => onRetryCallback],
+    ["#free-skate-btn", () => onFreeSkateCallback],
+    ["#watch-replay-btn", () => onWatchReplayCallback],
+    ["#menu-btn", () => onMenuCallback]
+  ];
+  for (const [id, callback] of resultButtons) {
+    (resultsMenu.querySelector(id) as HTMLButtonElement).onclick = () => {
+      hideResults();
+      callback()?.();
+    };
+  }
+}
+
+// Controls overlay text comes from the live bindings; click a row to rebind it
+function renderControls(): void {
+  if (!controlsCard) return;
+  controlsCard.innerHTML = "";
+  const rows = describeBindings();
+  for (const row of rows) {
+    const line = document.createElement("div");
+    line.style.cursor = "pointer";
+    line.title = "Click, then press a key or pad button to rebind";
+    line.textContent = `${row.label}: ${row.keys}`;
+    line.onclick = () => {
+      if (!onRebindCallback) return;
+      line.textContent = `${row.label}: press a key or button…`;
+      onRebindCallback(row.action, renderControls);
+    };
+    controlsCard.appendChild(line);
+  }
+  const hint = document.createElement("div");
+  hint.style.marginTop = "6px";
+  hint.style.color = "#555";
+  hint.textContent = "Grind: Land on a rail";
+  // Sticks are fixed (see pollGamepads); buttons come from the pad bindings
+  const padButtons = rows.filter((r) => r.pad).map((r) => `${r.pad} ${r.label.toLowerCase()}`);
+  const pad = document.createElement("div");
+  pad.textContent = `Gamepad: left stick to ride, right stick back/forward to manual/nose manual, ${padButtons.join(", ")}`;
+  hint.appendChild(pad);
+  controlsCard.appendChild(hint);
+}
+
+export function toggleControls(): void {
+  if (!controlsCard) return;
+  controlsVisible = !controlsVisible;
+  controlsCard.style.display = controlsVisible ? "block" : "none";
+}
+
+export function togglePauseMenu(): void {
+  if (pauseMenu && pauseMenu.style.display === "flex") {
+    hidePauseMenu();
+    if (onResumeCallback) onResumeCallback();
+  } else if (startMenu && startMenu.style.display === "flex") {
+    // Do nothing, already on start menu
+  } else if (resultsMenu && resultsMenu.style.display === "flex") {
+    // Run is over; the results screen has its own buttons
+  } else {
+    showPauseMenu();
+    if (onPauseCallback) onPauseCallback();
+  }
 }
 
 export function setLocationLabel(text: string): void {
@@ -337,6 +710,30 @@ export function showTrickPopup(text: string): void {
   }, 1000);
 }
 
+export function setCombo(combo: { tricks: string[]; basePoints: number; multiplier: number; timeFrac: number } | null): void {
+  if (!comboEl || !comboTricksEl || !comboPointsEl || !comboBarEl) return;
+  if (!combo) {
+    comboEl.style.display = "none";
+    return;
+  }
+  comboEl.style.display = "block";
+  comboTricksEl.textContent = combo.tricks.join(" + ");
+  comboPointsEl.textContent = `${combo.basePoints} x ${combo.multiplier}`;
+  comboBarEl.style.width = `${Math.round(combo.timeFrac * 100)}%`;
+}
+
+export function setBalanceMeter(label: string | null, balance: number = 0): void {
+  if (!balanceEl || !balanceLabelEl || !balanceNeedleEl) return;
+  if (label === null) {
+    balanceEl.style.display = "none";
+    return;
+  }
+  balanceEl.style.display = "block";
+  balanceLabelEl.textContent = label;
+  const b = Math.max(-1, Math.min(1, balance));
+  balanceNeedleEl.style.left = `${50 + b * 50}%`;
+}
+
 export function setScore(score: number): void {
   if (scoreEl) scoreEl.textContent = `Score: ${score}`;
 }
@@ -345,8 +742,31 @@ export function setHighScore(best: number): void {
   if (hiscoreEl) hiscoreEl.textContent = `Best: ${best}`;
 }
 
-export function setTimer(secondsRemaining: number): void {
+export function setStoryCount(found: number, total: number): void {
+  if (storyCountEl) storyCountEl.textContent = `${found}/${total} stories found`;
+}
+
+/** Story chain objective; null hides it. Called every step, so it only touches the DOM on change. */
+export function setQuestObjective(text: string | null): void {
+  if (!objectiveEl || objectiveEl.textContent === (text ?? "")) return;
+  objectiveEl.textContent = text ?? "";
+  objectiveEl.style.display = text ? "block" : "none";
+}
+
+/** Prompt to talk to a nearby character; null hides it. */
+export function setTalkPrompt(text: string | null): void {
+  if (!talkPromptEl || talkPromptEl.textContent === (text ?? "")) return;
+  talkPromptEl.textContent = text ?? "";
+  talkPromptEl.style.display = text ? "block" : "none";
+}
+
+/** Run clock; null for untimed play. */
+export function setTimer(secondsRemaining: number | null): void {
   if (!timerEl) return;
+  if (secondsRemaining === null) {
+    timerEl.textContent = "Free Skate";
+    return;
+  }
   const s = Math.max(0, Math.floor(secondsRemaining));
   const m = Math.floor(s / 60);
   const sec = s % 60;
@@ -366,6 +786,103 @@ export function hideStartMenu(): void {
   }
 }
 
+/** Park goals in the pause menu: label, progress this run, and whether it's been completed. */
+export function setGoals(goals: { label: string; progress: string; done: boolean }[]): void {
+  if (!goalsList) return;
+  goalsList.innerHTML = "";
+  if (goals.length === 0) return;
+  const title = document.createElement("div");
+  title.textContent = "Goals";
+  title.style.fontWeight = "700";
+  title.style.marginBottom = "4px";
+  goalsList.appendChild(title);
+  for (const g of goals) {
+    const row = document.createElement("div");
+    row.style.display = "flex";
+    row.style.justifyContent = "space-between";
+    row.style.gap = "16px";
+    row.style.color = g.done ? "#7cff4f" : "#fff";
+    const label = document.createElement("span");
+    label.textContent = `${g.done ? "✓" : "○"} ${g.label}`;
+    const progress = document.createElement("span");
+    progress.style.color = g.done ? "#7cff4f" : "#aaa";
+    progress.textContent = g.progress;
+    row.appendChild(label);
+    row.appendChild(progress);
+    goalsList.appendChild(row);
+  }
+}
+
+export type RunResults = {
+  title?: string; // defaults to "Time's Up"
+  score: number;
+  bestTrick: { name: string; points: number } | null;
+  longestCombo: { tricks: number; total: number } | null;
+  storiesFound: number;
+  storiesTotal: number;
+  newBest: boolean;
+  rank?: number | null; // place on the leaderboard, when the run made it
+  rows?: [string, string][]; // replaces the solo tally (two-player runs)
+};
+
+export function showResults(results: RunResults): void {
+  if (!resultsMenu || !resultsBody) return;
+  const rows: [string, string][] = results.rows ?? [
+    ["Score", `${results.score}${results.newBest ? "  ★ New best!" : ""}`],
+    ["Best trick", results.bestTrick ? `${results.bestTrick.name} (${results.bestTrick.points})` : "—"],
+    ["Longest combo", results.longestCombo ? `${results.longestCombo.tricks} tricks (${results.longestCombo.total})` : "—"],
+    ["Stories found", `${results.storiesFound}/${results.storiesTotal}`]
+  ];
+  if (results.rank && !results.rows) rows.push(["Leaderboard", `#${results.rank}`]);
+  if (resultsTitle) resultsTitle.textContent = results.title ?? "Time's Up";
+  resultsBody.innerHTML = "";
+  for (const [label, value] of rows) {
+    const l = document.createElement("div");
+    l.style.color = "#aaa";
+    l.textContent = label;
+    const v = document.createElement("div");
+    v.style.fontWeight = "700";
+    v.textContent = value;
+    resultsBody.appendChild(l);
+    resultsBody.appendChild(v);
+  }
+  resultsMenu.style.display = "flex";
+}
+
+export function hideResults(): void {
+  if (resultsMenu) {
+    resultsMenu.style.display = "none";
+  }
+}
+
+export function setOnRetry(callback: () => void): void {
+  onRetryCallback = callback;
+}
+
+export function setOnFreeSkate(callback: () => void): void {
+  onFreeSkateCallback = callback;
+}
+
+export function setOnMenu(callback: () => void): void {
+  onMenuCallback = callback;
+}
+
+export function setOnWatchReplay(callback: () => void): void {
+  onWatchReplayCallback = callback;
+}
+
+export function setOnReplays(callback: () => void): void {
+  onReplaysCallback = callback;
+}
+
+export function setOnOnline(callback: () => void): void {
+  onOnlineCallback = callback;
+}
+
+export function setOnLeaderboards(callback: () => void): void {
+  onLeaderboardsCallback = callback;
+}
+
 export function showPauseMenu(): void {
   if (pauseMenu) {
     pauseMenu.style.display = "flex";
@@ -390,4 +907,164 @@ export function setOnPause(callback: () => void): void {
   onPauseCallback = callback;
 }
 
+export type ProfileChoice = {
+  id: string;
+  name: string;
+  description: string;
+  stats: { label: string; value: number }[]; // value 0..10
+};
+
+/** Skater profile buttons on the start menu, with the selected one's stat bars. */
+export function setProfileChoices(choices: ProfileChoice[], selectedId: string): void {
+  if (!profilePicker) return;
+  profilePicker.innerHTML = "";
+  const row = document.createElement("div");
+  row.style.display = "flex";
+  row.style.gap = "8px";
+  for (const c of choices) {
+    row.appendChild(choiceButton(c.name, c.id === selectedId, () => onProfileSelectCallback?.(c.id)));
+  }
+  profilePicker.appendChild(row);
 
+  const selected = choices.find((c) => c.id === selectedId);
+  if (!selected) return;
+  const desc = document.createElement("div");
+  desc.style.color = "#ccc";
+  desc.style.fontSize = "13px";
+  desc.textContent = selected.description;
+  profilePicker.appendChild(desc);
+  for (const stat of selected.stats) {
+    const line = document.createElement("div");
+    line.style.display = "flex";
+    line.style.alignItems = "center";
+    line.style.gap = "8px";
+    line.style.width = "260px";
+    line.style.color = "#fff";
+    line.style.fontSize = "12px";
+    const label = document.createElement("div");
+    label.style.width = "70px";
+    label.textContent = stat.label;
+    const track = document.createElement("div");
+    track.style.flex = "1";
+    track.style.height = "8px";
+    track.style.borderRadius = "4px";
+    track.style.background = "rgba(255,255,255,0.15)";
+    const fill = document.createElement("div");
+    fill.style.height = "100%";
+    fill.style.borderRadius = "4px";
+    fill.style.width = `${Math.max(0, Math.min(10, stat.value)) * 10}%`;
+    fill.style.background = "linear-gradient(90deg, #667eea, #764ba2)";
+    track.appendChild(fill);
+    line.appendChild(label);
+    line.appendChild(track);
+    profilePicker.appendChild(line);
+  }
+}
+
+// Shared look for the start menu's choice rows
+function choiceButton(text: string, selected: boolean, onClick: () => void): HTMLButtonElement {
+  const b = document.createElement("button");
+  b.textContent = text;
+  b.style.padding = "6px 14px";
+  b.style.borderRadius = "6px";
+  b.style.border = "1px solid rgba(255,255,255,0.4)";
+  b.style.background = selected ? "rgba(255,255,255,0.9)" : "transparent";
+  b.style.color = selected ? "#222" : "#fff";
+  b.style.fontWeight = "600";
+  b.style.cursor = "pointer";
+  b.onclick = onClick;
+  return b;
+}
+
+/** Game mode buttons on the start menu; run lengths are offered when the mode is timed (pass null otherwise). */
+export function setModeChoices(
+  modes: { id: string; name: string; description: string }[],
+  selectedId: string,
+  lengths: { options: number[]; selected: number } | null
+): void {
+  if (!modePicker) return;
+  modePicker.innerHTML = "";
+  const row = document.createElement("div");
+  row.style.display = "flex";
+  row.style.gap = "8px";
+  for (const m of modes) {
+    row.appendChild(choiceButton(m.name, m.id === selectedId, () => onModeSelectCallback?.(m.id)));
+  }
+  modePicker.appendChild(row);
+  const selected = modes.find((m) => m.id === selectedId);
+  if (selected) {
+    const desc = document.createElement("div");
+    desc.style.color = "#ccc";
+    desc.style.fontSize = "13px";
+    desc.textContent = selected.description;
+    modePicker.appendChild(desc);
+  }
+  if (!lengths) return;
+  const lengthRow = document.createElement("div");
+  lengthRow.style.display = "flex";
+  lengthRow.style.gap = "6px";
+  for (const seconds of lengths.options) {
+    const label = seconds % 60 === 0 ? `${seconds / 60} min` : `${seconds}s`;
+    lengthRow.appendChild(choiceButton(label, seconds === lengths.selected, () => onRunLengthSelectCallback?.(seconds)));
+  }
+  modePicker.appendChild(lengthRow);
+}
+
+export function setOnModeSelect(callback: (id: string) => void): void {
+  onModeSelectCallback = callback;
+}
+
+export function setOnRunLengthSelect(callback: (seconds: number) => void): void {
+  onRunLengthSelectCallback = callback;
+}
+
+/** Ghost line on the start menu; export is only offered when there's a ghost to save. */
+export function setGhostInfo(text: string, canExport: boolean): void {
+  if (ghostInfo) ghostInfo.textContent = text;
+  if (ghostExportBtn) {
+    ghostExportBtn.disabled = !canExport;
+    ghostExportBtn.style.opacity = canExport ? "1" : "0.4";
+  }
+}
+
+export function setOnGhostExport(callback: () => void): void {
+  onGhostExportCallback = callback;
+}
+
+export function setOnGhostImport(callback: (json: string) => void): void {
+  onGhostImportCallback = callback;
+}
+
+/** Hide the score and best (modes without scoring). */
+/** The solo HUD steps aside while split-screen draws its own halves. */
+export function setHudVisible(visible: boolean): void {
+  if (root) root.style.display = visible ? "block" : "none";
+}
+
+export function setScoreVisible(visible: boolean): void {
+  if (scoreWrap) scoreWrap.style.display = visible ? "flex" : "none";
+}
+
+export function setOnProfileSelect(callback: (id: string) => void): void {
+  onProfileSelectCallback = callback;
+}
+
+export function setOnCustomize(callback: () => void): void {
+  onCustomizeCallback = callback;
+}
+
+export function setOnStanceToggle(callback: () => void): void {
+  onStanceToggleCallback = callback;
+}
+
+export function setOnJournal(callback: () => void): void {
+  onJournalCallback = callback;
+}
+
+export function setStanceLabel(stance: "regular" | "goofy"): void {
+  if (stanceBtn) stanceBtn.textContent = `Stance: ${stance === "goofy" ? "Goofy" : "Regular"}`;
+}
+
+export function setOnRebind(callback: (action: InputAction, done: () => void) => void): void {
+  onRebindCallback = callback;
+}
@@ -0,0 +1,133 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { NullEngine } from "@babylonjs/core/Engines/nullEngine";
+import { Scene } from "@babylonjs/core/scene";
+import { MeshBuilder } from "@babylonjs/core/Meshes/meshBuilder";
+import { Vector3 } from "@babylonjs/core/Maths/math.vector";
+import { Capsule, Collider, blocksCapsule, collectColliders, pushOut, sweepCircle } from "../src/collision";
+
+const EPS = 1e-9;
+
+function box(center: Vector3, halfX: number, halfZ: number, yaw = 0, height = 1): Collider {
+  return {
+    kind: "box",
+    center,
+    axisX: new Vector3(Math.cos(yaw), 0, -Math.sin(yaw)),
+    axisZ: new Vector3(Math.sin(yaw), 0, Math.cos(yaw)),
+    halfX,
+    halfZ,
+    radius: Math.max(halfX, halfZ),
+    minY: 0,
+    maxY: height,
+    walkable: true
+  };
+}
+
+function cylinder(center: Vector3, radius: number): Collider {
+  return { ...box(center, radius, radius), kind: "cylinder", walkable: false };
+}
+
+function assertNear(actual: Vector3, expected: Vector3): void {
+  assert.ok(Vector3.Distance(actual, expected) < 1e-6, `expected ${expected}, got ${actual}`);
+}
+
+test("a circle sweeping into a box stops at the grown face", () => {
+  const wall = box(new Vector3(0, 0, 0), 1, 1);
+  const hit = sweepCircle(wall, new Vector3(-4, 0, 0), new Vector3(0, 0, 0), 0.5);
+  assert.ok(hit);
+  // Contact when the centre is r outside the face at x = -1
+  assert.ok(Math.abs(hit.t - 2.5 / 4) < EPS);
+  assertNear(hit.normal, new Vector3(-1, 0, 0));
+});
+
+test("a fast move can't tunnel through a thin wall", () => {
+  const wall = box(new Vector3(0, 0, 0), 0.05, 5);
+  const hit = sweepCircle(wall, new Vector3(-3, 0, 0), new Vector3(30, 0, 0), 0.3);
+  assert.ok(hit);
+  assertNear(hit.normal, new Vector3(-1, 0, 0));
+});
+
+test("moves that miss, run parallel or start inside don't hit", () => {
+  const wall = box(new Vector3(0, 0, 0), 1, 1);
+  assert.equal(sweepCircle(wall, new Vector3(-4, 0, 3), new Vector3(4, 0, 3), 0.5), null);
+  assert.equal(sweepCircle(wall, new Vector3(-4, 0, 0), new Vector3(-2, 0, 0), 0.5), null);
+  assert.equal(sweepCircle(wall, new Vector3(0, 0, 0), new Vector3(4, 0, 0), 0.5), null);
+});
+
+test("yawed boxes are swept in their own frame", () => {
+  // A 45-degree box: its corner points at -x, so coming in along the diagonal hits a face
+  const yaw = Math.PI / 4;
+  const wall = box(new Vector3(0, 0, 0), 1, 1, yaw);
+  const dir = new Vector3(Math.cos(yaw), 0, -Math.sin(yaw));
+  const hit = sweepCircle(wall, dir.scale(-5), Vector3.Zero(), 0.5);
+  assert.ok(hit);
+  assert.ok(Math.abs(hit.t - 3.5 / 5) < EPS);
+  assertNear(hit.normal, dir.scale(-1));
+});
+
+test("a circle sweeping into a cylinder hits along the radius", () => {
+  const post = cylinder(new Vector3(0, 0, 0), 0.5);
+  const hit = sweepCircle(post, new Vector3(0, 0, 5), new Vector3(0, 0, -5), 0.5);
+  assert.ok(hit);
+  assert.ok(Math.abs(hit.t - 0.4) < EPS);
+  assertNear(hit.normal, new Vector3(0, 0, 1));
+  assert.equal(sweepCircle(post, new Vector3(2, 0, 5), new Vector3(2, 0, -5), 0.5), null);
+});
+
+test("pushOut takes the shortest way out", () => {
+  const wall = box(new Vector3(0, 0, 0), 2, 1);
+  assertNear(pushOut(wall, new Vector3(1.5, 0, 0.8), 0.5)!, new Vector3(0, 0, 0.7));
+  assertNear(pushOut(wall, new Vector3(-2.2, 0, 0), 0.5)!, new Vector3(-0.3, 0, 0));
+  assert.equal(pushOut(wall, new Vector3(3, 0, 0), 0.5), null);
+  const post = cylinder(new Vector3(0, 0, 0), 0.5);
+  assertNear(pushOut(post, new Vector3(0.6, 0, 0), 0.5)!, new Vector3(0.4, 0, 0));
+  assert.equal(pushOut(post, new Vector3(1.2, 0, 0), 0.5), null);
+});
+
+test("only props reaching into the capsule's height block it", () => {
+  const rider: Capsule = { radius: 0.3, feet: 0, height: 1.7, stepUp: 0.55 };
+  const at = (minY: number, maxY: number, walkable = true): Collider => ({ ...box(Vector3.Zero(), 1, 1), minY, maxY, walkable });
+  assert.equal(blocksCapsule(at(0, 0.3), rider), false, "curb is stepped over");
+  assert.equal(blocksCapsule(at(0, 0.5), rider), false, "half-metre base is ridden onto");
+  assert.equal(blocksCapsule(at(0, 0.6), rider), true, "ledge blocks");
+  assert.equal(blocksCapsule(at(0, 0.5, false), rider), true, "posts can't be stood on");
+  assert.equal(blocksCapsule(at(2.0, 3.0), rider), false, "overhang passes over the head");
+  assert.equal(blocksCapsule(at(0, 0.6), { ...rider, feet: 0.5 }), false, "from on top of the base, the ledge is a step");
+});
+
+test("colliders come from upright props, sized along their own axes", () => {
+  const engine = new NullEngine();
+  const scene = new Scene(engine);
+  try {
+    const yawed = MeshBuilder.CreateBox("yawed", { width: 4, depth: 1, height: 1 }, scene);
+    yawed.position.set(5, 0.5, 0);
+    yawed.rotation.y = Math.PI / 4;
+    yawed.scaling.x = 2;
+    yawed.metadata = { isGround: true };
+    const bank = MeshBuilder.CreateBox("bank", { width: 2, depth: 6, height: 1 }, scene);
+    bank.rotation.x = -Math.PI / 10;
+    bank.metadata = { isGround: true };
+    const rail = MeshBuilder.CreateBox("rail", { size: 1 }, scene);
+    rail.metadata = { isGround: true, isRail: true };
+    const post = MeshBuilder.CreateCylinder("post", { diameter: 0.08, height: 0.5 }, scene);
+    post.position.set(-5, 0.25, 0);
+    post.metadata = { isSolid: true, collider: "cylinder" };
+    MeshBuilder.CreateBox("decoration", { size: 1 }, scene);
+
+    const colliders = collectColliders(scene);
+    assert.equal(colliders.length, 2);
+    const [b, c] = colliders;
+    assert.equal(b.kind, "box");
+    assert.ok(Math.abs(b.halfX - 4) < 1e-6);
+    assert.ok(Math.abs(b.halfZ - 0.5) < 1e-6);
+    assert.ok(b.walkable);
+    assert.equal(c.kind, "cylinder");
+    assert.ok(Math.abs(c.radius - 0.04) < 1e-6);
+    assert.equal(c.walkable, false);
+    // Gathered once per scene
+    assert.equal(collectColliders(scene), colliders);
+  } finally {
+    scene.dispose();
+    engine.dispose();
+  }
+});
@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { COMBO_WINDOW, ComboResult, createComboTracker } from "../src/combo";
+
+test("each linked trick raises the multiplier and banks base x multiplier", () => {
+  const banked: ComboResult[] = [];
+  const combo = createComboTracker({ onBanked: (r) => banked.push(r) });
+  combo.add("Kickflip", 100);
+  combo.add("50-50", 50);
+  combo.add("Manual", 25);
+  assert.equal(combo.view()?.multiplier, 3);
+  combo.bank();
+  assert.deepEqual(banked, [{ tricks: ["Kickflip", "50-50", "Manual"], basePoints: 175, multiplier: 3, total: 525 }]);
+  assert.equal(combo.isActive(), false);
+});
+
+test("the multiplier is capped at 10", () => {
+  const combo = createComboTracker();
+  for (let i = 0; i < 14; i++) combo.add("Ollie", 10);
+  assert.equal(combo.view()?.multiplier, 10);
+  assert.equal(combo.view()?.basePoints, 140);
+});
+
+test("the timer only runs while not linking and banks when it runs out", () => {
+  const banked: ComboResult[] = [];
+  const combo = createComboTracker({ onBanked: (r) => banked.push(r) });
+  combo.add("Kickflip", 100);
+  // Airborne, grinding or manualing keeps the chain open indefinitely
+  for (let i = 0; i < 600; i++) combo.update(1 / 60, true);
+  assert.equal(combo.view()?.timeFrac, 1);
+  combo.update(COMBO_WINDOW / 2, false);
+  assert.equal(combo.view()?.timeFrac, 0.5);
+  assert.equal(banked.length, 0);
+  combo.update(COMBO_WINDOW / 2, false);
+  assert.equal(combo.isActive(), false);
+  assert.equal(banked[0].total, 100);
+});
+
+test("a dropped chain is reported but not banked", () => {
+  const banked: ComboResult[] = [];
+  const dropped: ComboResult[] = [];
+  const combo = createComboTracker({ onBanked: (r) => banked.push(r), onDropped: (r) => dropped.push(r) });
+  combo.add("Kickflip", 100);
+  combo.add("Heelflip", 100);
+  combo.drop();
+  assert.equal(banked.length, 0);
+  assert.equal(dropped[0].total, 400);
+  assert.equal(combo.view(), null);
+});
+
+test("banking or dropping with no chain does nothing", () => {
+  let calls = 0;
+  const combo = createComboTracker({ onBanked: () => calls++, onDropped: () => calls++ });
+  combo.bank();
+  combo.drop();
+  combo.update(10, false);
+  assert.equal(calls, 0);
+});
@@ -0,0 +1,109 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Vector3 } from "@babylonjs/core/Maths/math.vector";
+import { SkaterPose } from "../src/skater";
+import { GhostRun, createGhostRecorder, parseGhost, poseAt } from "../src/ghost";
+
+function pose(x: number, state: Partial<SkaterPose> = {}): SkaterPose {
+  return {
+    position: new Vector3(x, 0.9, 0), rotation: new Vector3(0, 0, 0), boardRotation: new Vector3(0, 0, 0), boardY: 0, crouch: 0,
+    grind: null, manual: null, ragdoll: null, ...state
+  };
+}
+
+function ragdoll(y: number): Vector3[][] {
+  return Array.from({ length: 8 }, (_, i) => [new Vector3(0, y, 0), new Vector3(i, 0, 0)]);
+}
+
+function run(): GhostRun {
+  return {
+    version: 1,
+    park: "gullcrest",
+    runLength: 60,
+    score: 1200,
+    date: "2026-10-19T12:00:00.000Z",
+    rate: 20,
+    frames: [[0, 0.9, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], [1, 0.9, 0, 0, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0.5]],
+    tricks: [{ t: 1.25, name: "Kickflip", points: 100 }]
+  };
+}
+
+test("the recorder samples poses at its own rate, blending fixed steps", () => {
+  const rec = createGhostRecorder();
+  // 60 Hz steps moving 1 m per step
+  for (let i = 0; i <= 6; i++) rec.sample(i / 60, pose(i));
+  rec.trick(0.1234, "Ollie", 10);
+  const ghost = rec.finish({ park: "gullcrest", runLength: 60, score: 10 });
+  assert.equal(ghost.rate, 20);
+  // Samples at 0, 0.05 and 0.1 s: steps 0, 3 and 6
+  assert.deepEqual(ghost.frames.map((f) => f[0]), [0, 3, 6]);
+  assert.deepEqual(ghost.tricks, [{ t: 0.123, name: "Ollie", points: 10 }]);
+  assert.equal(parseGhost(JSON.stringify(ghost))?.score, 10);
+});
+
+test("reset drops what was recorded", () => {
+  const rec = createGhostRecorder();
+  rec.sample(0, pose(5));
+  rec.trick(0, "Ollie", 10);
+  rec.reset();
+  rec.sample(0, pose(1));
+  const ghost = rec.finish({ park: "gullcrest", runLength: 60, score: 0 });
+  assert.deepEqual(ghost.frames.map((f) => f[0]), [1]);
+  assert.deepEqual(ghost.tricks, []);
+});
+
+test("grinds, manuals and bails come back out of the recording", () => {
+  const rec = createGhostRecorder(60);
+  rec.sample(0, pose(0, { grind: { kind: "crooked", balance: 0.25 } }));
+  rec.sample(1 / 60, pose(1, { manual: { kind: "nose", balance: -0.5 } }));
+  rec.sample(2 / 60, pose(2, { ragdoll: ragdoll(0.2) }));
+  rec.sample(3 / 60, pose(3, { ragdoll: ragdoll(0.4) }));
+  rec.sample(4 / 60, pose(4));
+  const ghost = rec.finish({ park: "gullcrest", runLength: 60, score: 0 });
+
+  assert.deepEqual(poseAt(ghost, 0)?.grind, { kind: "crooked", balance: 0.25 });
+  assert.deepEqual(poseAt(ghost, 1 / 60)?.manual, { kind: "nose", balance: -0.5 });
+  // Between two bail frames the parts blend; otherwise the nearer frame's state wins
+  const tumble = poseAt(ghost, 2.5 / 60);
+  assert.equal(tumble?.ragdoll?.length, 8);
+  assert.ok(Math.abs(tumble!.ragdoll![0][0].y - 0.3) < 1e-9);
+  assert.deepEqual(tumble?.ragdoll?.[5][1], new Vector3(5, 0, 0));
+  assert.equal(poseAt(ghost, 1.4 / 60)?.manual?.kind, "nose");
+  assert.equal(poseAt(ghost, 1.6 / 60)?.manual, null);
+  assert.equal(poseAt(ghost, 3.6 / 60)?.ragdoll, null);
+});
+
+test("ghosts recorded before the rider's state was kept still play", () => {
+  const old = { ...run(), frames: [[0, 0.9, 0, 0, 0, 0, 0, 0, 0, 0, 0], [1, 0.9, 0, 0, 0, 0, 0, 0, 0, 0, 0]] };
+  const ghost = parseGhost(JSON.stringify(old));
+  assert.ok(ghost);
+  const p = poseAt(ghost, 0.5 / 20);
+  assert.equal(p?.position.x, 0.5);
+  assert.deepEqual([p?.grind, p?.manual, p?.ragdoll], [null, null, null]);
+});
+
+test("a ghost file round-trips through JSON", () => {
+  assert.deepEqual(parseGhost(JSON.stringify(run())), run());
+});
+
+test("files that aren't ghosts are rejected", () => {
+  const bad: [string, unknown][] = [
+    ["not JSON", "{"],
+    ["null", null],
+    ["wrong version", { ...run(), version: 2 }],
+    ["no park", { ...run(), park: undefined }],
+    ["string run length", { ...run(), runLength: "60" }],
+    ["no rate", { ...run(), rate: undefined }],
+    ["frames not a list", { ...run(), frames: {} }],
+    ["short frame", { ...run(), frames: [[0, 0.9, 0]] }],
+    ["non-numeric frame", { ...run(), frames: [[0, 0.9, "0", 0, 0, 0, 0, 0, 0, 0, 0]] }],
+    ["unknown state", { ...run(), frames: [[0, 0.9, 0, 0, 0, 0, 0, 0, 0, 0, 0, 9, 0, 0]] }],
+    ["unknown grind", { ...run(), frames: [[0, 0.9, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 99, 0]] }],
+    ["partial ragdoll", { ...run(), frames: [[0, 0.9, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 2, 3]] }],
+    ["tricks not a list", { ...run(), tricks: null }]
+  ];
+  for (const [why, value] of bad) {
+    const json = typeof value === "string" ? value : JSON.stringify(value);
+    assert.equal(parseGhost(json), null, why);
+  }
+});
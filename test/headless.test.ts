@@ -0,0 +1,70 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Vector3 } from "@babylonjs/core/Maths/math.vector";
+import { runScriptedLine, ScriptedFrame } from "../src/headless";
+
+// Regression lines run through the headless harness. Runs are deterministic,
+// so these pin exact landing spots, trick names and scores for recorded input.
+
+// Push along the open pad towards -x, ollie, flick a kickflip and roll to a stop
+const KICKFLIP_LINE: ScriptedFrame[] = [
+  { push: true, forward: true, steps: 60 },
+  { jump: true },
+  { steps: 4 },
+  { trickFlip: true },
+  { steps: 160 }
+];
+const KICKFLIP_OPTS = { yaw: -Math.PI / 2 };
+
+// Straight onto the long rail from its near end, holding the grind keys into
+// it, then ollie off to finish the grind
+const RAIL_SPAWN = new Vector3(12, 1, 16);
+
+function railLine(keys: ScriptedFrame): ScriptedFrame[] {
+  return [
+    { push: true, forward: true, steps: 50 },
+    { jump: true },
+    { ...keys, steps: 45 },
+    { jump: true },
+    { steps: 90 }
+  ];
+}
+
+function assertNear(actual: Vector3, expected: [number, number, number], message?: string): void {
+  const d = Vector3.Distance(actual, Vector3.FromArray(expected));
+  assert.ok(d < 1e-6, message ?? `expected ${expected.join(", ")}, got ${actual.asArray().join(", ")}`);
+}
+
+test("the same script gives the same run", () => {
+  const a = runScriptedLine(KICKFLIP_LINE, KICKFLIP_OPTS);
+  const b = runScriptedLine(KICKFLIP_LINE, KICKFLIP_OPTS);
+  assert.deepEqual(a.position.asArray(), b.position.asArray());
+  assert.deepEqual(a.velocity.asArray(), b.velocity.asArray());
+  assert.deepEqual(a.tricks, b.tricks);
+  assert.equal(a.score, b.score);
+});
+
+test("a kickflip line lands where it was recorded", () => {
+  const r = runScriptedLine(KICKFLIP_LINE, KICKFLIP_OPTS);
+  assert.deepEqual(r.tricks, [{ name: "Kickflip", points: 100, step: 101 }]);
+  assert.deepEqual(r.combos, [{ tricks: ["Kickflip"], basePoints: 100, multiplier: 1, total: 100 }]);
+  assert.equal(r.score, 100);
+  assert.equal(r.pendingCombo, null);
+  assert.ok(r.grounded);
+  assertNear(r.position, [-17.024305555555543, 0.9, 0]);
+  assert.equal(r.steps, 226);
+});
+
+test("grind keys pick the grind on the long rail", () => {
+  const cases: [ScriptedFrame, string][] = [
+    [{}, "50-50"],
+    [{ manual: true }, "5-0"],
+    [{ noseManual: true }, "Nosegrind"],
+    [{ noseManual: true, left: true }, "Crooked"]
+  ];
+  for (const [keys, grind] of cases) {
+    const r = runScriptedLine(railLine(keys), { spawn: RAIL_SPAWN, yaw: 0 });
+    assert.ok(r.tricks.some((t) => t.name === grind), `expected ${grind}, got ${r.tricks.map((t) => t.name).join(", ")}`);
+    assert.equal(r.bails.length, 0, `bailed holding ${JSON.stringify(keys)}`);
+  }
+});
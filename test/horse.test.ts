@@ -0,0 +1,71 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { HorseEvent, createHorseGame, horseLetters } from "../src/horse";
+
+function game() {
+  const events: HorseEvent[] = [];
+  return { events, horse: createHorseGame({ onEvent: (e) => events.push(e) }) };
+}
+
+test("letters spell out the word", () => {
+  assert.equal(horseLetters(0), "");
+  assert.equal(horseLetters(2), "HO");
+  assert.equal(horseLetters(5), "HORSE");
+});
+
+test("a matched trick hands the set back to the setter", () => {
+  const { events, horse } = game();
+  horse.onTrick(1, "Ollie"); // not player 2's turn to set
+  horse.onTrick(0, "Kickflip");
+  assert.deepEqual(horse.view(), { phase: "match", active: 1, trick: "Kickflip", timeLeft: 25, letters: [0, 0], winner: null });
+  horse.onTrick(1, "Kickflip");
+  assert.deepEqual(events, [{ kind: "set", player: 0, trick: "Kickflip" }, { kind: "matched", player: 1, trick: "Kickflip" }]);
+  assert.equal(horse.view().phase, "set");
+  assert.equal(horse.view().active, 0);
+});
+
+test("landing a different trick, bailing or running out of time earns a letter", () => {
+  const { events, horse } = game();
+  horse.onTrick(0, "Kickflip");
+  horse.onTrick(1, "Heelflip");
+  horse.onTrick(0, "Kickflip");
+  horse.onBail(1);
+  horse.onTrick(0, "Kickflip");
+  horse.update(25);
+  assert.deepEqual(events.filter((e) => e.kind === "letter"), [
+    { kind: "letter", player: 1, letters: "H" },
+    { kind: "letter", player: 1, letters: "HO" },
+    { kind: "letter", player: 1, letters: "HOR" }
+  ]);
+  assert.deepEqual(horse.view().letters, [0, 3]);
+});
+
+test("a setter who lands nothing passes the set", () => {
+  const { events, horse } = game();
+  horse.update(19);
+  assert.equal(horse.view().active, 0);
+  horse.update(1);
+  assert.deepEqual(events, [{ kind: "pass", player: 0 }]);
+  assert.deepEqual({ ...horse.view(), timeLeft: 0 }, { phase: "set", active: 1, trick: null, timeLeft: 0, letters: [0, 0], winner: null });
+  // Bailing while setting passes too, and costs no letter
+  horse.onBail(1);
+  assert.equal(horse.view().active, 0);
+  assert.deepEqual(horse.view().letters, [0, 0]);
+});
+
+test("the fifth letter ends the game for the setter", () => {
+  const { events, horse } = game();
+  for (let i = 0; i < 5; i++) {
+    horse.onTrick(0, "Ollie");
+    horse.onBail(1);
+  }
+  assert.deepEqual(events.at(-1), { kind: "won", player: 0 });
+  assert.equal(horse.view().phase, "over");
+  assert.equal(horse.view().winner, 0);
+  // Nothing moves once it's over, until a reset
+  horse.onTrick(0, "Ollie");
+  horse.update(60);
+  assert.equal(events.at(-1)?.kind, "won");
+  horse.reset();
+  assert.deepEqual({ ...horse.view(), timeLeft: 0 }, { phase: "set", active: 0, trick: null, timeLeft: 0, letters: [0, 0], winner: null });
+});
@@ -0,0 +1,70 @@
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { BOARD_SIZE, LeaderboardEntry, Leaderboards, addEntry, boardId, boardRank, getBoard, importLeaderboards, loadLeaderboards } from "../src/leaderboard";
+
+// The boards live in localStorage; a Map stands in for it
+const store = new Map<string, string>();
+Object.assign(globalThis, {
+  localStorage: {
+    getItem: (k: string) => store.get(k) ?? null,
+    setItem: (k: string, v: string) => void store.set(k, v)
+  }
+});
+
+const BOARD = boardId("gullcrest", { mode: "classic", runLength: 60 });
+
+function entry(initials: string, score: number, day = 1): LeaderboardEntry {
+  return { initials, score, date: `2026-10-${String(day).padStart(2, "0")}T12:00:00.000Z`, bestCombo: score / 2, duration: 60 };
+}
+
+function file(boards: Leaderboards): string {
+  return JSON.stringify({ version: 1, kind: "leaderboards", boards });
+}
+
+beforeEach(() => store.clear());
+
+test("boards are per mode, and per run length when timed", () => {
+  assert.equal(BOARD, "gullcrest/classic-60");
+  assert.equal(boardId("gullcrest", { mode: "free", runLength: 60 }), "gullcrest/free");
+});
+
+test("entries rank by score, ties to the earlier run, and the board keeps ten", () => {
+  assert.equal(addEntry(BOARD, entry("AAA", 500, 2)), 1);
+  assert.equal(addEntry(BOARD, entry("BBB", 500, 1)), 1);
+  for (let i = 0; i < BOARD_SIZE - 2; i++) addEntry(BOARD, entry("CCC", 1000 + i));
+  assert.equal(boardRank(BOARD, 499), null);
+  assert.equal(boardRank(BOARD, 500), null);
+  assert.equal(boardRank(BOARD, 501), 9);
+  assert.equal(addEntry(BOARD, entry("DDD", 600)), 9);
+  assert.deepEqual(getBoard(BOARD).slice(-2).map((e) => e.initials), ["DDD", "BBB"]);
+  assert.equal(boardRank(BOARD, 0), null);
+});
+
+test("importing merges into the boards here and counts what made it on", () => {
+  addEntry(BOARD, entry("AAA", 300));
+  const added = importLeaderboards(file({ [BOARD]: [entry("bb!", 400), entry("CCC", 200)], "gullcrest/classic-120": [entry("DDD", 900)] }));
+  assert.equal(added, 3);
+  assert.deepEqual(getBoard(BOARD).map((e) => [e.initials, e.score]), [["BB", 400], ["AAA", 300], ["CCC", 200]]);
+  assert.equal(getBoard("gullcrest/classic-120").length, 1);
+});
+
+test("the same run imported twice only counts once", () => {
+  const json = file({ [BOARD]: [entry("AAA", 300), entry("AAA", 300), entry("AAA", 300, 2)] });
+  assert.equal(importLeaderboards(json), 2);
+  assert.equal(importLeaderboards(json), 0);
+  assert.equal(getBoard(BOARD).length, 2);
+});
+
+test("imports that don't make the board aren't counted", () => {
+  for (let i = 0; i < BOARD_SIZE; i++) addEntry(BOARD, entry("TOP", 1000 + i));
+  assert.equal(importLeaderboards(file({ [BOARD]: [entry("LOW", 10), entry("MID", 1005)] })), 1);
+  assert.equal(getBoard(BOARD).length, BOARD_SIZE);
+});
+
+test("files that aren't leaderboards are rejected, and bad entries dropped", () => {
+  assert.equal(importLeaderboards("{"), null);
+  assert.equal(importLeaderboards(JSON.stringify({ version: 1, kind: "replay", boards: {} })), null);
+  assert.equal(importLeaderboards(JSON.stringify({ version: 2, kind: "leaderboards", boards: {} })), null);
+  assert.equal(importLeaderboards(file({ [BOARD]: [{ initials: "AAA", score: "lots" } as unknown as LeaderboardEntry, entry("OK", 5)] })), 1);
+  assert.deepEqual(loadLeaderboards(), { [BOARD]: [entry("OK", 5)] });
+});
@@ -0,0 +1,76 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Vector3 } from "@babylonjs/core/Maths/math.vector";
+import { boxTopEdges, closestOnPath, createRailPath, pointAt, tangentAt } from "../src/rails";
+
+const EPS = 1e-9;
+
+function assertNear(actual: Vector3, expected: Vector3, eps = EPS): void {
+  assert.ok(Vector3.Distance(actual, expected) < eps, `expected ${expected}, got ${actual}`);
+}
+
+// An L-shaped kinked rail: 4 m along +x, then 3 m along +z
+const KINK = [new Vector3(0, 0.5, 0), new Vector3(4, 0.5, 0), new Vector3(4, 0.5, 3)];
+
+test("polylines are parameterised by arc length", () => {
+  const path = createRailPath(KINK, { radius: 0.06 });
+  assert.deepEqual(path.cumulative, [0, 4, 7]);
+  assert.equal(path.length, 7);
+  assert.equal(path.radius, 0.06);
+  assert.equal(path.requiresAir, false);
+  assertNear(pointAt(path, 2), new Vector3(2, 0.5, 0));
+  assertNear(pointAt(path, 5.5), new Vector3(4, 0.5, 1.5));
+  // Clamped to the ends
+  assertNear(pointAt(path, -1), KINK[0]);
+  assertNear(pointAt(path, 99), KINK[2]);
+});
+
+test("the tangent follows each segment and blends around corners", () => {
+  const path = createRailPath(KINK);
+  assertNear(tangentAt(path, 1), new Vector3(1, 0, 0));
+  assertNear(tangentAt(path, 6), new Vector3(0, 0, 1));
+  // Right on the corner it points halfway between the two segments
+  assertNear(tangentAt(path, 4), new Vector3(1, 0, 1).normalize(), 1e-6);
+});
+
+test("points project onto the nearest segment on the ground plane", () => {
+  const path = createRailPath(KINK);
+  const onFirst = closestOnPath(path, new Vector3(1.5, 3, -0.4));
+  assert.ok(Math.abs(onFirst.s - 1.5) < EPS);
+  assert.ok(Math.abs(onFirst.distXZ - 0.4) < EPS);
+  assertNear(onFirst.point, new Vector3(1.5, 0.5, 0));
+  const onSecond = closestOnPath(path, new Vector3(4.3, 0, 2));
+  assert.ok(Math.abs(onSecond.s - 6) < EPS);
+  assertNear(onSecond.point, new Vector3(4, 0.5, 2));
+  // Beyond the end: clamped to the last point
+  const past = closestOnPath(path, new Vector3(4, 0.5, 5));
+  assert.ok(Math.abs(past.s - 7) < EPS);
+  assert.ok(Math.abs(past.distXZ - 2) < EPS);
+});
+
+test("curved rails are sampled as a Catmull-Rom spline through their points", () => {
+  const ctrl = [new Vector3(0, 1, 0), new Vector3(2, 1, 2), new Vector3(4, 1, 0)];
+  const path = createRailPath(ctrl, { curve: true });
+  // 8 samples per control segment plus the last point
+  assert.equal(path.points.length, 17);
+  for (const c of ctrl) assert.ok(path.points.some((p) => Vector3.Distance(p, c) < EPS), `misses ${c}`);
+  // Longer than the straight chords, and the middle control point is the apex
+  assert.ok(path.length > 2 * Math.hypot(2, 2));
+  assertNear(pointAt(path, path.length / 2), ctrl[1], 1e-6);
+  const mid = closestOnPath(path, new Vector3(2, 0, 5));
+  assert.ok(Math.abs(mid.distXZ - 3) < 1e-6);
+});
+
+test("two-point curves stay straight", () => {
+  const path = createRailPath([new Vector3(0, 0, 0), new Vector3(0, 0, 5)], { curve: true });
+  assert.equal(path.points.length, 2);
+  assert.equal(path.length, 5);
+});
+
+test("box top edges sit on the top face in local space", () => {
+  const [left, center] = boxTopEdges(1, 0.6, 10, ["left", "center"]);
+  assertNear(left.from, new Vector3(-0.5, 0.3, -5));
+  assertNear(left.to, new Vector3(-0.5, 0.3, 5));
+  assertNear(center.from, new Vector3(0, 0.3, -5));
+  assertNear(center.to, new Vector3(0, 0.3, 5));
+});
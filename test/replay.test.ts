@@ -0,0 +1,32 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseReplay } from "../src/replay";
+
+const run = {
+  version: 1,
+  park: "gullcrest",
+  runLength: 60,
+  score: 300,
+  date: "2026-10-19T12:00:00.000Z",
+  rate: 60,
+  frames: [[0, 0.9, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]],
+  tricks: []
+};
+
+test("a replay file parses back to the run it holds", () => {
+  const replay = parseReplay(JSON.stringify({ version: 1, kind: "replay", mode: "timed", run }));
+  assert.equal(replay?.mode, "timed");
+  assert.deepEqual(replay?.run, run);
+});
+
+test("ghosts and broken files aren't replays", () => {
+  const bad: [string, string][] = [
+    ["not JSON", "[1,"],
+    ["a ghost", JSON.stringify(run)],
+    ["wrong kind", JSON.stringify({ version: 1, kind: "ghost", mode: "timed", run })],
+    ["no mode", JSON.stringify({ version: 1, kind: "replay", run })],
+    ["newer version", JSON.stringify({ version: 2, kind: "replay", mode: "timed", run })],
+    ["bad run", JSON.stringify({ version: 1, kind: "replay", mode: "timed", run: { ...run, frames: [[1, 2]] } })]
+  ];
+  for (const [why, json] of bad) assert.equal(parseReplay(json), null, why);
+});